@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { db } from "@/db";
+import { storeMeeting } from "@/lib/ingest";
+import { evaluateMeeting } from "@/lib/participant-rules";
+import {
+  TRANSCRIPTION_COMPLETED,
+  firefliesSource,
+  verifyWebhookSignature,
+  type FirefliesWebhookPayload,
+} from "@/lib/sources/fireflies";
+
+/**
+ * Fireflies "Transcription completed" webhook. Fetches the one transcript,
+ * applies the same participant filters as pull-transcripts.ts and upserts it
+ * into raw_meetings, where process-calls.ts picks it up (processed_at IS NULL).
+ */
+export async function POST(request: Request) {
+  const body = await request.text();
+  const signature = request.headers.get("x-hub-signature");
+
+  if (!verifyWebhookSignature(body, signature, process.env.FIREFLIES_WEBHOOK_SECRET || "")) {
+    return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+  }
+
+  let payload: FirefliesWebhookPayload;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  // Valid JSON isn't necessarily an object ("null", "42", "[]")
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    return NextResponse.json({ error: "Body must be a JSON object" }, { status: 400 });
+  }
+
+  if (payload.eventType !== TRANSCRIPTION_COMPLETED) {
+    return NextResponse.json({ status: "ignored", eventType: payload.eventType });
+  }
+  if (typeof payload.meetingId !== "string" || !payload.meetingId.trim()) {
+    return NextResponse.json({ error: "Missing or invalid meetingId" }, { status: 400 });
+  }
+
+  try {
+    const meeting = await firefliesSource.fetchMeeting(payload.meetingId);
+    if (!meeting) {
+      return NextResponse.json({ error: "Transcript not found" }, { status: 404 });
+    }
+
+    const decision = evaluateMeeting(meeting);
+    if (!decision.keep) {
+      return NextResponse.json({ status: "filtered", rule: decision.rule, reason: decision.reason });
+    }
+
+    const { result, changedFields } = await storeMeeting(db, meeting);
+    return NextResponse.json({ status: "stored", result, changedFields, queued: result !== "unchanged" });
+  } catch (err) {
+    console.error(`Fireflies webhook ${payload.meetingId} failed:`, err);
+    // Non-2xx makes Fireflies retry the delivery; the details stay in our logs
+    return NextResponse.json({ error: "Failed to ingest transcript" }, { status: 502 });
+  }
+}
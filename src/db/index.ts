@@ -1,4 +1,5 @@
-import { drizzle } from "drizzle-orm/postgres-js";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import { drizzle, type PostgresJsQueryResultHKT } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
 import * as schema from "./schema";
 
@@ -10,3 +11,9 @@ const client = postgres(connectionString, {
 });
 
 export const db = drizzle(client, { schema });
+
+/**
+ * Any drizzle postgres-js handle, with or without the relational schema
+ * attached, including a transaction's.
+ */
+export type Database = PgDatabase<PostgresJsQueryResultHKT, Record<string, unknown>>;
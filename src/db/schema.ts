@@ -6,8 +6,14 @@ import {
   timestamp,
   integer,
   jsonb,
+  boolean,
+  real,
+  doublePrecision,
   customType,
+  unique,
+  index,
 } from "drizzle-orm/pg-core";
+import type { ClassificationVerdict } from "../lib/classifier";
 
 // Custom type for pgvector
 const vector = customType<{ data: number[]; driverParam: string }>({
@@ -26,23 +32,144 @@ const vector = customType<{ data: number[]; driverParam: string }>({
   },
 });
 
+// Compressed blobs; postgres-js hands bytea back as a Buffer
+const bytea = customType<{ data: Buffer }>({
+  dataType() {
+    return "bytea";
+  },
+});
+
 // ─── Core Tables ────────────────────────────────────────────
 
-export const rawMeetings = pgTable("raw_meetings", {
+// One row per distinct transcript text, shared by raw_meetings and calls.
+export const transcripts = pgTable("transcripts", {
+  hash: varchar("hash", { length: 64 }).primaryKey(), // sha256 of the plain text
+  encoding: varchar("encoding", { length: 10 }).notNull(), // plain | gzip
+  content: bytea("content").notNull(),
+  sizeBytes: integer("size_bytes").notNull(), // uncompressed
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const rawMeetings = pgTable(
+  "raw_meetings",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    source: varchar("source", { length: 50 }).default("fireflies").notNull(),
+    externalId: varchar("external_id", { length: 255 }).notNull(),
+    title: varchar("title", { length: 500 }),
+    date: timestamp("date"),
+    duration: integer("duration"),
+    rawJson: jsonb("raw_json"),
+    transcriptHash: varchar("transcript_hash", { length: 64 }).references(() => transcripts.hash),
+    classification: varchar("classification", { length: 50 }),
+    classificationVerdict: jsonb("classification_verdict").$type<ClassificationVerdict>(),
+    // Set by a person; process-calls uses it instead of running the classifier
+    classificationOverride: varchar("classification_override", { length: 50 }),
+    // Finer label under the classification (see src/lib/meeting-subtype.ts)
+    subtype: varchar("subtype", { length: 50 }),
+    subtypeReason: text("subtype_reason"),
+    processedAt: timestamp("processed_at"),
+    // sha256 of the canonical meeting incl. sentences; a change re-queues the meeting
+    contentHash: varchar("content_hash", { length: 64 }),
+    // Set when the meeting disappeared upstream; its calls rows are removed
+    deletedAt: timestamp("deleted_at"),
+  },
+  (table) => [unique("raw_meetings_source_external_id_unique").on(table.source, table.externalId)]
+);
+
+// Speaker turns as delivered by the source, one row per sentence.
+export const transcriptSentences = pgTable(
+  "transcript_sentences",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    rawMeetingId: uuid("raw_meeting_id")
+      .references(() => rawMeetings.id)
+      .notNull(),
+    sentenceIndex: integer("sentence_index").notNull(),
+    speakerLabel: varchar("speaker_label", { length: 255 }),
+    speakerId: varchar("speaker_id", { length: 100 }),
+    participantEmail: varchar("participant_email", { length: 255 }),
+    text: text("text").notNull(),
+    startTime: real("start_time"), // seconds
+    endTime: real("end_time"),
+  },
+  (table) => [unique("transcript_sentences_meeting_index_unique").on(table.rawMeetingId, table.sentenceIndex)]
+);
+
+// Who each transcript speaker label refers to in a meeting. method "manual" rows
+// are never overwritten by automatic resolution.
+export const meetingSpeakers = pgTable(
+  "meeting_speakers",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    rawMeetingId: uuid("raw_meeting_id")
+      .references(() => rawMeetings.id)
+      .notNull(),
+    speakerLabel: varchar("speaker_label", { length: 255 }).notNull(),
+    teamMemberId: uuid("team_member_id").references(() => teamMembers.id),
+    prospectContactId: uuid("prospect_contact_id").references(() => prospectContacts.id),
+    email: varchar("email", { length: 255 }),
+    resolvedName: varchar("resolved_name", { length: 255 }),
+    method: varchar("method", { length: 50 }).notNull(),
+    confidence: varchar("confidence", { length: 20 }).notNull(), // high | medium | low | none
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [unique("meeting_speakers_meeting_label_unique").on(table.rawMeetingId, table.speakerLabel)]
+);
+
+// Audit trail for raw_meetings.classification_override; one row per change.
+export const classificationOverrides = pgTable("classification_overrides", {
   id: uuid("id").defaultRandom().primaryKey(),
-  firefliesId: varchar("fireflies_id", { length: 255 }).unique().notNull(),
-  title: varchar("title", { length: 500 }),
-  date: timestamp("date"),
-  duration: integer("duration"),
-  rawJson: jsonb("raw_json"),
-  classification: varchar("classification", { length: 50 }),
-  processedAt: timestamp("processed_at"),
+  rawMeetingId: uuid("raw_meeting_id")
+    .references(() => rawMeetings.id)
+    .notNull(),
+  previousClassification: varchar("previous_classification", { length: 50 }),
+  newClassification: varchar("new_classification", { length: 50 }), // null = override cleared
+  changedBy: varchar("changed_by", { length: 255 }).notNull(),
+  reason: text("reason").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One row per transcript source. The watermark (last_synced_*) only moves once a
+// sync window completes; window_* + cursor let a crashed run resume mid-window.
+export const syncState = pgTable("sync_state", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  source: varchar("source", { length: 50 }).unique().notNull(),
+  lastSyncedDate: timestamp("last_synced_date"),
+  lastSyncedId: varchar("last_synced_id", { length: 255 }),
+  lastSyncedAt: timestamp("last_synced_at"),
+  status: varchar("status", { length: 20 }).default("idle").notNull(),
+  mode: varchar("mode", { length: 20 }),
+  windowFrom: timestamp("window_from"),
+  windowTo: timestamp("window_to"),
+  // Opaque page cursor from the source adapter (a skip offset for Fireflies)
+  cursor: varchar("cursor", { length: 500 }),
+  // External ids the source returned incomplete; re-fetched individually next run
+  retryIds: jsonb("retry_ids").$type<string[]>().default([]).notNull(),
+});
+
+// Controlled vocabulary for companies.sector (protocol category). Seeded,
+// then edited in place; keywords drive the rule pass in src/lib/company-sectors.ts.
+export const sectors = pgTable("sectors", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  key: varchar("key", { length: 100 }).unique().notNull(),
+  displayName: varchar("display_name", { length: 255 }).notNull(),
+  description: text("description"),
+  keywords: jsonb("keywords").$type<string[]>().default([]).notNull(),
 });
 
 export const companies = pgTable("companies", {
   id: uuid("id").defaultRandom().primaryKey(),
   name: varchar("name", { length: 255 }).unique().notNull(),
-  sector: varchar("sector", { length: 100 }),
+  sector: varchar("sector", { length: 100 }).references(() => sectors.key),
+  // How sector was assigned: keywords | llm | manual (manual is never
+  // re-enriched). sector_call_count is the number of calls it was based on;
+  // a company with more calls than that is enriched again.
+  sectorSource: varchar("sector_source", { length: 20 }),
+  sectorConfidence: real("sector_confidence"),
+  sectorEvidence: text("sector_evidence"),
+  sectorCallCount: integer("sector_call_count"),
+  sectorAssignedAt: timestamp("sector_assigned_at"),
   firstSeenDate: timestamp("first_seen_date"),
 });
 
@@ -52,6 +179,15 @@ export const teamMembers = pgTable("team_members", {
   email: varchar("email", { length: 255 }).unique().notNull(),
 });
 
+// Alternate names a team member shows up under in transcripts ("Ty", "tyler-laptop")
+export const teamMemberAliases = pgTable("team_member_aliases", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  teamMemberId: uuid("team_member_id")
+    .references(() => teamMembers.id)
+    .notNull(),
+  alias: varchar("alias", { length: 255 }).unique().notNull(), // lowercased
+});
+
 export const prospectContacts = pgTable("prospect_contacts", {
   id: uuid("id").defaultRandom().primaryKey(),
   name: varchar("name", { length: 255 }).notNull(),
@@ -66,31 +202,125 @@ export const objections = pgTable("objections", {
   description: text("description"),
 });
 
+// New objection types proposed by clustering call_objections tagged "other"
+// (src/lib/objection-discovery.ts). Approving one adds it to objections and
+// moves the matching "other" rows over.
+export const objectionTypeProposals = pgTable("objection_type_proposals", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  typeKey: varchar("type_key", { length: 100 }).notNull(),
+  displayName: varchar("display_name", { length: 255 }).notNull(),
+  description: text("description"),
+  exampleQuotes: jsonb("example_quotes").$type<string[]>().default([]).notNull(),
+  // call_objections rows in the cluster when it was proposed
+  callObjectionIds: jsonb("call_objection_ids").$type<string[]>().default([]).notNull(),
+  topTerms: jsonb("top_terms").$type<string[]>().default([]).notNull(),
+  status: varchar("status", { length: 20 }).default("pending").notNull(), // pending | approved | rejected
+  objectionId: uuid("objection_id").references(() => objections.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  reviewedAt: timestamp("reviewed_at"),
+});
+
 export const technologies = pgTable("technologies", {
   id: uuid("id").defaultRandom().primaryKey(),
   name: varchar("name", { length: 100 }).unique().notNull(),
   category: varchar("category", { length: 100 }),
 });
 
-export const calls = pgTable("calls", {
+// Other names a technology goes by ("arb" → Arbitrum). Stored normalized
+// (src/lib/technologies.ts normalizeTechName), like the names they're matched to.
+export const technologyAliases = pgTable("technology_aliases", {
   id: uuid("id").defaultRandom().primaryKey(),
-  rawMeetingId: uuid("raw_meeting_id").references(() => rawMeetings.id),
-  callType: varchar("call_type", { length: 50 }),
-  offeringPitched: varchar("offering_pitched", { length: 50 }),
-  companyId: uuid("company_id").references(() => companies.id),
-  callOutcome: varchar("call_outcome", { length: 100 }),
-  dealSize: varchar("deal_size", { length: 100 }),
-  callQualityScore: integer("call_quality_score"),
-  qualityRationale: text("quality_rationale"),
-  transcriptText: text("transcript_text"),
-  summaryText: text("summary_text"),
-  firefliesUrl: varchar("fireflies_url", { length: 500 }),
-  date: timestamp("date"),
-  duration: integer("duration"),
+  alias: varchar("alias", { length: 100 }).unique().notNull(),
+  technologyId: uuid("technology_id")
+    .references(() => technologies.id)
+    .notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// ─── Classifier Taxonomy ────────────────────────────────────
+// Edited in place to tune classification without a deploy; seeded from
+// DEFAULT_TAXONOMY in src/lib/keyword-taxonomy.ts.
+
+export const classifierKeywords = pgTable(
+  "classifier_keywords",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    classification: varchar("classification", { length: 50 }).notNull(),
+    keyword: varchar("keyword", { length: 255 }).notNull(),
+    weight: real("weight").default(1).notNull(),
+    matchType: varchar("match_type", { length: 20 }).default("word").notNull(), // word | prefix
+  },
+  (table) => [unique("classifier_keywords_class_keyword_unique").on(table.classification, table.keyword)]
+);
+
+export const classifierThresholds = pgTable("classifier_thresholds", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  classification: varchar("classification", { length: 50 }).unique().notNull(),
+  minScore: real("min_score").notNull(),
+  // Lower bar used as a last resort, low-confidence rule (sales_call only by default)
+  fallbackScore: real("fallback_score"),
+});
+
+export const classifierFieldWeights = pgTable("classifier_field_weights", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  field: varchar("field", { length: 50 }).unique().notNull(), // title | meeting_type | overview | ...
+  weight: real("weight").notNull(),
+});
+
+export const calls = pgTable(
+  "calls",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    rawMeetingId: uuid("raw_meeting_id").references(() => rawMeetings.id),
+    callType: varchar("call_type", { length: 50 }),
+    subtype: varchar("subtype", { length: 50 }), // new_business | existing_customer | renewal_upsell
+    offeringPitched: varchar("offering_pitched", { length: 50 }),
+    companyId: uuid("company_id").references(() => companies.id),
+    callOutcome: varchar("call_outcome", { length: 100 }),
+    dealSize: varchar("deal_size", { length: 100 }),
+    // deal_size parsed by src/lib/deal-size.ts. min/max are null for open
+    // ends ("up to 80k", "50k+"); unit is one_off | monthly | annual; source is
+    // parser | llm | manual (null = not parsed yet). needs_review flags text
+    // that isn't a clear amount, or parsed with low confidence.
+    dealSizeMin: doublePrecision("deal_size_min"),
+    dealSizeMax: doublePrecision("deal_size_max"),
+    dealSizeCurrency: varchar("deal_size_currency", { length: 10 }), // USD | USDC | USDT | ETH | EUR
+    dealSizeUnit: varchar("deal_size_unit", { length: 20 }),
+    dealSizeConfidence: real("deal_size_confidence"),
+    dealSizeSource: varchar("deal_size_source", { length: 20 }),
+    dealSizeNeedsReview: boolean("deal_size_needs_review").default(false).notNull(),
+    callQualityScore: integer("call_quality_score"),
+    qualityRationale: text("quality_rationale"),
+    transcriptHash: varchar("transcript_hash", { length: 64 }).references(() => transcripts.hash),
+    // single | map_reduce (chunked, merged, reconciled); chunks is 1 for single
+    extractionStrategy: varchar("extraction_strategy", { length: 20 }),
+    extractionChunks: integer("extraction_chunks"),
+    // Model that produced the extraction; escalation_reason lists the policy
+    // triggers that sent it to the escalation model (null when none did)
+    extractionModel: varchar("extraction_model", { length: 100 }),
+    escalationReason: varchar("escalation_reason", { length: 200 }),
+    extractionRunId: uuid("extraction_run_id").references(() => extractionRuns.id),
+    summaryText: text("summary_text"),
+    firefliesUrl: varchar("fireflies_url", { length: 500 }),
+    date: timestamp("date"),
+    duration: integer("duration"),
+  },
+  (table) => [index("calls_subtype_idx").on(table.subtype)]
+);
+
 // ─── Join Tables ────────────────────────────────────────────
 
+// Where an extracted quote was found in the transcript (src/lib/quote-grounding.ts).
+// All null until grounded; verified is false when the best match scored below
+// the threshold, i.e. the quote may be a paraphrase or invented.
+const quoteGrounding = () => ({
+  groundingScore: real("grounding_score"),
+  sentenceIndex: integer("sentence_index"),
+  groundedSpeaker: varchar("grounded_speaker", { length: 255 }),
+  startTime: real("start_time"), // seconds; null for untimed transcripts
+  verified: boolean("verified"),
+});
+
 export const callObjections = pgTable("call_objections", {
   id: uuid("id").defaultRandom().primaryKey(),
   callId: uuid("call_id")
@@ -101,6 +331,7 @@ export const callObjections = pgTable("call_objections", {
     .notNull(),
   quote: text("quote"),
   context: text("context"),
+  ...quoteGrounding(),
 });
 
 export const callTechnologies = pgTable("call_technologies", {
@@ -113,6 +344,27 @@ export const callTechnologies = pgTable("call_technologies", {
     .notNull(),
 });
 
+// tech_stack entries that matched no technology or alias: one row per call
+// and name, counted per name for review. Mapping a name to a technology
+// turns its rows into call_technologies; ignored names stay out of the queue.
+export const technologyMentions = pgTable(
+  "technology_mentions",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    callId: uuid("call_id")
+      .references(() => calls.id)
+      .notNull(),
+    name: varchar("name", { length: 100 }).notNull(), // as extracted
+    normalizedName: varchar("normalized_name", { length: 100 }).notNull(),
+    status: varchar("status", { length: 20 }).default("pending").notNull(), // pending | ignored
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    unique("technology_mentions_call_name_unique").on(table.callId, table.normalizedName),
+    index("technology_mentions_name_idx").on(table.normalizedName),
+  ]
+);
+
 export const callTeamMembers = pgTable("call_team_members", {
   id: uuid("id").defaultRandom().primaryKey(),
   callId: uuid("call_id")
@@ -160,6 +412,7 @@ export const keyQuotes = pgTable("key_quotes", {
   speaker: varchar("speaker", { length: 255 }),
   quoteText: text("quote_text").notNull(),
   context: text("context"),
+  ...quoteGrounding(),
 });
 
 export const counterResponses = pgTable("counter_responses", {
@@ -172,8 +425,107 @@ export const counterResponses = pgTable("counter_responses", {
     .notNull(),
   responseText: text("response_text").notNull(),
   outcome: varchar("outcome", { length: 100 }),
+  ...quoteGrounding(),
+});
+
+// ─── Partner Tables ─────────────────────────────────────────
+// Light extraction for partner_call and other meetings. One partner_meetings
+// row per raw meeting; the company is the partner organisation.
+
+export const partnerMeetings = pgTable("partner_meetings", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  rawMeetingId: uuid("raw_meeting_id")
+    .references(() => rawMeetings.id)
+    .unique()
+    .notNull(),
+  classification: varchar("classification", { length: 50 }).notNull(), // partner_call | other
+  companyId: uuid("company_id").references(() => companies.id),
+  relationshipType: varchar("relationship_type", { length: 50 }).notNull(), // vendor | referral | conference | integration | other
+  summaryText: text("summary_text"),
+  firefliesUrl: varchar("fireflies_url", { length: 500 }),
+  date: timestamp("date"),
+  duration: integer("duration"),
 });
 
+export const partnerMeetingActionItems = pgTable("partner_meeting_action_items", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  partnerMeetingId: uuid("partner_meeting_id")
+    .references(() => partnerMeetings.id)
+    .notNull(),
+  actionText: text("action_text").notNull(),
+  assignedTo: varchar("assigned_to", { length: 255 }),
+});
+
+export const partnerMeetingAttendees = pgTable("partner_meeting_attendees", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  partnerMeetingId: uuid("partner_meeting_id")
+    .references(() => partnerMeetings.id)
+    .notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  email: varchar("email", { length: 255 }),
+  organization: varchar("organization", { length: 255 }),
+  role: varchar("role", { length: 255 }),
+  // Set for Sherlock attendees
+  teamMemberId: uuid("team_member_id").references(() => teamMembers.id),
+});
+
+// ─── Dead Letters ───────────────────────────────────────────
+// Extractions that failed (invalid after the repair turn, or errored) so they
+// aren't lost; one open row per meeting and extractor.
+
+export const extractionDeadLetters = pgTable(
+  "extraction_dead_letters",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    rawMeetingId: uuid("raw_meeting_id")
+      .references(() => rawMeetings.id)
+      .notNull(),
+    extractor: varchar("extractor", { length: 50 }).notNull(), // sales_call | partner_call
+    reason: varchar("reason", { length: 50 }).notNull(), // validation | no_tool_call | error
+    errors: jsonb("errors").$type<string[]>().default([]).notNull(),
+    rawResponse: jsonb("raw_response"),
+    attempts: integer("attempts").default(1).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    resolvedAt: timestamp("resolved_at"),
+  },
+  (table) => [unique("extraction_dead_letters_meeting_extractor_unique").on(table.rawMeetingId, table.extractor)]
+);
+
+// Every extraction attempt: which prompt and model produced what. process-calls
+// runs are promoted as they are stored; re-extract runs are candidates until
+// promoted (see src/scripts/re-extract.ts)
+export const extractionRuns = pgTable(
+  "extraction_runs",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    rawMeetingId: uuid("raw_meeting_id")
+      .references(() => rawMeetings.id)
+      .notNull(),
+    extractor: varchar("extractor", { length: 50 }).notNull(), // sales_call | partner_call
+    source: varchar("source", { length: 20 }).notNull(), // process_calls | re_extract
+    promptVersion: varchar("prompt_version", { length: 50 }).notNull(),
+    promptHash: varchar("prompt_hash", { length: 64 }).notNull(),
+    model: varchar("model", { length: 100 }).notNull(),
+    transcriptHash: varchar("transcript_hash", { length: 64 }), // text extracted from; null for runs before it was recorded
+    strategy: varchar("strategy", { length: 20 }), // single | map_reduce; null for partner_call
+    chunks: integer("chunks"),
+    escalationReason: varchar("escalation_reason", { length: 200 }),
+    ok: boolean("ok").notNull(),
+    rawResponse: jsonb("raw_response"),
+    parsedResult: jsonb("parsed_result"),
+    errors: jsonb("errors").$type<string[]>().default([]).notNull(),
+    inputTokens: integer("input_tokens").default(0).notNull(),
+    outputTokens: integer("output_tokens").default(0).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    promotedAt: timestamp("promoted_at"),
+  },
+  (table) => [
+    index("extraction_runs_meeting_idx").on(table.rawMeetingId),
+    index("extraction_runs_prompt_idx").on(table.promptVersion),
+  ]
+);
+
 // ─── Vector Table ───────────────────────────────────────────
 
 export const callEmbeddings = pgTable("call_embeddings", {
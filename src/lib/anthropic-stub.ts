@@ -0,0 +1,44 @@
+import type Anthropic from "@anthropic-ai/sdk";
+
+/**
+ * Offline stand-in for the Anthropic client. Only `messages.create` is
+ * implemented; `respond` gets the concatenated text of the user messages
+ * (tool results included) and returns the assistant's text reply. When the
+ * request forces a tool, the reply is parsed as JSON and returned as that
+ * tool's input.
+ */
+export function createStubAnthropic(respond: (prompt: string) => string): Anthropic {
+  let calls = 0;
+  const stub = {
+    messages: {
+      async create(params: { messages: { role: string; content: unknown }[]; tool_choice?: { type: string; name?: string } }) {
+        calls++;
+        const prompt = params.messages
+          .filter((m) => m.role === "user")
+          .map((m) =>
+            typeof m.content === "string"
+              ? m.content
+              : (m.content as { type: string; text?: string; content?: unknown }[])
+                  .map((b) => b.text || (typeof b.content === "string" ? b.content : ""))
+                  .join("\n")
+          )
+          .join("\n");
+        const text = respond(prompt);
+        const toolName = params.tool_choice?.type === "tool" ? params.tool_choice.name : undefined;
+        const content = toolName
+          ? [{ type: "tool_use", id: `stub_tool_${calls}`, name: toolName, input: JSON.parse(text) }]
+          : [{ type: "text", text }];
+        return {
+          id: `stub_${calls}`,
+          type: "message",
+          role: "assistant",
+          model: "stub",
+          content,
+          stop_reason: toolName ? "tool_use" : "end_turn",
+          usage: { input_tokens: Math.ceil(prompt.length / 4), output_tokens: Math.ceil(text.length / 4) },
+        };
+      },
+    },
+  };
+  return stub as unknown as Anthropic;
+}
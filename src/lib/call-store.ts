@@ -0,0 +1,494 @@
+import { eq, inArray } from "drizzle-orm";
+import type { Database } from "../db";
+import {
+  callEmbeddings,
+  callFollowUps,
+  callObjections,
+  callProspectContacts,
+  callTeamMembers,
+  callTechnologies,
+  calls,
+  companies,
+  counterResponses,
+  keyQuotes,
+  objections,
+  partnerMeetingActionItems,
+  partnerMeetingAttendees,
+  partnerMeetings,
+  prospectContacts,
+  prospectQuestions,
+  teamMembers,
+  technologies,
+  technologyMentions,
+} from "../db/schema";
+import type { Classification } from "./classifier";
+import type { ExtractionResult, ExtractionStrategy, PartnerExtractionResult } from "./extractor";
+import { isInternalEmail, primaryInternalDomain } from "./participant-rules";
+import type { ProspectCandidate } from "./speakers";
+import { storeTechStack } from "./technologies";
+
+/**
+ * Delete everything extracted from a meeting: calls rows with everything
+ * hanging off them, and the partner_meetings light extraction. Used before
+ * re-extraction and when a meeting is tombstoned. Returns the number of
+ * calls and partner meetings removed.
+ */
+export async function deleteExtractionForMeeting(db: Database, rawMeetingId: string): Promise<number> {
+  const partnerRemoved = await deletePartnerMeeting(db, rawMeetingId);
+
+  const rows = await db
+    .select({ id: calls.id })
+    .from(calls)
+    .where(eq(calls.rawMeetingId, rawMeetingId));
+  if (rows.length === 0) return partnerRemoved;
+
+  const callIds = rows.map((r) => r.id);
+  await db.delete(callObjections).where(inArray(callObjections.callId, callIds));
+  await db.delete(callTechnologies).where(inArray(callTechnologies.callId, callIds));
+  await db.delete(technologyMentions).where(inArray(technologyMentions.callId, callIds));
+  await db.delete(callTeamMembers).where(inArray(callTeamMembers.callId, callIds));
+  await db.delete(callProspectContacts).where(inArray(callProspectContacts.callId, callIds));
+  await db.delete(callFollowUps).where(inArray(callFollowUps.callId, callIds));
+  await db.delete(prospectQuestions).where(inArray(prospectQuestions.callId, callIds));
+  await db.delete(keyQuotes).where(inArray(keyQuotes.callId, callIds));
+  await db.delete(counterResponses).where(inArray(counterResponses.callId, callIds));
+  await db.delete(callEmbeddings).where(inArray(callEmbeddings.callId, callIds));
+  await db.delete(calls).where(inArray(calls.id, callIds));
+
+  return callIds.length + partnerRemoved;
+}
+
+/**
+ * The classification a meeting's stored extraction was made under: sales_call
+ * for a calls row, the partner_meetings label for a light extraction, or null
+ * when nothing is stored.
+ */
+export async function extractedClassification(db: Database, rawMeetingId: string): Promise<Classification | null> {
+  const call = await db.select({ id: calls.id }).from(calls).where(eq(calls.rawMeetingId, rawMeetingId)).limit(1);
+  if (call.length > 0) return "sales_call";
+  const partner = await db
+    .select({ classification: partnerMeetings.classification })
+    .from(partnerMeetings)
+    .where(eq(partnerMeetings.rawMeetingId, rawMeetingId))
+    .limit(1);
+  return partner.length > 0 ? (partner[0].classification as Classification) : null;
+}
+
+async function deletePartnerMeeting(db: Database, rawMeetingId: string): Promise<number> {
+  const rows = await db
+    .select({ id: partnerMeetings.id })
+    .from(partnerMeetings)
+    .where(eq(partnerMeetings.rawMeetingId, rawMeetingId));
+  if (rows.length === 0) return 0;
+
+  const ids = rows.map((r) => r.id);
+  await db.delete(partnerMeetingActionItems).where(inArray(partnerMeetingActionItems.partnerMeetingId, ids));
+  await db.delete(partnerMeetingAttendees).where(inArray(partnerMeetingAttendees.partnerMeetingId, ids));
+  await db.delete(partnerMeetings).where(inArray(partnerMeetings.id, ids));
+  return ids.length;
+}
+
+// ─── Lookup/upsert helpers ──────────────────────────────────
+
+async function getOrCreateCompany(db: Database, name: string, date?: Date | null): Promise<string> {
+  const normalized = name.trim();
+  if (!normalized || normalized === "Unknown") {
+    // Create a placeholder
+    const result = await db
+      .insert(companies)
+      .values({ name: `Unknown-${Date.now()}`, firstSeenDate: date || new Date() })
+      .returning({ id: companies.id });
+    return result[0].id;
+  }
+
+  const existing = await db
+    .select({ id: companies.id })
+    .from(companies)
+    .where(eq(companies.name, normalized))
+    .limit(1);
+
+  if (existing.length > 0) return existing[0].id;
+
+  const result = await db
+    .insert(companies)
+    .values({ name: normalized, firstSeenDate: date || new Date() })
+    .returning({ id: companies.id });
+  return result[0].id;
+}
+
+async function getOrCreateTeamMember(db: Database, name: string, email: string | null | undefined): Promise<string> {
+  const normalizedEmail = (email || "").trim().toLowerCase();
+  if (!normalizedEmail || !normalizedEmail.includes("@")) {
+    // Generate a placeholder email
+    const slug = name.trim().toLowerCase().replace(/\s+/g, ".").replace(/[^a-z.]/g, "");
+    const placeholderEmail = `${slug || "unknown"}@${primaryInternalDomain()}`;
+    const existing = await db
+      .select({ id: teamMembers.id })
+      .from(teamMembers)
+      .where(eq(teamMembers.email, placeholderEmail))
+      .limit(1);
+    if (existing.length > 0) return existing[0].id;
+    const result = await db
+      .insert(teamMembers)
+      .values({ name: name.trim() || "Unknown", email: placeholderEmail })
+      .returning({ id: teamMembers.id });
+    return result[0].id;
+  }
+
+  const existing = await db
+    .select({ id: teamMembers.id })
+    .from(teamMembers)
+    .where(eq(teamMembers.email, normalizedEmail))
+    .limit(1);
+
+  if (existing.length > 0) return existing[0].id;
+
+  const result = await db
+    .insert(teamMembers)
+    .values({ name: name.trim(), email: normalizedEmail })
+    .returning({ id: teamMembers.id });
+  return result[0].id;
+}
+
+async function getOrCreateProspectContact(
+  db: Database,
+  name: string,
+  role: string | null,
+  companyId: string
+): Promise<string> {
+  // Check by name + company (prospects may share names across companies)
+  const existing = await db
+    .select({ id: prospectContacts.id })
+    .from(prospectContacts)
+    .where(eq(prospectContacts.name, name.trim()))
+    .limit(1);
+
+  if (existing.length > 0) return existing[0].id;
+
+  const result = await db
+    .insert(prospectContacts)
+    .values({
+      name: name.trim(),
+      role: role || null,
+      companyId,
+    })
+    .returning({ id: prospectContacts.id });
+  return result[0].id;
+}
+
+async function getObjectionId(db: Database, typeKey: string): Promise<string | null> {
+  const result = await db
+    .select({ id: objections.id })
+    .from(objections)
+    .where(eq(objections.typeKey, typeKey))
+    .limit(1);
+  return result.length > 0 ? result[0].id : null;
+}
+
+/**
+ * Run one optional write in its own savepoint (a transaction of its own when
+ * `db` isn't one), so a bad row is rolled back and logged without aborting the
+ * caller's transaction. Returns whether the write went through.
+ */
+async function optionalWrite(db: Database, what: string, write: (db: Database) => Promise<void>): Promise<boolean> {
+  try {
+    await db.transaction(async (sp) => write(sp));
+    return true;
+  } catch (err) {
+    console.warn(`    Warning: failed to store ${what}: ${(err as Error).message.slice(0, 80)}`);
+    return false;
+  }
+}
+
+// ─── Store extraction results ──────────────────────────────
+
+/** How a stored sales extraction was produced, kept on the calls row */
+export interface ExtractionMeta {
+  strategy: ExtractionStrategy;
+  chunks: number;
+  model: string;
+  escalatedFor: string[];
+  /** extraction_runs row the result came from */
+  runId: string | null;
+}
+
+/**
+ * Write a sales extraction as a calls row plus everything hanging off it.
+ * Callers delete the meeting's previous extraction first.
+ */
+export async function storeSalesExtraction(
+  db: Database,
+  rawMeetingId: string,
+  rawData: any,
+  transcriptHash: string | null,
+  extraction: ExtractionResult,
+  meta: ExtractionMeta
+): Promise<{ callId: string; companyId: string; prospects: ProspectCandidate[] }> {
+  const meetingDate = rawData.date ? new Date(rawData.date) : null;
+  const duration = rawData.duration ? Math.round(rawData.duration) : null;
+
+  // 1. Get or create company
+  const companyId = await getOrCreateCompany(db, extraction.company_name, meetingDate);
+
+  // 2. Create the call record
+  const callResult = await db
+    .insert(calls)
+    .values({
+      rawMeetingId,
+      callType: extraction.call_type,
+      offeringPitched: extraction.offering_pitched,
+      companyId,
+      callOutcome: extraction.call_outcome,
+      dealSize: extraction.deal_size,
+      callQualityScore: extraction.call_quality_score,
+      qualityRationale: extraction.quality_rationale,
+      transcriptHash,
+      extractionStrategy: meta.strategy,
+      extractionChunks: meta.chunks,
+      extractionModel: meta.model,
+      escalationReason: meta.escalatedFor.length > 0 ? meta.escalatedFor.join(",") : null,
+      extractionRunId: meta.runId,
+      summaryText: rawData.summary?.overview || rawData.summary?.short_summary || null,
+      firefliesUrl: rawData.transcript_url || null,
+      date: meetingDate,
+      duration,
+    })
+    .returning({ id: calls.id });
+
+  const callId = callResult[0].id;
+
+  // 3. Team members
+  for (const tm of extraction.team_members) {
+    await optionalWrite(db, `team member ${tm.name}`, async (sp) => {
+      const tmId = await getOrCreateTeamMember(sp, tm.name, tm.email);
+      await sp.insert(callTeamMembers).values({ callId, teamMemberId: tmId });
+    });
+  }
+
+  // 4. Prospect contacts
+  const prospects: ProspectCandidate[] = [];
+  for (const pc of extraction.prospect_names) {
+    await optionalWrite(db, `prospect ${pc.name}`, async (sp) => {
+      const pcId = await getOrCreateProspectContact(sp, pc.name, pc.role, companyId);
+      await sp.insert(callProspectContacts).values({ callId, prospectContactId: pcId });
+      prospects.push({ id: pcId, name: pc.name });
+    });
+  }
+
+  // 5. Technologies (unknown names are queued as technology_mentions)
+  await optionalWrite(db, "tech stack", async (sp) => {
+    await storeTechStack(sp, callId, extraction.tech_stack);
+  });
+
+  // 6. Objections
+  for (const obj of extraction.objections) {
+    await optionalWrite(db, `objection ${obj.type_key}`, async (sp) => {
+      const objId = await getObjectionId(sp, obj.type_key);
+      if (objId) {
+        await sp.insert(callObjections).values({
+          callId,
+          objectionId: objId,
+          quote: obj.quote || null,
+          context: obj.context || null,
+        });
+      }
+    });
+  }
+
+  // 7. Follow-up actions
+  for (const fu of extraction.follow_up_actions) {
+    await optionalWrite(db, "follow-up action", async (sp) => {
+      await sp.insert(callFollowUps).values({
+        callId,
+        actionText: fu.action_text,
+        assignedTo: fu.assigned_to || null,
+      });
+    });
+  }
+
+  // 8. Prospect questions
+  for (const q of extraction.prospect_questions) {
+    if (!q || !q.trim()) continue;
+    await optionalWrite(db, "prospect question", async (sp) => {
+      await sp.insert(prospectQuestions).values({
+        callId,
+        questionText: q.trim(),
+      });
+    });
+  }
+
+  // 9. Key quotes
+  for (const kq of extraction.key_quotes) {
+    await optionalWrite(db, "key quote", async (sp) => {
+      await sp.insert(keyQuotes).values({
+        callId,
+        speaker: kq.speaker || null,
+        quoteText: kq.quote_text,
+        context: kq.context || null,
+      });
+    });
+  }
+
+  // 10. Counter responses
+  for (const cr of extraction.counter_responses) {
+    await optionalWrite(db, "counter response", async (sp) => {
+      const objId = await getObjectionId(sp, cr.objection_type_key);
+      if (objId) {
+        await sp.insert(counterResponses).values({
+          objectionId: objId,
+          callId,
+          responseText: cr.response_text,
+          outcome: cr.outcome || null,
+        });
+      }
+    });
+  }
+
+  return { callId, companyId, prospects };
+}
+
+// ─── Store partner extraction ──────────────────────────────
+
+/** Write a partner/other light extraction; returns the partner_meetings id. */
+export async function storePartnerExtraction(
+  db: Database,
+  rawMeetingId: string,
+  rawData: any,
+  classification: Classification,
+  extraction: PartnerExtractionResult
+): Promise<string> {
+  const meetingDate = rawData.date ? new Date(rawData.date) : null;
+  const duration = rawData.duration ? Math.round(rawData.duration) : null;
+
+  // Meetings with no other organisation (e.g. a recruiting call) have no company
+  const companyId = extraction.partner_name
+    ? await getOrCreateCompany(db, extraction.partner_name, meetingDate)
+    : null;
+
+  const result = await db
+    .insert(partnerMeetings)
+    .values({
+      rawMeetingId,
+      classification,
+      companyId,
+      relationshipType: extraction.relationship_type,
+      summaryText: extraction.summary || rawData.summary?.short_summary || null,
+      firefliesUrl: rawData.transcript_url || null,
+      date: meetingDate,
+      duration,
+    })
+    .returning({ id: partnerMeetings.id });
+  const partnerMeetingId = result[0].id;
+
+  for (const item of extraction.action_items) {
+    await db.insert(partnerMeetingActionItems).values({
+      partnerMeetingId,
+      actionText: item.action_text,
+      assignedTo: item.assigned_to || null,
+    });
+  }
+
+  // Attendees: names and emails from the source's attendee list (LLM emails are
+  // unreliable), then anyone else the transcript names
+  const attendees: { name: string; email: string | null; organization: string | null; role: string | null }[] = [];
+  for (const a of rawData.meeting_attendees || []) {
+    if (!a?.email) continue;
+    const name = a.displayName || a.name || a.email.split("@")[0];
+    const named = extraction.attendees.find((x) => x.name.toLowerCase() === name.toLowerCase());
+    attendees.push({ name, email: a.email.toLowerCase(), organization: named?.organization ?? null, role: named?.role ?? null });
+  }
+  for (const a of extraction.attendees) {
+    if (attendees.some((x) => x.name.toLowerCase() === a.name.toLowerCase())) continue;
+    attendees.push({ name: a.name, email: null, organization: a.organization, role: a.role });
+  }
+
+  for (const a of attendees) {
+    await optionalWrite(db, `attendee ${a.name}`, async (sp) => {
+      const teamMemberId = a.email && isInternalEmail(a.email)
+        ? await getOrCreateTeamMember(sp, a.name, a.email)
+        : null;
+      await sp.insert(partnerMeetingAttendees).values({
+        partnerMeetingId,
+        name: a.name,
+        email: a.email,
+        organization: teamMemberId ? "Sherlock" : a.organization,
+        role: a.role,
+        teamMemberId,
+      });
+    });
+  }
+
+  return partnerMeetingId;
+}
+
+// ─── Read back ──────────────────────────────────────────────
+
+/**
+ * Rebuild the extraction a calls row was stored from, for diffing against a
+ * re-extraction. tech_stack is the canonical names of linked technologies
+ * plus any names still waiting in technology_mentions.
+ */
+export async function loadSalesExtraction(db: Database, callId: string): Promise<ExtractionResult | null> {
+  const rows = await db
+    .select({ call: calls, companyName: companies.name })
+    .from(calls)
+    .leftJoin(companies, eq(companies.id, calls.companyId))
+    .where(eq(calls.id, callId))
+    .limit(1);
+  if (rows.length === 0) return null;
+  const { call, companyName } = rows[0];
+
+  const [prospects, team, techs, mentions, objectionRows, questions, quotes, followUps, counters] = await Promise.all([
+    db
+      .select({ name: prospectContacts.name, role: prospectContacts.role })
+      .from(callProspectContacts)
+      .innerJoin(prospectContacts, eq(prospectContacts.id, callProspectContacts.prospectContactId))
+      .where(eq(callProspectContacts.callId, callId)),
+    db
+      .select({ name: teamMembers.name, email: teamMembers.email })
+      .from(callTeamMembers)
+      .innerJoin(teamMembers, eq(teamMembers.id, callTeamMembers.teamMemberId))
+      .where(eq(callTeamMembers.callId, callId)),
+    db
+      .select({ name: technologies.name })
+      .from(callTechnologies)
+      .innerJoin(technologies, eq(technologies.id, callTechnologies.technologyId))
+      .where(eq(callTechnologies.callId, callId)),
+    db.select({ name: technologyMentions.name }).from(technologyMentions).where(eq(technologyMentions.callId, callId)),
+    db
+      .select({ typeKey: objections.typeKey, quote: callObjections.quote, context: callObjections.context })
+      .from(callObjections)
+      .innerJoin(objections, eq(objections.id, callObjections.objectionId))
+      .where(eq(callObjections.callId, callId)),
+    db.select({ text: prospectQuestions.questionText }).from(prospectQuestions).where(eq(prospectQuestions.callId, callId)),
+    db.select().from(keyQuotes).where(eq(keyQuotes.callId, callId)),
+    db.select().from(callFollowUps).where(eq(callFollowUps.callId, callId)),
+    db
+      .select({ typeKey: objections.typeKey, text: counterResponses.responseText, outcome: counterResponses.outcome })
+      .from(counterResponses)
+      .innerJoin(objections, eq(objections.id, counterResponses.objectionId))
+      .where(eq(counterResponses.callId, callId)),
+  ]);
+
+  return {
+    call_type: call.callType as ExtractionResult["call_type"],
+    offering_pitched: call.offeringPitched as ExtractionResult["offering_pitched"],
+    company_name: companyName || "",
+    prospect_names: prospects.map((p) => ({ name: p.name, role: p.role })),
+    team_members: team.map((t) => ({ name: t.name, email: t.email })),
+    tech_stack: techs.map((t) => t.name).concat(mentions.map((m) => m.name)),
+    call_outcome: call.callOutcome as ExtractionResult["call_outcome"],
+    deal_size: call.dealSize,
+    call_quality_score: call.callQualityScore ?? 0,
+    quality_rationale: call.qualityRationale || "",
+    objections: objectionRows.map((o) => ({ type_key: o.typeKey, quote: o.quote || "", context: o.context || "" })),
+    prospect_questions: questions.map((q) => q.text),
+    key_quotes: quotes.map((q) => ({ speaker: q.speaker || "", quote_text: q.quoteText, context: q.context || "" })),
+    follow_up_actions: followUps.map((f) => ({ action_text: f.actionText, assigned_to: f.assignedTo })),
+    counter_responses: counters.map((c) => ({
+      objection_type_key: c.typeKey,
+      response_text: c.text,
+      outcome: c.outcome as ExtractionResult["counter_responses"][number]["outcome"],
+    })),
+  };
+}
@@ -0,0 +1,114 @@
+import { eq } from "drizzle-orm";
+import type { Database } from "../db";
+import { classificationOverrides, rawMeetings } from "../db/schema";
+import { deleteExtractionForMeeting } from "./call-store";
+import {
+  CLASSIFICATIONS,
+  keywordEvidence,
+  type Classification,
+  type ClassificationVerdict,
+  type RawMeetingData,
+} from "./classifier";
+import { DEFAULT_TAXONOMY, type KeywordTaxonomy } from "./keyword-taxonomy";
+
+export interface OverrideChange {
+  by: string;
+  reason: string;
+}
+
+export interface OverrideResult {
+  previous: string | null;
+  /** The override now in force, or null when it was cleared */
+  override: Classification | null;
+  /** Calls and partner meetings deleted */
+  callsRemoved: number;
+  /** True when process-calls will pick the meeting up again */
+  requeued: boolean;
+}
+
+export function manualVerdict(
+  classification: Classification,
+  data: RawMeetingData,
+  taxonomy: KeywordTaxonomy = DEFAULT_TAXONOMY
+): ClassificationVerdict {
+  return {
+    classification,
+    method: "manual",
+    rule: "override",
+    confidence: "high",
+    ...keywordEvidence(data, taxonomy),
+    llmConfidence: null,
+  };
+}
+
+/**
+ * Override (or, with null, clear the override of) a meeting's classification
+ * and record who did it and why. Changing the label deletes what was
+ * extracted under the old one and, unless the meeting is now internal, queues
+ * it for extraction. Clearing queues it so the classifier decides again;
+ * process-calls drops the old extraction if the class it lands on differs.
+ */
+export async function setClassificationOverride(
+  db: Database,
+  rawMeetingId: string,
+  classification: Classification | null,
+  change: OverrideChange
+): Promise<OverrideResult> {
+  if (classification !== null && !CLASSIFICATIONS.includes(classification)) {
+    throw new Error(`Unknown classification "${classification}" (expected one of: ${CLASSIFICATIONS.join(", ")})`);
+  }
+  if (!change.by.trim() || !change.reason.trim()) {
+    throw new Error("An override needs who made it and why");
+  }
+
+  // The audit row, the dropped extraction and the new label land together
+  return db.transaction(async (tx) => {
+    const rows = await tx
+      .select({
+        classification: rawMeetings.classification,
+        classificationOverride: rawMeetings.classificationOverride,
+        rawJson: rawMeetings.rawJson,
+      })
+      .from(rawMeetings)
+      .where(eq(rawMeetings.id, rawMeetingId))
+      .limit(1);
+    if (rows.length === 0) throw new Error(`No raw meeting ${rawMeetingId}`);
+    const meeting = rows[0];
+    const previous = meeting.classificationOverride ?? meeting.classification;
+
+    await tx.insert(classificationOverrides).values({
+      rawMeetingId,
+      previousClassification: previous,
+      newClassification: classification,
+      changedBy: change.by.trim(),
+      reason: change.reason.trim(),
+    });
+
+    if (classification === null) {
+      await tx
+        .update(rawMeetings)
+        .set({ classificationOverride: null, processedAt: null })
+        .where(eq(rawMeetings.id, rawMeetingId));
+      return { previous, override: null, callsRemoved: 0, requeued: true };
+    }
+
+    const verdict = manualVerdict(classification, (meeting.rawJson as RawMeetingData) || {});
+    const values = { classificationOverride: classification, classification, classificationVerdict: verdict };
+
+    // Anything extracted under the old label is wrong now; every class but
+    // internal gets extracted again (full for sales_call, light otherwise)
+    if (meeting.classification === classification) {
+      await tx.update(rawMeetings).set(values).where(eq(rawMeetings.id, rawMeetingId));
+      return { previous, override: classification, callsRemoved: 0, requeued: false };
+    }
+
+    const callsRemoved = await deleteExtractionForMeeting(tx, rawMeetingId);
+    const requeued = classification !== "internal";
+    const relabelled = { ...values, subtype: null, subtypeReason: null };
+    await tx
+      .update(rawMeetings)
+      .set(requeued ? { ...relabelled, processedAt: null } : relabelled)
+      .where(eq(rawMeetings.id, rawMeetingId));
+    return { previous, override: classification, callsRemoved, requeued };
+  });
+}
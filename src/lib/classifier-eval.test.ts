@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { describe, test } from "node:test";
+import { classifyByRules } from "./classifier";
+import { scorePredictions, type EvalPrediction, type GoldMeeting } from "./classifier-eval";
+
+// Raise these when a rule change improves the gold set results, so later changes can't slip back
+const MIN_RULES_ACCURACY = 0.8;
+const MAX_RULES_WRONG = 1;
+
+const gold: GoldMeeting[] = JSON.parse(readFileSync("fixtures/classifier/gold.json", "utf-8"));
+
+function rulePredictions(): EvalPrediction[] {
+  return gold.map((entry) => {
+    const verdict = classifyByRules(entry.meeting);
+    return {
+      id: entry.id,
+      title: entry.meeting.title || "(untitled)",
+      expected: entry.label,
+      predicted: verdict?.classification ?? null,
+      rule: verdict?.rule ?? null,
+    };
+  });
+}
+
+describe("classifyByRules against the gold set", () => {
+  const report = scorePredictions("rules", rulePredictions());
+  const describeMisses = () =>
+    report.misclassified.map((p) => `${p.id}: expected ${p.expected}, got ${p.predicted ?? "abstain"} (${p.rule ?? "no rule"})`).join("\n");
+
+  test("keeps accuracy above the floor", () => {
+    assert.equal(report.total, gold.length);
+    assert.ok(report.accuracy >= MIN_RULES_ACCURACY, `accuracy ${report.accuracy} < ${MIN_RULES_ACCURACY}\n${describeMisses()}`);
+  });
+
+  test("abstains rather than guessing wrong", () => {
+    const wrong = report.misclassified.filter((p) => p.predicted !== null);
+    assert.ok(wrong.length <= MAX_RULES_WRONG, `${wrong.length} confident misclassifications\n${describeMisses()}`);
+  });
+});
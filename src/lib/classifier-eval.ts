@@ -0,0 +1,79 @@
+import { CLASSIFICATIONS, type Classification, type RawMeetingData } from "./classifier";
+
+/**
+ * One hand-labelled meeting. `llm_label` is what the LLM answered when the
+ * set was built; offline runs replay it through a stub client.
+ */
+export interface GoldMeeting {
+  id: string;
+  label: Classification;
+  llm_label?: Classification;
+  notes?: string;
+  meeting: RawMeetingData;
+}
+
+export type EvalMode = "rules" | "llm" | "combined";
+
+export interface EvalPrediction {
+  id: string;
+  title: string;
+  expected: Classification;
+  /** null when the rules abstained (ambiguous, would fall through to the LLM) */
+  predicted: Classification | null;
+  /** Rule (or "llm") that produced the prediction */
+  rule: string | null;
+}
+
+export interface ClassMetrics {
+  precision: number | null; // null when nothing was predicted as this class
+  recall: number | null; // null when the gold set has no example of it
+  support: number;
+  predicted: number;
+}
+
+export interface EvalReport {
+  mode: EvalMode;
+  total: number;
+  correct: number;
+  abstained: number;
+  accuracy: number;
+  perClass: Record<Classification, ClassMetrics>;
+  /** confusion[expected][predicted], with "abstain" for rule misses */
+  confusion: Record<Classification, Record<Classification | "abstain", number>>;
+  misclassified: EvalPrediction[];
+}
+
+export function scorePredictions(mode: EvalMode, predictions: EvalPrediction[]): EvalReport {
+  const emptyRow = () =>
+    Object.fromEntries([...CLASSIFICATIONS, "abstain"].map((c) => [c, 0])) as Record<Classification | "abstain", number>;
+  const confusion = Object.fromEntries(CLASSIFICATIONS.map((c) => [c, emptyRow()])) as EvalReport["confusion"];
+
+  for (const p of predictions) {
+    confusion[p.expected][p.predicted ?? "abstain"]++;
+  }
+
+  const perClass = {} as Record<Classification, ClassMetrics>;
+  for (const cls of CLASSIFICATIONS) {
+    const truePositives = confusion[cls][cls];
+    const support = CLASSIFICATIONS.reduce((n, c) => n + confusion[cls][c], 0) + confusion[cls].abstain;
+    const predicted = CLASSIFICATIONS.reduce((n, c) => n + confusion[c][cls], 0);
+    perClass[cls] = {
+      precision: predicted > 0 ? truePositives / predicted : null,
+      recall: support > 0 ? truePositives / support : null,
+      support,
+      predicted,
+    };
+  }
+
+  const correct = predictions.filter((p) => p.predicted === p.expected).length;
+  return {
+    mode,
+    total: predictions.length,
+    correct,
+    abstained: predictions.filter((p) => p.predicted === null).length,
+    accuracy: predictions.length > 0 ? correct / predictions.length : 0,
+    perClass,
+    confusion,
+    misclassified: predictions.filter((p) => p.predicted !== p.expected),
+  };
+}
@@ -1,8 +1,34 @@
 import Anthropic from "@anthropic-ai/sdk";
+import { DEFAULT_TAXONOMY, fieldTexts, scoreMeeting, type KeywordTaxonomy } from "./keyword-taxonomy";
+import { modelForStage } from "./model-policy";
+import { getEmails, isInternalEmail } from "./participant-rules";
 
 export type Classification = "sales_call" | "partner_call" | "internal" | "other";
 
-interface RawMeetingData {
+export const CLASSIFICATIONS: Classification[] = ["sales_call", "partner_call", "internal", "other"];
+
+export type VerdictConfidence = "high" | "medium" | "low";
+
+/**
+ * Why a meeting got its label. Stored on raw_meetings.classification_verdict
+ * so rule fallbacks and unsure LLM answers can be found and reviewed.
+ */
+export interface ClassificationVerdict {
+  classification: Classification;
+  method: "rules" | "llm" | "manual" | "fallback";
+  /** Rule that fired, "llm", "override", or "classification_error" */
+  rule: string;
+  confidence: VerdictConfidence;
+  /** Weighted keyword score per class */
+  scores: Record<Classification, number>;
+  matchedKeywords: Record<Classification, string[]>;
+  /** 0-1 as reported by the model; null for rule verdicts or when it gave none */
+  llmConfidence: number | null;
+  /** Model that answered, for llm verdicts */
+  model?: string;
+}
+
+export interface RawMeetingData {
   title?: string;
   participants?: string[];
   meeting_attendees?: { displayName: string; email: string; name: string }[];
@@ -18,115 +44,97 @@ interface RawMeetingData {
   };
 }
 
-const SHERLOCK_DOMAIN = process.env.SHERLOCK_EMAIL_DOMAIN || "sherlock.xyz";
-
-// Sales-related keywords for rule-based classification
-const SALES_KEYWORDS = [
-  "audit", "security audit", "smart contract", "retainer", "lifecycle",
-  "pricing", "proposal", "scope", "timeline", "engagement",
-  "quote", "budget", "deal", "contract", "sow", "statement of work",
-  "penetration test", "code review", "security review",
-  "sherlock", "coverage", "protocol", "defi",
-];
-
-const PARTNER_KEYWORDS = [
-  "partnership", "vendor", "integration", "conference", "event",
-  "sponsor", "collaborate", "referral", "reseller",
-];
-
-const INTERNAL_KEYWORDS = [
-  "standup", "sprint", "retro", "retrospective", "1:1", "one on one",
-  "team sync", "all hands", "weekly sync", "daily standup",
-];
-
-function getAllEmails(data: RawMeetingData): string[] {
-  const emails: string[] = [];
-  if (data.host_email) emails.push(data.host_email.toLowerCase());
-  if (data.organizer_email) emails.push(data.organizer_email.toLowerCase());
-  if (data.participants) {
-    for (const p of data.participants) {
-      if (p && p.includes("@")) emails.push(p.toLowerCase());
-    }
-  }
-  if (data.meeting_attendees) {
-    for (const a of data.meeting_attendees) {
-      if (a.email) emails.push(a.email.toLowerCase());
-    }
-  }
-  return Array.from(new Set(emails));
+function hasSummaryText(data: RawMeetingData): boolean {
+  return Object.values(fieldTexts(data)).some((text) => text.trim() !== "");
 }
 
-function countKeywordMatches(text: string, keywords: string[]): number {
-  const lower = text.toLowerCase();
-  return keywords.filter((kw) => lower.includes(kw)).length;
+/** Keyword evidence for a meeting, attached to every verdict whichever path decided it. */
+export function keywordEvidence(
+  data: RawMeetingData,
+  taxonomy: KeywordTaxonomy = DEFAULT_TAXONOMY
+): Pick<ClassificationVerdict, "scores" | "matchedKeywords"> {
+  return scoreMeeting(data, taxonomy);
 }
 
 /**
- * Rule-based classification using Fireflies summary fields.
+ * Rule-based classification using Fireflies summary fields, scored against
+ * the weighted keyword taxonomy (see keyword-taxonomy.ts).
  * Returns null if ambiguous (needs LLM fallback).
  */
-function classifyByRules(data: RawMeetingData): Classification | null {
-  const emails = getAllEmails(data);
-  const sherlockEmails = emails.filter((e) => e.endsWith(`@${SHERLOCK_DOMAIN}`));
-  const externalEmails = emails.filter((e) => !e.endsWith(`@${SHERLOCK_DOMAIN}`));
+export function classifyByRules(
+  data: RawMeetingData,
+  taxonomy: KeywordTaxonomy = DEFAULT_TAXONOMY
+): ClassificationVerdict | null {
+  const emails = getEmails(data);
+  const sherlockEmails = emails.filter((e) => isInternalEmail(e));
+  const externalEmails = emails.filter((e) => !isInternalEmail(e));
+  const evidence = keywordEvidence(data, taxonomy);
+  const verdict = (classification: Classification, rule: string, confidence: VerdictConfidence): ClassificationVerdict => ({
+    classification,
+    method: "rules",
+    rule,
+    confidence,
+    ...evidence,
+    llmConfidence: null,
+  });
 
   // All sherlock participants = internal
   if (sherlockEmails.length > 0 && externalEmails.length === 0) {
-    return "internal";
+    return verdict("internal", "internal_participants_only", "high");
   }
 
-  // Build text corpus from summary fields
-  const textParts: string[] = [];
-  if (data.title) textParts.push(data.title);
-  if (data.summary?.meeting_type) textParts.push(data.summary.meeting_type);
-  if (data.summary?.overview) textParts.push(data.summary.overview);
-  if (data.summary?.keywords) textParts.push(data.summary.keywords);
-  if (data.summary?.short_summary) textParts.push(data.summary.short_summary);
-  if (data.summary?.topics_discussed) textParts.push(data.summary.topics_discussed);
-  const corpus = textParts.join(" ");
-
-  if (!corpus.trim()) return null; // No summary data, need LLM
-
-  const salesScore = countKeywordMatches(corpus, SALES_KEYWORDS);
-  const partnerScore = countKeywordMatches(corpus, PARTNER_KEYWORDS);
-  const internalScore = countKeywordMatches(corpus, INTERNAL_KEYWORDS);
-
-  // Clear winner
-  if (salesScore >= 3 && salesScore > partnerScore && salesScore > internalScore) {
-    return "sales_call";
-  }
-  if (partnerScore >= 2 && partnerScore > salesScore) {
-    return "partner_call";
-  }
-  if (internalScore >= 2 && internalScore > salesScore) {
-    return "internal";
+  if (!hasSummaryText(data)) return null; // No summary data, need LLM
+
+  const { scores } = evidence;
+  const beatsOthers = (cls: Classification) =>
+    CLASSIFICATIONS.every((other) => other === cls || scores[cls] > scores[other]);
+
+  // Clear winner: over its class threshold and ahead of every other class
+  for (const cls of CLASSIFICATIONS) {
+    if (scores[cls] >= taxonomy.thresholds[cls].minScore && beatsOthers(cls)) {
+      return verdict(cls, `${cls}_keywords`, "high");
+    }
   }
 
   // Meeting type field from Fireflies is often informative
   const meetingType = (data.summary?.meeting_type || "").toLowerCase();
   if (meetingType.includes("sales") || meetingType.includes("discovery") || meetingType.includes("pitch")) {
-    return "sales_call";
+    return verdict("sales_call", "meeting_type_sales", "medium");
   }
   if (meetingType.includes("internal") || meetingType.includes("standup") || meetingType.includes("team")) {
-    return "internal";
+    return verdict("internal", "meeting_type_internal", "medium");
   }
 
-  // Low-confidence sales match (at least 1 keyword)
-  if (salesScore >= 1 && externalEmails.length > 0) {
-    return "sales_call";
+  // Low-confidence match for classes that allow one, e.g. a single strong sales keyword
+  if (externalEmails.length > 0) {
+    const fallback = CLASSIFICATIONS
+      .filter((cls) => {
+        const min = taxonomy.thresholds[cls].fallbackScore;
+        return min !== null && scores[cls] >= min;
+      })
+      .sort((a, b) => scores[b] - scores[a])[0];
+    if (fallback) return verdict(fallback, `${fallback}_fallback`, "low");
   }
 
   // Ambiguous — need LLM
   return null;
 }
 
+function llmConfidenceLevel(score: number | null): VerdictConfidence {
+  if (score === null) return "medium";
+  if (score >= 0.8) return "high";
+  return score >= 0.5 ? "medium" : "low";
+}
+
 /**
- * LLM-based classification using Claude Haiku on the first 500 words of transcript.
+ * LLM-based classification on the first 500 words of transcript, using the
+ * policy's classification model (see model-policy.ts).
  */
-async function classifyByLLM(
+export async function classifyByLLM(
   client: Anthropic,
-  data: RawMeetingData
-): Promise<Classification> {
+  data: RawMeetingData,
+  taxonomy: KeywordTaxonomy = DEFAULT_TAXONOMY
+): Promise<ClassificationVerdict> {
   const transcript = data.transcript_text || "";
   const first500Words = transcript.split(/\s+/).slice(0, 500).join(" ");
 
@@ -135,13 +143,14 @@ async function classifyByLLM(
     ? `Overview: "${data.summary.overview}"\n`
     : "";
 
+  const model = modelForStage("classification");
   const response = await client.messages.create({
-    model: "claude-haiku-4-5-20251001",
+    model,
     max_tokens: 50,
     messages: [
       {
         role: "user",
-        content: `Classify this meeting into exactly one category. Respond with ONLY the category name, nothing else.
+        content: `Classify this meeting into exactly one category. Respond with ONLY the category name followed by your confidence from 0 to 1, e.g. "partner_call 0.7".
 
 Categories:
 - sales_call: Discusses smart contract audits, security retainers, lifecycle security, pricing, proposals, scope, or timelines with a prospect
@@ -158,13 +167,22 @@ Category:`,
     ],
   });
 
-  const text = (response.content[0] as { type: string; text: string }).text
-    .trim()
-    .toLowerCase()
-    .replace(/[^a-z_]/g, "");
-
-  const valid: Classification[] = ["sales_call", "partner_call", "internal", "other"];
-  return valid.includes(text as Classification) ? (text as Classification) : "other";
+  const reply = (response.content[0] as { type: string; text: string }).text.trim().toLowerCase();
+  const label = (reply.match(/[a-z_]+/)?.[0] || "") as Classification;
+  const score = reply.match(/\b(0(?:\.\d+)?|1(?:\.0+)?)\b/);
+  const llmConfidence = score ? Number(score[1]) : null;
+  const valid = CLASSIFICATIONS.includes(label);
+
+  return {
+    classification: valid ? label : "other",
+    method: "llm",
+    rule: valid ? "llm" : "llm_unparseable",
+    // An answer we couldn't parse is a guess
+    confidence: valid ? llmConfidenceLevel(llmConfidence) : "low",
+    ...keywordEvidence(data, taxonomy),
+    llmConfidence,
+    model,
+  };
 }
 
 /**
@@ -172,11 +190,12 @@ Category:`,
  */
 export async function classifyMeeting(
   data: RawMeetingData,
-  anthropicClient: Anthropic
-): Promise<Classification> {
-  const ruleResult = classifyByRules(data);
+  anthropicClient: Anthropic,
+  taxonomy: KeywordTaxonomy = DEFAULT_TAXONOMY
+): Promise<ClassificationVerdict> {
+  const ruleResult = classifyByRules(data, taxonomy);
   if (ruleResult !== null) {
     return ruleResult;
   }
-  return classifyByLLM(anthropicClient, data);
+  return classifyByLLM(anthropicClient, data, taxonomy);
 }
@@ -0,0 +1,18 @@
+/**
+ * Argument parsing shared by the scripts in src/scripts.
+ */
+
+/** The value after `flag` (`--limit 20` → "20"), or undefined when the flag isn't given. */
+export function argValue(flag: string): string | undefined {
+  const i = process.argv.indexOf(flag);
+  return i !== -1 ? process.argv[i + 1] : undefined;
+}
+
+/**
+ * Arguments that are neither flags nor flag values. `valueFlags` lists the
+ * flags that take a value, so their values aren't read as positional args.
+ */
+export function positionalArgs(valueFlags: string[]): string[] {
+  const args = process.argv.slice(2);
+  return args.filter((a, i) => !a.startsWith("--") && !valueFlags.includes(args[i - 1]));
+}
@@ -0,0 +1,308 @@
+import type Anthropic from "@anthropic-ai/sdk";
+import { desc, eq } from "drizzle-orm";
+import type { Database } from "../db";
+import { calls, callTechnologies, companies, rawMeetings, sectors, technologies } from "../db/schema";
+import { matchesKeyword } from "./keyword-taxonomy";
+import { modelForStage } from "./model-policy";
+import { getEmails, isInternalEmail } from "./participant-rules";
+import { runToolExtraction, type ExtractionTool } from "./tool-extraction";
+
+/**
+ * Assign each company a sector (protocol category) from the sectors
+ * vocabulary. Evidence is the company's call summaries and its attendees'
+ * email domains. A keyword pass settles clear cases; the rest go to the
+ * model. The assignment is stored on the company with its source,
+ * confidence and evidence, and redone when the company has new calls, unless
+ * someone set it by hand.
+ */
+
+export type SectorSource = "keywords" | "llm" | "manual";
+
+export interface SectorOption {
+  key: string;
+  displayName: string;
+  description: string | null;
+  keywords: string[];
+}
+
+export interface CompanyEvidence {
+  companyId: string;
+  name: string;
+  /** External attendee domains, personal mail excluded */
+  domains: string[];
+  /** Newest first */
+  summaries: string[];
+  techStack: string[];
+  callCount: number;
+}
+
+export interface SectorAssignment {
+  sectorKey: string | null;
+  source: Exclude<SectorSource, "manual">;
+  confidence: number;
+  evidence: string;
+}
+
+// Addresses that say nothing about the company
+const PERSONAL_EMAIL_DOMAINS = ["gmail.com", "googlemail.com", "outlook.com", "hotmail.com", "yahoo.com", "icloud.com", "proton.me", "protonmail.com"];
+
+// Summaries shown to the model, newest first
+const MAX_SUMMARIES = 5;
+const MAX_SUMMARY_CHARS = 1500;
+
+export async function loadSectors(db: Database): Promise<SectorOption[]> {
+  return db
+    .select({ key: sectors.key, displayName: sectors.displayName, description: sectors.description, keywords: sectors.keywords })
+    .from(sectors)
+    .orderBy(sectors.key);
+}
+
+export async function gatherCompanyEvidence(db: Database, companyId: string): Promise<CompanyEvidence | null> {
+  const company = (await db.select({ name: companies.name }).from(companies).where(eq(companies.id, companyId)).limit(1))[0];
+  if (!company) return null;
+
+  const callRows = await db
+    .select({ id: calls.id, summary: calls.summaryText, rawJson: rawMeetings.rawJson })
+    .from(calls)
+    .leftJoin(rawMeetings, eq(rawMeetings.id, calls.rawMeetingId))
+    .where(eq(calls.companyId, companyId))
+    .orderBy(desc(calls.date));
+
+  const domains = new Set<string>();
+  for (const row of callRows) {
+    for (const email of getEmails((row.rawJson as any) || {})) {
+      const domain = email.slice(email.lastIndexOf("@") + 1);
+      if (!isInternalEmail(email) && !PERSONAL_EMAIL_DOMAINS.includes(domain)) domains.add(domain);
+    }
+  }
+
+  const techRows = await db
+    .selectDistinct({ name: technologies.name })
+    .from(callTechnologies)
+    .innerJoin(calls, eq(calls.id, callTechnologies.callId))
+    .innerJoin(technologies, eq(technologies.id, callTechnologies.technologyId))
+    .where(eq(calls.companyId, companyId));
+
+  return {
+    companyId,
+    name: company.name,
+    domains: Array.from(domains),
+    summaries: callRows.map((r) => r.summary || "").filter(Boolean),
+    techStack: techRows.map((t) => t.name),
+    callCount: callRows.length,
+  };
+}
+
+// ─── Keyword pass ───────────────────────────────────────────
+
+export interface SectorScore {
+  key: string;
+  score: number;
+  matched: string[];
+}
+
+// The keyword pass decides alone only with this much evidence and a clear lead
+const KEYWORD_MIN_SCORE = 3;
+const KEYWORD_LEAD = 2;
+
+/**
+ * A keyword counts once per summary it appears in, so a sector discussed on
+ * every call outweighs one mentioned in passing. A keyword inside an attendee
+ * domain ("swap" in a DEX's domain) counts once per domain.
+ */
+export function scoreSectors(evidence: CompanyEvidence, vocabulary: SectorOption[]): SectorScore[] {
+  const texts = [evidence.name, ...evidence.summaries];
+  const domainNames = evidence.domains.map((d) => d.slice(0, d.lastIndexOf(".")));
+  return vocabulary
+    .map((sector) => {
+      let score = 0;
+      const matched = new Set<string>();
+      for (const keyword of sector.keywords) {
+        for (const text of texts) {
+          if (matchesKeyword(text, keyword)) {
+            score++;
+            matched.add(keyword);
+          }
+        }
+        const stem = keyword.toLowerCase();
+        if (stem.length >= 4 && !stem.includes(" ")) {
+          for (const domain of domainNames) {
+            if (domain.includes(stem)) {
+              score++;
+              matched.add(keyword);
+            }
+          }
+        }
+      }
+      return { key: sector.key, score, matched: Array.from(matched) };
+    })
+    .filter((s) => s.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+// ─── Model pass ─────────────────────────────────────────────
+
+interface SectorToolInput {
+  sector_key: string | null;
+  confidence: number;
+  evidence: string;
+}
+
+function sectorTool(vocabulary: SectorOption[]): ExtractionTool {
+  return {
+    name: "assign_sector",
+    description: "Record which sector (protocol category) a prospect company operates in.",
+    input_schema: {
+      type: "object",
+      properties: {
+        sector_key: {
+          type: ["string", "null"],
+          enum: [...vocabulary.map((s) => s.key), null],
+          description: "The sector that best describes what the company builds, or null if the evidence doesn't say",
+        },
+        confidence: { type: "number", minimum: 0, maximum: 1, description: "How clearly the evidence supports it" },
+        evidence: { type: "string", minLength: 1, description: "One sentence: what in the calls or domains shows it" },
+      },
+      required: ["sector_key", "confidence", "evidence"],
+    },
+  };
+}
+
+async function assignWithModel(
+  client: Anthropic,
+  evidence: CompanyEvidence,
+  vocabulary: SectorOption[],
+  scores: SectorScore[]
+): Promise<SectorAssignment | null> {
+  const sectorList = vocabulary.map((s) => `- ${s.key} (${s.displayName})${s.description ? `: ${s.description}` : ""}`).join("\n");
+  const summaries = evidence.summaries
+    .slice(0, MAX_SUMMARIES)
+    .map((s, i) => `Call ${i + 1}: ${s.slice(0, MAX_SUMMARY_CHARS)}`)
+    .join("\n\n");
+  const hints = scores.slice(0, 3).map((s) => `${s.key} (${s.matched.join(", ")})`).join("; ");
+
+  const extraction = await runToolExtraction<SectorToolInput>(client, {
+    model: modelForStage("sector_enrichment"),
+    maxTokens: 256,
+    prompt: `Sherlock sells smart contract audits to crypto protocols. Which sector does this prospect operate in? Pick from the list and record it with the assign_sector tool. Judge by what the company builds, not what it integrates with.
+
+Sectors:
+${sectorList}
+
+Company: ${evidence.name}
+Attendee email domains: ${evidence.domains.join(", ") || "none"}
+Tech stack mentioned: ${evidence.techStack.join(", ") || "none"}
+Keyword hits: ${hints || "none"}
+
+${summaries || "No call summaries."}`,
+    tool: sectorTool(vocabulary),
+  });
+  if (!extraction.ok) return null;
+  return {
+    sectorKey: extraction.input.sector_key,
+    source: "llm",
+    confidence: Math.round(extraction.input.confidence * 100) / 100,
+    evidence: extraction.input.evidence,
+  };
+}
+
+/**
+ * Keywords when one sector clearly leads, else the model. Returns null when
+ * there's no clear keyword winner and no client (or the model failed), so the
+ * company stays due for enrichment.
+ */
+export async function assignSector(
+  client: Anthropic | null,
+  evidence: CompanyEvidence,
+  vocabulary: SectorOption[]
+): Promise<SectorAssignment | null> {
+  const scores = scoreSectors(evidence, vocabulary);
+  const [top, runnerUp] = scores;
+  if (top && top.score >= KEYWORD_MIN_SCORE && top.score >= KEYWORD_LEAD * (runnerUp?.score || 0)) {
+    return {
+      sectorKey: top.key,
+      source: "keywords",
+      confidence: Math.round(Math.min(0.9, 0.5 + 0.1 * top.score) * 100) / 100,
+      evidence: `Keywords: ${top.matched.join(", ")}`,
+    };
+  }
+  if (!client) return null;
+  return assignWithModel(client, evidence, vocabulary, scores);
+}
+
+// ─── Storage ────────────────────────────────────────────────
+
+export interface EnrichmentResult {
+  status: "assigned" | "skipped_manual" | "up_to_date" | "undecided";
+  assignment: SectorAssignment | null;
+}
+
+/**
+ * Enrich one company if it's due: never assigned, or more calls now than the
+ * assignment was based on. `force` redoes it regardless; manual assignments
+ * are always left alone.
+ */
+export async function enrichCompanySector(
+  db: Database,
+  client: Anthropic | null,
+  companyId: string,
+  options: { force?: boolean; vocabulary?: SectorOption[] } = {}
+): Promise<EnrichmentResult> {
+  const company = (await db.select().from(companies).where(eq(companies.id, companyId)).limit(1))[0];
+  if (!company) throw new Error(`No company ${companyId}`);
+  if (company.sectorSource === "manual") return { status: "skipped_manual", assignment: null };
+
+  const evidence = await gatherCompanyEvidence(db, companyId);
+  if (!evidence) throw new Error(`No company ${companyId}`);
+  if (!options.force && company.sectorCallCount !== null && company.sectorCallCount >= evidence.callCount) {
+    return { status: "up_to_date", assignment: null };
+  }
+
+  const vocabulary = options.vocabulary || (await loadSectors(db));
+  const assignment = await assignSector(client, evidence, vocabulary);
+  if (!assignment) return { status: "undecided", assignment: null };
+
+  await db
+    .update(companies)
+    .set({
+      sector: assignment.sectorKey,
+      sectorSource: assignment.source,
+      sectorConfidence: assignment.confidence,
+      sectorEvidence: assignment.evidence,
+      sectorCallCount: evidence.callCount,
+      sectorAssignedAt: new Date(),
+    })
+    .where(eq(companies.id, companyId));
+  return { status: "assigned", assignment };
+}
+
+/** Set a company's sector by hand (null: it has none); enrichment won't touch it again. */
+export async function setCompanySector(db: Database, companyId: string, sectorKey: string | null): Promise<void> {
+  if (sectorKey) {
+    const known = await db.select({ key: sectors.key }).from(sectors).where(eq(sectors.key, sectorKey)).limit(1);
+    if (known.length === 0) throw new Error(`Unknown sector "${sectorKey}"`);
+  }
+  const rows = await db
+    .update(companies)
+    .set({
+      sector: sectorKey,
+      sectorSource: "manual",
+      sectorConfidence: 1,
+      sectorEvidence: "Set by hand",
+      sectorCallCount: null,
+      sectorAssignedAt: new Date(),
+    })
+    .where(eq(companies.id, companyId))
+    .returning({ id: companies.id });
+  if (rows.length === 0) throw new Error(`No company ${companyId}`);
+}
+
+/** Hand a manually set company back to enrichment; its sector stays until the next run. */
+export async function releaseCompanySector(db: Database, companyId: string): Promise<void> {
+  const rows = await db
+    .update(companies)
+    .set({ sectorSource: null, sectorCallCount: null })
+    .where(eq(companies.id, companyId))
+    .returning({ id: companies.id });
+  if (rows.length === 0) throw new Error(`No company ${companyId}`);
+}
@@ -0,0 +1,70 @@
+import { and, eq, isNull, sql } from "drizzle-orm";
+import type { Database } from "../db";
+import { extractionDeadLetters, rawMeetings } from "../db/schema";
+import type { ExtractionFailure } from "./tool-extraction";
+
+export type Extractor = "sales_call" | "partner_call";
+
+export interface DeadLetter {
+  reason: ExtractionFailure["reason"] | "error";
+  errors: string[];
+  rawResponse: unknown;
+}
+
+/**
+ * Park a failed extraction. A meeting that fails again bumps `attempts` and
+ * replaces the recorded errors, and reopens the row if it had been resolved.
+ */
+export async function recordDeadLetter(
+  db: Database,
+  rawMeetingId: string,
+  extractor: Extractor,
+  letter: DeadLetter
+): Promise<void> {
+  const values = {
+    reason: letter.reason,
+    errors: letter.errors,
+    rawResponse: letter.rawResponse ?? null,
+    updatedAt: new Date(),
+    resolvedAt: null,
+  };
+  await db
+    .insert(extractionDeadLetters)
+    .values({ rawMeetingId, extractor, ...values })
+    .onConflictDoUpdate({
+      target: [extractionDeadLetters.rawMeetingId, extractionDeadLetters.extractor],
+      set: { ...values, attempts: sql`${extractionDeadLetters.attempts} + 1` },
+    });
+}
+
+/** Mark a meeting's open dead letters resolved after a successful extraction. */
+export async function resolveDeadLetters(db: Database, rawMeetingId: string): Promise<void> {
+  await db
+    .update(extractionDeadLetters)
+    .set({ resolvedAt: new Date() })
+    .where(and(eq(extractionDeadLetters.rawMeetingId, rawMeetingId), isNull(extractionDeadLetters.resolvedAt)));
+}
+
+/**
+ * Put dead-lettered meetings back in the process-calls queue: one meeting, or
+ * every open dead letter when rawMeetingId is omitted. Returns the meeting ids.
+ */
+export async function requeueDeadLetters(db: Database, rawMeetingId?: string): Promise<string[]> {
+  const open = await db
+    .select({ rawMeetingId: extractionDeadLetters.rawMeetingId })
+    .from(extractionDeadLetters)
+    .where(
+      and(
+        isNull(extractionDeadLetters.resolvedAt),
+        rawMeetingId ? eq(extractionDeadLetters.rawMeetingId, rawMeetingId) : undefined
+      )
+    );
+  const ids = Array.from(new Set(open.map((r) => r.rawMeetingId)));
+  for (const id of ids) {
+    await db
+      .update(rawMeetings)
+      .set({ processedAt: null })
+      .where(and(eq(rawMeetings.id, id), isNull(rawMeetings.deletedAt)));
+  }
+  return ids;
+}
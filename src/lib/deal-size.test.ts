@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { parseDealSize } from "./deal-size";
+
+const bounds = (text: string) => {
+  const parsed = parseDealSize(text);
+  return parsed && [parsed.min, parsed.max, parsed.currency, parsed.unit];
+};
+
+describe("parseDealSize", () => {
+  test("reads single figures with a currency", () => {
+    assert.deepEqual(bounds("$50k"), [50_000, 50_000, "USD", "one_off"]);
+    assert.deepEqual(bounds("€1.2M"), [1_200_000, 1_200_000, "EUR", "one_off"]);
+    assert.deepEqual(bounds("15k USDC/month"), [15_000, 15_000, "USDC", "monthly"]);
+    assert.equal(parseDealSize("$50k")!.confidence, 0.95);
+  });
+
+  test("applies a suffix on the upper bound to both ends of a range", () => {
+    assert.deepEqual(bounds("50-80k"), [50_000, 80_000, "USD", "one_off"]);
+    assert.deepEqual(bounds("$40 to $60k"), [40_000, 60_000, "USD", "one_off"]);
+    // No currency named: still read, but less sure
+    assert.equal(parseDealSize("50-80k")!.confidence, 0.75);
+  });
+
+  test("leaves the open side of a bound null", () => {
+    assert.deepEqual(bounds("up to $80k"), [null, 80_000, "USD", "one_off"]);
+    assert.deepEqual(bounds("$50k+"), [50_000, null, "USD", "one_off"]);
+    assert.deepEqual(bounds("at least 100k USDT"), [100_000, null, "USDT", "one_off"]);
+  });
+
+  test("ignores a measure that follows the price", () => {
+    assert.deepEqual(bounds("$30k for 3 weeks"), [30_000, 30_000, "USD", "one_off"]);
+    assert.deepEqual(bounds("$45k, 2 auditors"), [45_000, 45_000, "USD", "one_off"]);
+  });
+
+  test("rejects figures that measure something else when no currency is named", () => {
+    assert.equal(parseDealSize("80k for 2 auditors"), null);
+    assert.equal(parseDealSize("2 weeks of audit"), null);
+    assert.equal(parseDealSize("5k nSLOC"), null);
+  });
+
+  test("rejects two currencies", () => {
+    assert.equal(parseDealSize("$50k in ETH"), null);
+    assert.equal(parseDealSize("€40k or $45k"), null);
+    // A dollar sign on a stablecoin amount is one currency
+    assert.deepEqual(bounds("$15k USDC"), [15_000, 15_000, "USDC", "one_off"]);
+  });
+
+  test("rejects bare years and numbers", () => {
+    assert.equal(parseDealSize("2025 budget"), null);
+    assert.equal(parseDealSize("Q3 2026"), null);
+    assert.equal(parseDealSize("50000"), null);
+  });
+
+  test("returns null for empty or figure-less text", () => {
+    assert.equal(parseDealSize(null), null);
+    assert.equal(parseDealSize("  "), null);
+    assert.equal(parseDealSize("TBD"), null);
+  });
+});
@@ -0,0 +1,296 @@
+import type Anthropic from "@anthropic-ai/sdk";
+import { eq } from "drizzle-orm";
+import type { Database } from "../db";
+import { calls } from "../db/schema";
+import { modelForStage } from "./model-policy";
+import { runToolExtraction, type ExtractionTool, type TokenUsage } from "./tool-extraction";
+
+/**
+ * Turn the free-text deal_size ("$50k", "50-80k", "15k USDC/month") into an
+ * amount range, currency and billing unit. A regex parser handles the usual
+ * shapes; anything it can't read unambiguously goes to the model. Results that
+ * aren't an amount at all ("2 weeks of audit", "1.5M TVL coverage") or come
+ * back with low confidence are flagged for review.
+ */
+
+export const DEAL_CURRENCIES = ["USD", "USDC", "USDT", "ETH", "EUR"] as const;
+export type DealCurrency = (typeof DEAL_CURRENCIES)[number];
+
+export const DEAL_UNITS = ["one_off", "monthly", "annual"] as const;
+export type DealUnit = (typeof DEAL_UNITS)[number];
+
+export type DealSizeSource = "parser" | "llm" | "manual";
+
+// Below this a parsed amount is stored but flagged for review
+export const REVIEW_CONFIDENCE = 0.6;
+
+export interface ParsedDealSize {
+  /** null when open below ("up to 80k") */
+  min: number | null;
+  /** null when open above ("50k+") */
+  max: number | null;
+  currency: DealCurrency;
+  unit: DealUnit;
+  /** 0-1 */
+  confidence: number;
+}
+
+// ─── Parser ─────────────────────────────────────────────────
+
+// A figure that measures something other than the price
+const MEASURES = "tvl|weeks?|days?|hours?|engineers?|auditors?|n?s?loc|lines";
+const NOT_A_PRICE = new RegExp(`\\b(${MEASURES})\\b`);
+// Follows a figure that is such a measure ("3 weeks" in "$30k for 3 weeks")
+const MEASURE_AFTER = new RegExp(`^\\s*(${MEASURES})\\b`);
+const APPROXIMATE = /(~|\babout\b|\baround\b|\broughly\b|\bapprox|\bestimated?\b|\bish\b|\bballpark\b)/;
+const MONTHLY = /(\/\s*mo(nth)?\b|\bper month\b|\ba month\b|\bmonthly\b|\bpcm\b)/;
+const ANNUAL = /(\/\s*y(ea)?r\b|\bper year\b|\ba year\b|\bannual(ly)?\b|\byearly\b|\bper annum\b)/;
+const RETAINER = /\bretainer\b/;
+const UP_TO = /\b(up to|max(imum)?|at most|under|below|less than)\b/;
+const AT_LEAST = /(\d\s*[km]?\s*\+|\b(at least|min(imum)?|over|above|more than|starting at)\b)/;
+const RANGE_SEPARATOR = /^\s*(-|–|—|to|and|or)\s*$/;
+const CURRENCY_MARKS = /[$€]|\busd[ct]?\b|\beth\b/g;
+
+const AMOUNT = /(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)\s*(k|m|mm|bn|thousand|million|billion)?\b/g;
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  m: 1e6,
+  mm: 1e6,
+  million: 1e6,
+  bn: 1e9,
+  billion: 1e9,
+};
+
+interface AmountMatch {
+  value: number;
+  suffix: string | null;
+  start: number;
+  end: number;
+}
+
+function findAmounts(text: string): AmountMatch[] {
+  const amounts: AmountMatch[] = [];
+  AMOUNT.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = AMOUNT.exec(text)) !== null) {
+    amounts.push({
+      value: Number(match[1].replace(/,/g, "")),
+      suffix: match[2] || null,
+      start: match.index,
+      end: match.index + match[0].length,
+    });
+  }
+  return amounts;
+}
+
+/** Currencies named in the text; more than one is ambiguous ("$50k in ETH"). */
+function currenciesIn(text: string): DealCurrency[] {
+  const found: DealCurrency[] = [];
+  if (/\busdc\b/.test(text)) found.push("USDC");
+  if (/\busdt\b|\btether\b/.test(text)) found.push("USDT");
+  // "$15k USDC" is a stablecoin amount, not two currencies
+  if (found.length === 0 && /\$|\busd\b|\bdollars?\b/.test(text)) found.push("USD");
+  if (/\beth\b|\bether\b|Ξ/.test(text)) found.push("ETH");
+  if (/€|\beur\b|\beuros?\b/.test(text)) found.push("EUR");
+  return found;
+}
+
+/**
+ * Parse the common shapes of deal_size without a model. Returns null when the
+ * text isn't clearly one amount or range: no figure, two currencies, several
+ * figures, a figure that measures something else, or a bare number with
+ * neither a currency nor a k/m suffix ("2025 budget").
+ */
+export function parseDealSize(raw: string | null | undefined): ParsedDealSize | null {
+  const text = (raw || "").toLowerCase().trim();
+  if (!text) return null;
+
+  const currencies = currenciesIn(text);
+  if (currencies.length > 1) return null;
+  // With a currency the price is there; only drop the figures that measure something else
+  if (currencies.length === 0 && NOT_A_PRICE.test(text)) return null;
+
+  const amounts = findAmounts(text).filter((a) => !MEASURE_AFTER.test(text.slice(a.end)));
+  if (amounts.length === 0 || amounts.length > 2) return null;
+  let [low, high] = amounts;
+  if (high) {
+    const between = text.slice(low.end, high.start).replace(CURRENCY_MARKS, "");
+    if (!RANGE_SEPARATOR.test(between)) return null;
+    // "50-80k": the suffix on the upper bound applies to both
+    if (!low.suffix && high.suffix) low = { ...low, suffix: high.suffix };
+  }
+
+  const scale = (a: AmountMatch) => a.value * (a.suffix ? MULTIPLIERS[a.suffix] : 1);
+  // A bare "50" or "2025" could be anything, a year included
+  if (currencies.length === 0 && !low.suffix) return null;
+
+  let min: number | null = scale(low);
+  let max: number | null = high ? scale(high) : min;
+  if (min > max!) [min, max] = [max, min];
+  if (!high && UP_TO.test(text)) min = null;
+  else if (!high && AT_LEAST.test(text)) max = null;
+
+  let confidence = 0.95;
+  if (currencies.length === 0) confidence -= 0.2;
+  if (APPROXIMATE.test(text)) confidence -= 0.15;
+
+  let unit: DealUnit = "one_off";
+  if (MONTHLY.test(text)) unit = "monthly";
+  else if (ANNUAL.test(text)) unit = "annual";
+  else if (RETAINER.test(text)) {
+    // Retainers are billed monthly, but the figure may be the whole contract
+    unit = "monthly";
+    confidence -= 0.1;
+  }
+
+  return {
+    min,
+    max,
+    currency: currencies[0] || "USD",
+    unit,
+    confidence: Math.round(confidence * 100) / 100,
+  };
+}
+
+// ─── Model fallback ─────────────────────────────────────────
+
+interface DealSizeToolInput {
+  is_amount: boolean;
+  min: number | null;
+  max: number | null;
+  currency: DealCurrency | null;
+  unit: DealUnit;
+  confidence: number;
+}
+
+const DEAL_SIZE_TOOL: ExtractionTool = {
+  name: "record_deal_size",
+  description: "Record the deal value described by a sales call's deal size note.",
+  input_schema: {
+    type: "object",
+    properties: {
+      is_amount: {
+        type: "boolean",
+        description: "false if the note gives no price for the deal (effort, timeline, TVL, a placeholder)",
+      },
+      min: { type: ["number", "null"], minimum: 0, description: "Lower bound in whole currency units; null if open or not an amount" },
+      max: { type: ["number", "null"], minimum: 0, description: "Upper bound; equal to min for a single figure, null if open" },
+      currency: { type: ["string", "null"], enum: [...DEAL_CURRENCIES, null], description: "USD when only $ is given" },
+      unit: { type: "string", enum: DEAL_UNITS, description: "monthly/annual for recurring fees (retainers), else one_off" },
+      confidence: { type: "number", minimum: 0, maximum: 1, description: "How sure the reading is" },
+    },
+    required: ["is_amount", "min", "max", "currency", "unit", "confidence"],
+  },
+};
+
+export interface DealSizeResolution {
+  /** null when no amount could be read */
+  parsed: ParsedDealSize | null;
+  source: "parser" | "llm";
+  needsReview: boolean;
+  usage: TokenUsage | null;
+}
+
+function reviewed(parsed: ParsedDealSize | null, source: "parser" | "llm", usage: TokenUsage | null): DealSizeResolution {
+  return { parsed, source, needsReview: !parsed || parsed.confidence < REVIEW_CONFIDENCE, usage };
+}
+
+/**
+ * Parser first, then the model for what it can't read. Without a client the
+ * parser's answer stands and unreadable text is flagged.
+ */
+export async function resolveDealSize(client: Anthropic | null, text: string): Promise<DealSizeResolution> {
+  const parsed = parseDealSize(text);
+  if (parsed || !client) return reviewed(parsed, "parser", null);
+
+  const extraction = await runToolExtraction<DealSizeToolInput>(client, {
+    model: modelForStage("deal_size"),
+    maxTokens: 256,
+    prompt: `A Sherlock sales call (smart contract audits, security retainers, lifecycle security) was summarised with this deal size note:
+
+"${text}"
+
+Read it as the value of the deal and record it with the record_deal_size tool. Amounts are in whole units ("50k" is 50000). If the note gives no price for the deal (a year such as "2025 budget" is not a price), set is_amount to false.`,
+    tool: DEAL_SIZE_TOOL,
+  });
+  if (!extraction.ok) return reviewed(null, "llm", extraction.usage);
+
+  const input = extraction.input;
+  if (!input.is_amount || (input.min === null && input.max === null) || !input.currency) {
+    return reviewed(null, "llm", extraction.usage);
+  }
+  let { min, max } = input;
+  if (min !== null && max !== null && min > max) [min, max] = [max, min];
+  return reviewed(
+    { min, max, currency: input.currency, unit: input.unit, confidence: Math.round(input.confidence * 100) / 100 },
+    "llm",
+    extraction.usage
+  );
+}
+
+// ─── Storage ────────────────────────────────────────────────
+
+function dealSizeColumns(parsed: ParsedDealSize | null, source: DealSizeSource | null, needsReview: boolean) {
+  return {
+    dealSizeMin: parsed?.min ?? null,
+    dealSizeMax: parsed?.max ?? null,
+    dealSizeCurrency: parsed?.currency ?? null,
+    dealSizeUnit: parsed?.unit ?? null,
+    dealSizeConfidence: parsed?.confidence ?? null,
+    dealSizeSource: source,
+    dealSizeNeedsReview: needsReview,
+  };
+}
+
+/** Parse a call's deal_size into its structured columns. Returns null when the call has no deal size. */
+export async function applyDealSize(
+  db: Database,
+  client: Anthropic | null,
+  callId: string,
+  text: string | null
+): Promise<DealSizeResolution | null> {
+  if (!text || text.trim() === "") {
+    await db.update(calls).set(dealSizeColumns(null, null, false)).where(eq(calls.id, callId));
+    return null;
+  }
+  const resolution = await resolveDealSize(client, text);
+  await db
+    .update(calls)
+    .set(dealSizeColumns(resolution.parsed, resolution.source, resolution.needsReview))
+    .where(eq(calls.id, callId));
+  return resolution;
+}
+
+/**
+ * Flag a call's deal size when it couldn't be parsed at all (the model call
+ * threw). The source stays null, so the next backfill parses it again.
+ */
+export async function flagDealSizeForReview(db: Database, callId: string): Promise<void> {
+  await db.update(calls).set(dealSizeColumns(null, null, true)).where(eq(calls.id, callId));
+}
+
+/** A reviewer's reading; null records that the text has no amount. Clears the review flag. */
+export async function setDealSizeManually(
+  db: Database,
+  callId: string,
+  value: Omit<ParsedDealSize, "confidence"> | null
+): Promise<void> {
+  const parsed = value ? { ...value, confidence: 1 } : null;
+  const rows = await db
+    .update(calls)
+    .set(dealSizeColumns(parsed, "manual", false))
+    .where(eq(calls.id, callId))
+    .returning({ id: calls.id });
+  if (rows.length === 0) throw new Error(`No call ${callId}`);
+}
+
+export function formatDealSize(parsed: Pick<ParsedDealSize, "min" | "max" | "currency" | "unit">): string {
+  const amount = (n: number) => (n >= 1e6 ? `${n / 1e6}M` : n >= 1e3 ? `${n / 1e3}k` : String(n));
+  let range = amount(parsed.min ?? parsed.max!);
+  if (parsed.min === null) range = `up to ${amount(parsed.max!)}`;
+  else if (parsed.max === null) range = `${amount(parsed.min)}+`;
+  else if (parsed.min !== parsed.max) range = `${amount(parsed.min)}-${amount(parsed.max)}`;
+  const per = parsed.unit === "monthly" ? "/month" : parsed.unit === "annual" ? "/year" : "";
+  return `${range} ${parsed.currency}${per}`;
+}
@@ -0,0 +1,61 @@
+import type { ExtractionResult } from "./extractor";
+
+/**
+ * Merge per-chunk sales extractions into one. List fields are concatenated in
+ * chunk order with duplicates dropped: chunks overlap, so the same objection or
+ * quote is often extracted twice, word for word or nearly. Call-level fields
+ * are left to the reconciliation pass; here they come from the last chunk.
+ */
+
+/** Lowercase, drop punctuation and collapse whitespace, for duplicate checks. */
+export function normalizeForMatch(text: string | null | undefined): string {
+  return (text || "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Same text once normalized, or one contains the other (a clipped quote). */
+function sameText(a: string, b: string): boolean {
+  if (!a || !b) return a === b;
+  if (a === b) return true;
+  const [short, long] = a.length < b.length ? [a, b] : [b, a];
+  return short.length >= 20 && long.includes(short);
+}
+
+function dedupe<T>(items: T[], key: (item: T) => { group: string; text: string }): T[] {
+  const kept: { item: T; group: string; text: string }[] = [];
+  for (const item of items) {
+    const { group, text } = key(item);
+    const dup = kept.find((k) => k.group === group && sameText(k.text, text));
+    if (!dup) {
+      kept.push({ item, group, text });
+    } else if (text.length > dup.text.length) {
+      // Keep the fuller version of a clipped duplicate
+      dup.item = item;
+      dup.text = text;
+    }
+  }
+  return kept.map((k) => k.item);
+}
+
+export function mergeExtractions(parts: ExtractionResult[]): ExtractionResult {
+  if (parts.length === 0) throw new Error("Nothing to merge");
+  const last = parts[parts.length - 1];
+
+  return {
+    ...last,
+    prospect_names: dedupe(parts.flatMap((p) => p.prospect_names), (p) => ({ group: "", text: normalizeForMatch(p.name) })),
+    team_members: dedupe(parts.flatMap((p) => p.team_members), (t) => ({ group: "", text: normalizeForMatch(t.email || t.name) })),
+    tech_stack: dedupe(parts.flatMap((p) => p.tech_stack), (t) => ({ group: normalizeForMatch(t), text: normalizeForMatch(t) })),
+    objections: dedupe(parts.flatMap((p) => p.objections), (o) => ({ group: o.type_key, text: normalizeForMatch(o.quote) })),
+    prospect_questions: dedupe(parts.flatMap((p) => p.prospect_questions), (q) => ({ group: "", text: normalizeForMatch(q) })),
+    key_quotes: dedupe(parts.flatMap((p) => p.key_quotes), (q) => ({ group: "", text: normalizeForMatch(q.quote_text) })),
+    follow_up_actions: dedupe(parts.flatMap((p) => p.follow_up_actions), (f) => ({ group: "", text: normalizeForMatch(f.action_text) })),
+    counter_responses: dedupe(parts.flatMap((p) => p.counter_responses), (c) => ({
+      group: c.objection_type_key,
+      text: normalizeForMatch(c.response_text),
+    })),
+  };
+}
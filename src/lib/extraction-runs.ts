@@ -0,0 +1,111 @@
+import { eq } from "drizzle-orm";
+import type { Database } from "../db";
+import { extractionRuns } from "../db/schema";
+import type { Extractor } from "./dead-letters";
+import { normalizeForMatch } from "./extraction-merge";
+import type { ExtractionResult, PartnerCallExtraction, SalesCallExtraction } from "./extractor";
+
+/**
+ * History of extraction attempts: prompt version and hash, model, what the
+ * model sent back, what we parsed from it, the hash of the transcript it read,
+ * and the tokens it cost. A run is promoted once its result is what the calls
+ * tables hold.
+ */
+
+export type RunSource = "process_calls" | "re_extract";
+
+export async function recordExtractionRun(
+  db: Database,
+  rawMeetingId: string,
+  extractor: Extractor,
+  extraction: SalesCallExtraction | PartnerCallExtraction,
+  source: RunSource,
+  transcriptHash: string | null
+): Promise<string> {
+  const result = await db
+    .insert(extractionRuns)
+    .values({
+      rawMeetingId,
+      extractor,
+      source,
+      promptVersion: extraction.promptVersion,
+      promptHash: extraction.promptHash,
+      model: extraction.model,
+      transcriptHash,
+      strategy: "strategy" in extraction ? extraction.strategy : null,
+      chunks: "chunks" in extraction ? extraction.chunks : null,
+      escalationReason: "escalatedFor" in extraction && extraction.escalatedFor.length > 0 ? extraction.escalatedFor.join(",") : null,
+      ok: extraction.ok,
+      rawResponse: (extraction.ok ? extraction.rawResponse : extraction.failure.rawResponse) ?? null,
+      parsedResult: extraction.ok ? extraction.input : null,
+      errors: extraction.ok ? [] : extraction.failure.errors,
+      inputTokens: extraction.usage.inputTokens,
+      outputTokens: extraction.usage.outputTokens,
+    })
+    .returning({ id: extractionRuns.id });
+  return result[0].id;
+}
+
+export async function markRunPromoted(db: Database, runId: string): Promise<void> {
+  await db.update(extractionRuns).set({ promotedAt: new Date() }).where(eq(extractionRuns.id, runId));
+}
+
+// ─── Diff ───────────────────────────────────────────────────
+
+export type FieldDiff =
+  | { field: keyof ExtractionResult; kind: "value"; before: unknown; after: unknown }
+  | { field: keyof ExtractionResult; kind: "list"; added: string[]; removed: string[] };
+
+// How each list item reads in a diff; items match when these normalize equal
+const LIST_ITEMS: { [K in keyof ExtractionResult]?: (item: any) => string } = {
+  prospect_names: (p: ExtractionResult["prospect_names"][number]) => (p.role ? `${p.name} (${p.role})` : p.name),
+  team_members: (t: ExtractionResult["team_members"][number]) => t.email || t.name,
+  tech_stack: (t: string) => t,
+  objections: (o: ExtractionResult["objections"][number]) => `${o.type_key}: ${o.quote}`,
+  prospect_questions: (q: string) => q,
+  key_quotes: (q: ExtractionResult["key_quotes"][number]) => `${q.speaker}: ${q.quote_text}`,
+  follow_up_actions: (f: ExtractionResult["follow_up_actions"][number]) =>
+    f.assigned_to ? `${f.action_text} [${f.assigned_to}]` : f.action_text,
+  counter_responses: (c: ExtractionResult["counter_responses"][number]) =>
+    `${c.objection_type_key} (${c.outcome}): ${c.response_text}`,
+};
+
+const VALUE_FIELDS: (keyof ExtractionResult)[] = [
+  "call_type",
+  "offering_pitched",
+  "company_name",
+  "call_outcome",
+  "deal_size",
+  "call_quality_score",
+  "quality_rationale",
+];
+
+function listDiff(before: string[], after: string[]): { added: string[]; removed: string[] } {
+  const beforeKeys = new Set(before.map(normalizeForMatch));
+  const afterKeys = new Set(after.map(normalizeForMatch));
+  return {
+    added: after.filter((item) => !beforeKeys.has(normalizeForMatch(item))),
+    removed: before.filter((item) => !afterKeys.has(normalizeForMatch(item))),
+  };
+}
+
+/** Field-by-field differences between the stored extraction and a candidate. */
+export function diffExtractions(current: ExtractionResult, candidate: ExtractionResult): FieldDiff[] {
+  const diffs: FieldDiff[] = [];
+  for (const field of VALUE_FIELDS) {
+    const before = current[field] ?? null;
+    const after = candidate[field] ?? null;
+    const same = typeof before === "string" && typeof after === "string"
+      ? normalizeForMatch(before) === normalizeForMatch(after)
+      : before === after;
+    if (!same) diffs.push({ field, kind: "value", before, after });
+  }
+  for (const [field, render] of Object.entries(LIST_ITEMS) as [keyof ExtractionResult, (item: any) => string][]) {
+    const { added, removed } = listDiff(
+      (current[field] as unknown[]).map(render),
+      (candidate[field] as unknown[]).map(render)
+    );
+    if (added.length > 0 || removed.length > 0) diffs.push({ field, kind: "list", added, removed });
+  }
+  return diffs;
+}
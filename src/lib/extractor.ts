@@ -1,13 +1,36 @@
 import Anthropic from "@anthropic-ai/sdk";
+import { createHash } from "crypto";
+import type { JsonSchema } from "./json-schema";
+import { mergeExtractions } from "./extraction-merge";
+import { escalationTriggers, loadModelPolicy, modelForStage, type EscalationTrigger } from "./model-policy";
+import { addUsage, runToolExtraction, type ExtractionTool, type TokenUsage, type ToolExtraction } from "./tool-extraction";
+import { chunkTranscript } from "./transcript-chunks";
+
+export const CALL_TYPES = ["discovery", "pitch", "follow_up", "closing", "check_in"] as const;
+export const OFFERINGS = ["audit", "retainer", "lifecycle", "none"] as const;
+export const CALL_OUTCOMES = ["positive", "negative", "neutral", "follow_up_scheduled", "proposal_sent", "declined"] as const;
+export const COUNTER_OUTCOMES = ["effective", "partially_effective", "ineffective"] as const;
+
+// Canonical objection types as seeded; process-calls passes the live list from the objections table
+export const DEFAULT_OBJECTION_TYPES = [
+  "budget_timing",
+  "need_internal_buyin",
+  "already_have_auditor",
+  "scope_concerns",
+  "timeline_too_long",
+  "not_ready_yet",
+  "comparing_competitors",
+  "other",
+];
 
 export interface ExtractionResult {
-  call_type: "discovery" | "pitch" | "follow_up" | "closing" | "check_in";
-  offering_pitched: "audit" | "retainer" | "lifecycle" | "none";
+  call_type: (typeof CALL_TYPES)[number];
+  offering_pitched: (typeof OFFERINGS)[number];
   company_name: string;
-  prospect_names: { name: string; role: string }[];
-  team_members: { name: string; email: string }[];
+  prospect_names: { name: string; role: string | null }[];
+  team_members: { name: string; email: string | null }[];
   tech_stack: string[];
-  call_outcome: string;
+  call_outcome: (typeof CALL_OUTCOMES)[number];
   deal_size: string | null;
   call_quality_score: number;
   quality_rationale: string;
@@ -24,141 +47,470 @@ export interface ExtractionResult {
   }[];
   follow_up_actions: {
     action_text: string;
-    assigned_to: string;
+    assigned_to: string | null;
   }[];
   counter_responses: {
     objection_type_key: string;
     response_text: string;
-    outcome: string;
+    outcome: (typeof COUNTER_OUTCOMES)[number];
+  }[];
+}
+
+export const RELATIONSHIP_TYPES = ["vendor", "referral", "conference", "integration", "other"] as const;
+export type RelationshipType = (typeof RELATIONSHIP_TYPES)[number];
+
+/** Light metadata for partner_call and other meetings; no sales fields. */
+export interface PartnerExtractionResult {
+  partner_name: string | null;
+  relationship_type: RelationshipType;
+  summary: string;
+  action_items: {
+    action_text: string;
+    assigned_to: string | null;
   }[];
+  attendees: {
+    name: string;
+    organization: string | null;
+    role: string | null;
+  }[];
+}
+
+/** single: whole transcript in one request; map_reduce: chunked, merged, then reconciled */
+export type ExtractionStrategy = "single" | "map_reduce";
+
+/** What an extraction_runs row needs to say how a result was produced */
+export interface ExtractionRunInfo {
+  /** Model that produced the result (or the failure) */
+  model: string;
+  promptVersion: string;
+  /** sha256 of the prompt text and tool schema actually sent */
+  promptHash: string;
+}
+
+export type SalesCallExtraction = ToolExtraction<ExtractionResult> &
+  ExtractionRunInfo & {
+    strategy: ExtractionStrategy;
+    chunks: number;
+    /** Why the call went to the escalation model; empty when it didn't */
+    escalatedFor: EscalationTrigger[];
+  };
+
+export type PartnerCallExtraction = ToolExtraction<PartnerExtractionResult> & ExtractionRunInfo;
+
+/** An allowed objection type_key and, when known, what it covers */
+export interface ObjectionTypeOption {
+  typeKey: string;
+  description?: string | null;
+}
+
+export interface ExtractionOptions {
+  /** Allowed objection types (see loadObjectionTypes); defaults to DEFAULT_OBJECTION_TYPES */
+  objectionTypes?: ObjectionTypeOption[];
+  /** Defaults to the policy's extraction stage model */
+  model?: string;
+  /** Candidate instructions in place of EXTRACTION_PROMPT (see re-extract.ts) */
+  prompt?: string;
+  /** Label recorded for the run; defaults to SALES_PROMPT_VERSION, or custom-<hash> with a candidate prompt */
+  promptVersion?: string;
+}
+
+export interface PolicyExtractionOptions extends ExtractionOptions {
+  /** Attendee emails, to spot strategic accounts before the first pass */
+  emails?: string[];
+}
+
+// ─── Tool schemas ───────────────────────────────────────────
+
+// maxLength mirrors the varchar column a field is stored in, so overflows go back in the repair turn
+const text = (description: string, maxLength?: number): JsonSchema => ({ type: "string", description, minLength: 1, maxLength });
+const optionalText = (description: string, maxLength?: number): JsonSchema => ({ type: ["string", "null"], description, maxLength });
+const list = (items: JsonSchema, description: string): JsonSchema => ({ type: "array", description, items });
+const record = (properties: Record<string, JsonSchema>, required = Object.keys(properties)): JsonSchema => ({
+  type: "object",
+  properties,
+  required,
+});
+
+function salesCallTool(objectionTypes: string[]): ExtractionTool {
+  return {
+    name: "record_sales_call",
+    description: "Record the structured data extracted from a Sherlock sales call.",
+    input_schema: {
+      type: "object",
+      properties: {
+        call_type: { type: "string", enum: CALL_TYPES },
+        offering_pitched: { type: "string", enum: OFFERINGS },
+        company_name: text("Name of the prospect company/protocol (best guess from context)", 255),
+        prospect_names: list(
+          record({ name: text("Full name", 255), role: optionalText("Their role/title if mentioned", 255) }),
+          "People on the prospect side"
+        ),
+        team_members: list(
+          record({ name: text("Full name", 255), email: optionalText("email@sherlock.xyz if identifiable", 255) }),
+          "People on the Sherlock team"
+        ),
+        tech_stack: list({ type: "string", maxLength: 100 }, "Technologies explicitly mentioned, e.g. Solidity, Foundry"),
+        call_outcome: { type: "string", enum: CALL_OUTCOMES },
+        deal_size: optionalText('"$X" if a figure was mentioned, otherwise null', 100),
+        call_quality_score: {
+          type: "integer",
+          minimum: 1,
+          maximum: 10,
+          description: "1-3 poor (off-topic, no engagement), 4-6 average, 7-9 good (clear progress), 10 excellent (deal advancing)",
+        },
+        quality_rationale: { type: "string", description: "Brief explanation of the score" },
+        objections: list(
+          record({
+            type_key: { type: "string", enum: objectionTypes },
+            quote: text("Exact or near-exact quote from the prospect"),
+            context: { type: "string", description: "Brief context around the objection" },
+          }),
+          "Objections the prospect raised"
+        ),
+        prospect_questions: list({ type: "string", minLength: 1 }, "Questions the prospect asked"),
+        key_quotes: list(
+          record({
+            speaker: text("Speaker name", 255),
+            quote_text: text("Notable quote"),
+            context: { type: "string", description: "Why this quote matters" },
+          }),
+          "Notable quotes"
+        ),
+        follow_up_actions: list(
+          record({ action_text: text("What needs to happen next"), assigned_to: optionalText("Who is responsible", 255) }),
+          "Next steps"
+        ),
+        counter_responses: list(
+          record({
+            objection_type_key: { type: "string", enum: objectionTypes, description: "Same type_key as the objection being countered" },
+            response_text: text("How the Sherlock team member responded"),
+            outcome: { type: "string", enum: COUNTER_OUTCOMES },
+          }),
+          "How the team answered each objection"
+        ),
+      },
+      required: [
+        "call_type", "offering_pitched", "company_name", "prospect_names", "team_members", "tech_stack",
+        "call_outcome", "deal_size", "call_quality_score", "quality_rationale", "objections",
+        "prospect_questions", "key_quotes", "follow_up_actions", "counter_responses",
+      ],
+    },
+  };
 }
 
-const EXTRACTION_PROMPT = `You are analyzing a sales call transcript from Sherlock, a smart contract security company. Extract structured data from this transcript.
+// Call-level fields settled by the reconciliation pass after a map-reduce extraction
+const CALL_LEVEL_FIELDS = [
+  "call_type",
+  "offering_pitched",
+  "company_name",
+  "call_outcome",
+  "deal_size",
+  "call_quality_score",
+  "quality_rationale",
+] as const;
+type CallLevelFields = Pick<ExtractionResult, (typeof CALL_LEVEL_FIELDS)[number]>;
+
+function reconcileTool(salesTool: ExtractionTool): ExtractionTool {
+  const properties: Record<string, JsonSchema> = {};
+  for (const field of CALL_LEVEL_FIELDS) properties[field] = salesTool.input_schema.properties![field];
+  return {
+    name: "reconcile_call",
+    description: "Record the call-level fields for the whole call.",
+    input_schema: { type: "object", properties, required: CALL_LEVEL_FIELDS },
+  };
+}
+
+const PARTNER_CALL_TOOL: ExtractionTool = {
+  name: "record_partner_meeting",
+  description: "Record light metadata for a Sherlock partner or other external meeting.",
+  input_schema: {
+    type: "object",
+    properties: {
+      partner_name: optionalText("Name of the other organisation, or null if there is none", 255),
+      relationship_type: { type: "string", enum: RELATIONSHIP_TYPES },
+      summary: text("One or two sentences on what the meeting was about"),
+      action_items: list(
+        record({ action_text: text("What needs to happen next"), assigned_to: optionalText("Who is responsible", 255) }),
+        "Next steps"
+      ),
+      attendees: list(
+        record({
+          name: text("Full name", 255),
+          organization: optionalText("Their organisation if known", 255),
+          role: optionalText("Their role if mentioned", 255),
+        }),
+        "People in the meeting"
+      ),
+    },
+    required: ["partner_name", "relationship_type", "summary", "action_items", "attendees"],
+  },
+};
+
+// ─── Prompts ────────────────────────────────────────────────
+
+// Bump when a prompt or its tool schema changes. The recorded prompt hash
+// catches edits that forget to.
+export const SALES_PROMPT_VERSION = "v4";
+export const PARTNER_PROMPT_VERSION = "v2";
+
+const EXTRACTION_PROMPT = `You are analyzing a sales call transcript from Sherlock, a smart contract security company. Extract structured data from this transcript and record it with the record_sales_call tool.
 
 Sherlock offers:
 - Smart contract security audits (one-time code reviews)
 - Security retainers (ongoing security relationships)
 - Lifecycle security services (architecture review through deployment)
 
-IMPORTANT: Return ONLY valid JSON, no markdown code fences, no explanation.
-
-Extract the following fields:
-
-{
-  "call_type": "discovery" | "pitch" | "follow_up" | "closing" | "check_in",
-  "offering_pitched": "audit" | "retainer" | "lifecycle" | "none",
-  "company_name": "Name of the prospect company/protocol (best guess from context)",
-  "prospect_names": [{"name": "Full Name", "role": "Their role/title if mentioned"}],
-  "team_members": [{"name": "Full Name", "email": "email@sherlock.xyz if identifiable"}],
-  "tech_stack": ["Solidity", "Foundry", etc. - only include if specifically mentioned],
-  "call_outcome": "positive" | "negative" | "neutral" | "follow_up_scheduled" | "proposal_sent" | "declined",
-  "deal_size": "$X" or null if not mentioned,
-  "call_quality_score": 1-10 (10 = very productive sales conversation with clear next steps),
-  "quality_rationale": "Brief explanation of the score",
-  "objections": [
-    {
-      "type_key": "budget_timing" | "need_internal_buyin" | "already_have_auditor" | "scope_concerns" | "timeline_too_long" | "not_ready_yet" | "comparing_competitors" | "other",
-      "quote": "Exact or near-exact quote from prospect",
-      "context": "Brief context around the objection"
-    }
-  ],
-  "prospect_questions": ["Questions the prospect asked"],
-  "key_quotes": [
-    {
-      "speaker": "Speaker name",
-      "quote_text": "Notable quote",
-      "context": "Why this quote matters"
-    }
-  ],
-  "follow_up_actions": [
-    {
-      "action_text": "What needs to happen next",
-      "assigned_to": "Who is responsible"
-    }
-  ],
-  "counter_responses": [
-    {
-      "objection_type_key": "Same type_key as the objection being countered",
-      "response_text": "How the Sherlock team member responded",
-      "outcome": "effective" | "partially_effective" | "ineffective"
-    }
-  ]
-}
-
 Rules:
 - If a field has no data, use empty array [] or null as appropriate
 - For company_name, infer from context (meeting title, domain names, project names mentioned)
 - For team_members, anyone with @sherlock.xyz email or clearly on the Sherlock team
 - Only include technologies that are explicitly mentioned in the conversation
-- call_quality_score: 1-3 = poor (off-topic, no engagement), 4-6 = average, 7-9 = good (clear progress), 10 = excellent (deal advancing)
 - Keep quotes accurate — paraphrase only if exact text isn't clear
 - For objection type_key, map to the canonical types. Use "other" only if none fit.`;
 
+const PARTNER_EXTRACTION_PROMPT = `You are analyzing a meeting transcript from Sherlock, a smart contract security company. This is NOT a sales call: it is with a partner, vendor, conference organiser, integration partner, referral source, or it is some other external meeting. Extract light metadata and record it with the record_partner_meeting tool.
+
+Rules:
+- vendor: they sell a product or service to Sherlock
+- referral: they send (or receive) clients to or from Sherlock
+- conference: an event, hackathon or sponsorship
+- integration: building or connecting products together
+- If a field has no data, use empty array [] or null as appropriate`;
+
+const RECONCILE_PROMPT = `You are reconciling the call-level fields of one long Sherlock sales call. The transcript was too long for one pass, so it was extracted in consecutive, overlapping parts, and each part's values only reflect that part. Decide the values for the call as a whole and record them with the reconcile_call tool.
+
+Rules:
+- call_outcome and deal_size: how the call ended matters most; later parts win unless they are silent
+- call_type and offering_pitched: the main purpose of the call across all parts
+- company_name: the prospect company, consistent across parts
+- call_quality_score: the whole conversation, not an average of the parts
+- quality_rationale: one or two sentences covering the whole call`;
+
+// Transcripts up to this size (with title and summary) go in a single request
+const SINGLE_PASS_CHARS = 100000;
+// Map-reduce chunk size and how much of each chunk's tail the next one repeats
+const CHUNK_CHARS = 60000;
+const CHUNK_OVERLAP_CHARS = 4000;
+// End of the transcript shown to the reconciliation pass
+const RECONCILE_TAIL_CHARS = 4000;
+
+// Partner meetings only need the gist; keep the prompt small and cheap
+const PARTNER_TRANSCRIPT_CHARS = 30000;
+
+/** The objection types the model may use, appended to the sales prompt. */
+function objectionTypeGuide(types: ObjectionTypeOption[]): string {
+  const lines = types.map((t) => (t.description ? `- ${t.typeKey}: ${t.description}` : `- ${t.typeKey}`));
+  return `\n\nObjection types (type_key):\n${lines.join("\n")}`;
+}
+
+function promptHash(...parts: unknown[]): string {
+  return createHash("sha256")
+    .update(parts.map((p) => (typeof p === "string" ? p : JSON.stringify(p))).join("\n\n"))
+    .digest("hex");
+}
+
+function meetingHeader(title: string, summary: string | undefined): string[] {
+  const contextParts: string[] = [];
+  if (title) contextParts.push(`Meeting title: "${title}"`);
+  if (summary) contextParts.push(`Meeting summary: "${summary}"`);
+  return contextParts;
+}
+
+function meetingContext(transcript: string, title: string, summary: string | undefined, maxChars = Infinity): string {
+  const contextParts = meetingHeader(title, summary);
+  contextParts.push(`\nTranscript:\n${transcript}`);
+
+  const content = contextParts.join("\n");
+  return content.length > maxChars ? content.slice(0, maxChars) + "\n\n[Transcript truncated]" : content;
+}
+
+// ─── Extraction ─────────────────────────────────────────────
+
 /**
- * Extract structured data from a sales call transcript using Claude API.
+ * Extract structured data from a sales call transcript using Claude tool use.
+ * The result is schema-validated (with one repair turn); a failure is returned,
+ * not thrown, so the caller can dead-letter it. Transcripts too long for one
+ * request are extracted in chunks and merged (see extractInChunks).
  */
 export async function extractSalesCall(
   client: Anthropic,
   transcript: string,
   title: string,
-  summary?: string
-): Promise<ExtractionResult> {
-  const contextParts: string[] = [];
-  if (title) contextParts.push(`Meeting title: "${title}"`);
-  if (summary) contextParts.push(`Meeting summary: "${summary}"`);
-  contextParts.push(`\nTranscript:\n${transcript}`);
+  summary?: string,
+  options: ExtractionOptions = {}
+): Promise<SalesCallExtraction> {
+  const objectionTypes = options.objectionTypes?.length
+    ? options.objectionTypes
+    : DEFAULT_OBJECTION_TYPES.map((typeKey) => ({ typeKey }));
+  const tool = salesCallTool(objectionTypes.map((t) => t.typeKey));
+  const instructions = (options.prompt || EXTRACTION_PROMPT) + objectionTypeGuide(objectionTypes);
+  const hash = promptHash(instructions, tool.input_schema, RECONCILE_PROMPT);
+  const run: ExtractionRunInfo = {
+    model: options.model || modelForStage("extraction"),
+    promptVersion: options.promptVersion || (options.prompt ? `custom-${hash.slice(0, 8)}` : SALES_PROMPT_VERSION),
+    promptHash: hash,
+  };
 
-  const userContent = contextParts.join("\n");
+  const context = meetingContext(transcript, title, summary);
+  if (context.length > SINGLE_PASS_CHARS) {
+    return extractInChunks(client, { transcript, title, summary, instructions, tool, run });
+  }
 
-  // Truncate to ~100k chars to stay within token limits
-  const truncated = userContent.length > 100000
-    ? userContent.slice(0, 100000) + "\n\n[Transcript truncated]"
-    : userContent;
+  const extraction = await runToolExtraction<ExtractionResult>(client, {
+    model: run.model,
+    maxTokens: 4096,
+    prompt: `${instructions}\n\n${context}`,
+    tool,
+  });
+  return { ...extraction, ...run, strategy: "single", chunks: 1, escalatedFor: [] };
+}
 
-  const response = await client.messages.create({
-    model: "claude-haiku-4-5-20251001",
-    max_tokens: 4096,
-    messages: [
-      { role: "user", content: `${EXTRACTION_PROMPT}\n\n${truncated}` },
-    ],
+/**
+ * extractSalesCall under the model policy (see model-policy.ts). Strategic
+ * accounts recognisable from the title or attendee domains go straight to the
+ * escalation model. Everything else runs on the stage model first and is
+ * re-extracted on the escalation model when the first pass fails validation,
+ * mentions a deal size, is a closing call, or names a strategic account. If
+ * the escalated pass fails where the first succeeded, the first result stands.
+ */
+export async function extractSalesCallWithPolicy(
+  client: Anthropic,
+  transcript: string,
+  title: string,
+  summary?: string,
+  options: PolicyExtractionOptions = {}
+): Promise<SalesCallExtraction> {
+  const policy = loadModelPolicy();
+  const { emails, ...extractionOptions } = options;
+  const escalate = async (triggers: EscalationTrigger[]) => ({
+    ...(await extractSalesCall(client, transcript, title, summary, { ...extractionOptions, model: policy.escalation.model })),
+    escalatedFor: triggers,
   });
 
-  const text = (response.content[0] as { type: string; text: string }).text.trim();
-
-  // Strip markdown code fences if present
-  const jsonStr = text
-    .replace(/^```json\s*/i, "")
-    .replace(/^```\s*/i, "")
-    .replace(/\s*```$/i, "")
-    .trim();
-
-  try {
-    const parsed = JSON.parse(jsonStr) as ExtractionResult;
-    return normalizeResult(parsed);
-  } catch (err) {
-    console.error(`  JSON parse error. Raw response (first 500 chars): ${text.slice(0, 500)}`);
-    throw new Error(`Failed to parse extraction result: ${(err as Error).message}`);
-  }
+  const upfront = escalationTriggers({ title, emails }, policy);
+  if (upfront.length > 0) return escalate(upfront);
+
+  const first = await extractSalesCall(client, transcript, title, summary, {
+    ...extractionOptions,
+    model: extractionOptions.model || policy.stages.extraction,
+  });
+  const triggers = escalationTriggers(
+    first.ok
+      ? { dealSize: first.input.deal_size, callType: first.input.call_type, companyName: first.input.company_name }
+      : { validationFailed: first.failure.reason === "validation" },
+    policy
+  );
+  if (triggers.length === 0 || first.model === policy.escalation.model) return first;
+
+  const escalated = await escalate(triggers);
+  // Token usage covers both passes
+  const usage = addUsage(first.usage, escalated.usage);
+  return escalated.ok || !first.ok ? { ...escalated, usage } : { ...first, usage };
 }
 
-function normalizeResult(raw: any): ExtractionResult {
+/**
+ * Map-reduce extraction for long calls: extract each speaker-turn chunk, merge
+ * the lists with duplicates dropped, then settle call-level fields (outcome,
+ * score, ...) in a reconciliation pass over the per-chunk values. Any chunk
+ * that still fails validation fails the whole call, so nothing is half-stored.
+ */
+async function extractInChunks(
+  client: Anthropic,
+  request: {
+    transcript: string;
+    title: string;
+    summary: string | undefined;
+    instructions: string;
+    tool: ExtractionTool;
+    run: ExtractionRunInfo;
+  }
+): Promise<SalesCallExtraction> {
+  const { transcript, title, summary, instructions, tool, run } = request;
+  const { model } = run;
+  const chunks = chunkTranscript(transcript, { maxChars: CHUNK_CHARS, overlapChars: CHUNK_OVERLAP_CHARS });
+  const strategy = { ...run, strategy: "map_reduce" as const, chunks: chunks.length, escalatedFor: [] };
+  const parts: ExtractionResult[] = [];
+  const rawParts: unknown[] = [];
+  let usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  let repaired = false;
+
+  for (const chunk of chunks) {
+    const part = `Part ${chunk.index + 1} of ${chunks.length}`;
+    const extraction = await runToolExtraction<ExtractionResult>(client, {
+      model,
+      maxTokens: 4096,
+      prompt: `${instructions}\n\nThis call is long and has been split into ${chunks.length} overlapping parts. This is ${part.toLowerCase()}: extract only what appears in it, and set call-level fields from this part alone.\n\n${meetingContext(chunk.text, title, summary)}`,
+      tool,
+    });
+    usage = addUsage(usage, extraction.usage);
+    if (!extraction.ok) {
+      const { failure } = extraction;
+      return { ok: false, failure: { ...failure, errors: failure.errors.map((e) => `${part}: ${e}`) }, usage, ...strategy };
+    }
+    repaired = repaired || extraction.repaired;
+    parts.push(extraction.input);
+    rawParts.push(extraction.rawResponse);
+  }
+
+  const merged = mergeExtractions(parts);
+
+  const perPart = parts
+    .map((p, i) => {
+      const fields: Record<string, unknown> = {};
+      for (const field of CALL_LEVEL_FIELDS) fields[field] = p[field];
+      return `Part ${i + 1}: ${JSON.stringify(fields)}`;
+    })
+    .join("\n");
+  const followUps = merged.follow_up_actions.slice(0, 10).map((f) => `- ${f.action_text}`).join("\n");
+  const header = meetingHeader(title, summary).join("\n");
+  const reconciled = await runToolExtraction<CallLevelFields>(client, {
+    model,
+    maxTokens: 1024,
+    prompt: `${RECONCILE_PROMPT}\n\n${header}\n\nPer-part values:\n${perPart}\n\nFollow-up actions across the call:\n${followUps || "(none)"}\n\nEnd of the transcript:\n${transcript.slice(-RECONCILE_TAIL_CHARS)}`,
+    tool: reconcileTool(tool),
+  });
+  usage = addUsage(usage, reconciled.usage);
+  if (!reconciled.ok) {
+    const { failure } = reconciled;
+    return { ok: false, failure: { ...failure, errors: failure.errors.map((e) => `reconcile: ${e}`) }, usage, ...strategy };
+  }
+
   return {
-    call_type: raw.call_type || "discovery",
-    offering_pitched: raw.offering_pitched || "none",
-    company_name: raw.company_name || "Unknown",
-    prospect_names: Array.isArray(raw.prospect_names) ? raw.prospect_names : [],
-    team_members: Array.isArray(raw.team_members) ? raw.team_members : [],
-    tech_stack: Array.isArray(raw.tech_stack) ? raw.tech_stack : [],
-    call_outcome: raw.call_outcome || "neutral",
-    deal_size: raw.deal_size || null,
-    call_quality_score: typeof raw.call_quality_score === "number"
-      ? Math.min(10, Math.max(1, raw.call_quality_score))
-      : 5,
-    quality_rationale: raw.quality_rationale || "",
-    objections: Array.isArray(raw.objections) ? raw.objections : [],
-    prospect_questions: Array.isArray(raw.prospect_questions) ? raw.prospect_questions : [],
-    key_quotes: Array.isArray(raw.key_quotes) ? raw.key_quotes : [],
-    follow_up_actions: Array.isArray(raw.follow_up_actions) ? raw.follow_up_actions : [],
-    counter_responses: Array.isArray(raw.counter_responses) ? raw.counter_responses : [],
+    ok: true,
+    input: { ...merged, ...reconciled.input },
+    repaired: repaired || reconciled.repaired,
+    rawResponse: { parts: rawParts, reconcile: reconciled.rawResponse },
+    usage,
+    ...strategy,
+  };
+}
+
+/**
+ * Extract light partner metadata (organisation, relationship, action items,
+ * attendees) from a partner_call or other meeting.
+ */
+export async function extractPartnerCall(
+  client: Anthropic,
+  transcript: string,
+  title: string,
+  summary?: string
+): Promise<PartnerCallExtraction> {
+  const context = meetingContext(transcript, title, summary, PARTNER_TRANSCRIPT_CHARS);
+  const run: ExtractionRunInfo = {
+    model: modelForStage("partner_extraction"),
+    promptVersion: PARTNER_PROMPT_VERSION,
+    promptHash: promptHash(PARTNER_EXTRACTION_PROMPT, PARTNER_CALL_TOOL.input_schema),
   };
+
+  const extraction = await runToolExtraction<PartnerExtractionResult>(client, {
+    model: run.model,
+    maxTokens: 1024,
+    prompt: `${PARTNER_EXTRACTION_PROMPT}\n\n${context}`,
+    tool: PARTNER_CALL_TOOL,
+  });
+  if (!extraction.ok) return { ...extraction, ...run };
+  // rawResponse keeps what the model sent; only the parsed input is cleaned up
+  const name = extraction.input.partner_name?.trim();
+  const partnerName = name && name.toLowerCase() !== "null" ? name : null;
+  return { ...extraction, ...run, input: { ...extraction.input, partner_name: partnerName } };
 }
@@ -0,0 +1,107 @@
+import { readdirSync, readFileSync } from "fs";
+import { createServer, type Server } from "http";
+import path from "path";
+import type { FirefliesTranscript } from "./sources/fireflies";
+
+/**
+ * Local stand-in for the Fireflies GraphQL API, serving transcripts recorded
+ * as JSON fixtures. Used by src/scripts/fake-fireflies.ts and the client
+ * tests. Fixtures with a null sentences/summary/title/date get a GraphQL error
+ * on that path, the way the real API reports a partially failed transcript.
+ */
+
+const NULLABLE_ON_ERROR = ["sentences", "summary", "title", "date"] as const;
+
+/** A canned non-200 answer, served before any real one */
+export interface InjectedResponse {
+  status: number;
+  headers?: Record<string, string>;
+}
+
+export interface FakeFirefliesOptions {
+  failures?: InjectedResponse[];
+  log?: (line: string) => void;
+}
+
+export interface FakeFireflies {
+  server: Server;
+  /** Requests received so far, injected failures included */
+  stats: { requests: number };
+}
+
+export function loadFixtures(dir: string): FirefliesTranscript[] {
+  const transcripts: FirefliesTranscript[] = [];
+  for (const file of readdirSync(dir)) {
+    if (!file.endsWith(".json")) continue;
+    const parsed = JSON.parse(readFileSync(path.join(dir, file), "utf-8"));
+    transcripts.push(...(Array.isArray(parsed) ? parsed : [parsed]));
+  }
+  // The real API returns newest first
+  return transcripts.sort((a, b) => b.date - a.date);
+}
+
+function fieldErrors(t: FirefliesTranscript, path: (string | number)[]) {
+  return NULLABLE_ON_ERROR.filter((field) => t[field] === null).map((field) => ({
+    message: `Failed to resolve ${field}`,
+    path: [...path, field],
+    extensions: { code: "INTERNAL_SERVER_ERROR" },
+  }));
+}
+
+function resolveQuery(
+  transcripts: FirefliesTranscript[],
+  query: string,
+  variables: Record<string, any>
+): { data: Record<string, unknown>; errors: ReturnType<typeof fieldErrors> } {
+  if (/\btranscript\s*\(/.test(query)) {
+    const transcript = transcripts.find((t) => t.id === variables.id) || null;
+    return { data: { transcript }, errors: transcript ? fieldErrors(transcript, ["transcript"]) : [] };
+  }
+
+  const from = variables.fromDate ? Date.parse(variables.fromDate) : -Infinity;
+  const to = variables.toDate ? Date.parse(variables.toDate) : Infinity;
+  const skip = variables.skip || 0;
+  const limit = variables.limit || 50;
+  const page = transcripts
+    .filter((t) => t.date == null || (t.date >= from && t.date <= to))
+    .slice(skip, skip + limit);
+  return {
+    data: { transcripts: page },
+    errors: page.flatMap((t, i) => fieldErrors(t, ["transcripts", i])),
+  };
+}
+
+/** Not listening yet: call `server.listen(port)` (0 for any free port). */
+export function createFakeFireflies(transcripts: FirefliesTranscript[], options: FakeFirefliesOptions = {}): FakeFireflies {
+  const failures = [...(options.failures || [])];
+  const log = options.log || (() => {});
+  const stats = { requests: 0 };
+
+  const server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      stats.requests++;
+      const failure = failures.shift();
+      if (failure) {
+        log(`  -> injected ${failure.status}`);
+        res.writeHead(failure.status, failure.headers || {});
+        res.end();
+        return;
+      }
+
+      try {
+        const { query, variables } = JSON.parse(body || "{}");
+        const { data, errors } = resolveQuery(transcripts, query || "", variables || {});
+        log(`  ${JSON.stringify(variables || {})}${errors.length ? ` (${errors.length} field errors)` : ""}`);
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(errors.length ? { data, errors } : { data }));
+      } catch (err) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ errors: [{ message: (err as Error).message }] }));
+      }
+    });
+  });
+
+  return { server, stats };
+}
@@ -0,0 +1,100 @@
+import type Anthropic from "@anthropic-ai/sdk";
+import { eq } from "drizzle-orm";
+import type { Database } from "../db";
+import { calls, rawMeetings } from "../db/schema";
+import { enrichCompanySector, type EnrichmentResult } from "./company-sectors";
+import { applyDealSize, flagDealSizeForReview, type DealSizeResolution } from "./deal-size";
+import type { ExtractionResult } from "./extractor";
+import { countPriorCalls, detectSubtype, type SubtypeDecision } from "./meeting-subtype";
+import { groundCallQuotes, type GroundingSummary } from "./quote-grounding";
+import { resolveMeetingSpeakers, type ProspectCandidate, type SpeakerResolution } from "./speakers";
+
+/**
+ * What runs after a sales extraction is stored, shared by process-calls and
+ * re-extract promote: quote grounding, deal size, company sector, subtype
+ * (with prior calls) and speaker labels. The call is already stored, so a
+ * failing step is logged and left for its backfill script rather than thrown.
+ */
+
+/** A sales extraction just written by storeSalesExtraction */
+export interface StoredSalesCall {
+  callId: string;
+  companyId: string;
+  prospects: ProspectCandidate[];
+  transcriptHash: string | null;
+  extraction: ExtractionResult;
+}
+
+export interface SalesCallMeeting {
+  id: string;
+  date: Date | null;
+  /** raw_json with transcript_text filled in, as the classifier saw it */
+  data: any;
+}
+
+export interface SalesCallFollowUp {
+  /** null when grounding failed */
+  grounding: GroundingSummary | null;
+  /** null when the call has no deal size or parsing failed */
+  dealSize: DealSizeResolution | null;
+  dealSizeFlagged: boolean;
+  /** null when enrichment failed */
+  sector: EnrichmentResult | null;
+  subtype: SubtypeDecision;
+  /** null when resolution failed */
+  speakers: SpeakerResolution[] | null;
+}
+
+export async function finishSalesCall(
+  db: Database,
+  client: Anthropic | null,
+  stored: StoredSalesCall,
+  meeting: SalesCallMeeting
+): Promise<SalesCallFollowUp> {
+  let grounding: GroundingSummary | null = null;
+  try {
+    grounding = await groundCallQuotes(db, { id: stored.callId, rawMeetingId: meeting.id, transcriptHash: stored.transcriptHash });
+  } catch (err) {
+    // The quotes stay unverified (verified null) until ground-quotes.ts re-checks them
+    console.warn(`  Quote grounding failed (re-run: ground-quotes.ts --call ${stored.callId}): ${(err as Error).message.slice(0, 100)}`);
+  }
+
+  let dealSize: DealSizeResolution | null = null;
+  let dealSizeFlagged = false;
+  try {
+    dealSize = await applyDealSize(db, client, stored.callId, stored.extraction.deal_size);
+    dealSizeFlagged = dealSize?.needsReview ?? false;
+  } catch (err) {
+    // Don't lose the call over its deal size
+    console.warn(`  Deal size parsing failed, flagged for review: ${(err as Error).message.slice(0, 100)}`);
+    await flagDealSizeForReview(db, stored.callId);
+    dealSizeFlagged = true;
+  }
+
+  // A new call is new evidence for the company's sector
+  let sector: EnrichmentResult | null = null;
+  try {
+    sector = await enrichCompanySector(db, client, stored.companyId);
+  } catch (err) {
+    console.warn(`  Sector enrichment failed: ${(err as Error).message.slice(0, 100)}`);
+  }
+
+  const priorCalls = await countPriorCalls(db, stored.companyId, meeting.date, meeting.id);
+  const subtype = detectSubtype({
+    classification: "sales_call",
+    data: meeting.data,
+    callType: stored.extraction.call_type,
+    priorCalls,
+  });
+  await db.update(rawMeetings).set({ subtype: subtype.subtype, subtypeReason: subtype.reason }).where(eq(rawMeetings.id, meeting.id));
+  await db.update(calls).set({ subtype: subtype.subtype }).where(eq(calls.id, stored.callId));
+
+  let speakers: SpeakerResolution[] | null = null;
+  try {
+    speakers = await resolveMeetingSpeakers(db, meeting.id, { prospects: stored.prospects });
+  } catch (err) {
+    console.warn(`  Speaker resolution failed: ${(err as Error).message.slice(0, 100)}`);
+  }
+
+  return { grounding, dealSize, dealSizeFlagged, sector, subtype, speakers };
+}
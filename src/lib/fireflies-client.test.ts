@@ -0,0 +1,195 @@
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import { after, before, describe, test } from "node:test";
+import { createFakeFireflies, loadFixtures, type InjectedResponse } from "./fake-fireflies-server";
+import { createFirefliesClient, partitionTranscripts, type FirefliesClient } from "./fireflies-client";
+import { TRANSCRIPTS_QUERY, type FirefliesTranscript } from "./sources/fireflies";
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 60_000;
+
+const complete = loadFixtures("fixtures/fireflies");
+const partial = loadFixtures("fixtures/fireflies-partial");
+
+/**
+ * A fake server on a free port answering with `failures` first, and a client
+ * pointed at it that records its sleeps instead of waiting them out.
+ */
+async function setup(transcripts: FirefliesTranscript[], failures: InjectedResponse[] = [], maxRetries = 5) {
+  const fake = createFakeFireflies(transcripts, { failures });
+  await new Promise<void>((resolve) => fake.server.listen(0, "127.0.0.1", resolve));
+  const { port } = fake.server.address() as AddressInfo;
+
+  const delays: number[] = [];
+  const client: FirefliesClient = createFirefliesClient({
+    apiKey: "test",
+    endpoint: `http://127.0.0.1:${port}/graphql`,
+    maxRetries,
+    baseDelayMs: BASE_DELAY_MS,
+    maxDelayMs: MAX_DELAY_MS,
+    sleep: async (ms) => {
+      delays.push(ms);
+    },
+  });
+  const close = () => new Promise<void>((resolve) => fake.server.close(() => resolve()));
+  return { client, delays, stats: fake.stats, close };
+}
+
+async function listTranscripts(client: FirefliesClient) {
+  return client.request<{ transcripts: (FirefliesTranscript | null)[] }>(TRANSCRIPTS_QUERY, { limit: 50, skip: 0 });
+}
+
+describe("retries", () => {
+  test("backs off exponentially on 5xx, then returns the data", async () => {
+    const { client, delays, stats, close } = await setup(complete, [{ status: 503 }, { status: 500 }]);
+    try {
+      const { data } = await listTranscripts(client);
+      assert.equal(data?.transcripts.length, complete.length);
+      assert.equal(stats.requests, 3);
+      assert.equal(delays.length, 2);
+      assert.ok(delays[0] >= BASE_DELAY_MS && delays[0] < 2 * BASE_DELAY_MS, `first delay ${delays[0]}`);
+      assert.ok(delays[1] >= 2 * BASE_DELAY_MS && delays[1] < 3 * BASE_DELAY_MS, `second delay ${delays[1]}`);
+    } finally {
+      await close();
+    }
+  });
+
+  test("backs off on a 429 without rate-limit headers", async () => {
+    const { client, delays, stats, close } = await setup(complete, [{ status: 429 }]);
+    try {
+      const { data } = await listTranscripts(client);
+      assert.equal(data?.transcripts.length, complete.length);
+      assert.equal(stats.requests, 2);
+      assert.equal(delays.length, 1);
+      assert.ok(delays[0] >= BASE_DELAY_MS && delays[0] < 2 * BASE_DELAY_MS, `delay ${delays[0]}`);
+    } finally {
+      await close();
+    }
+  });
+
+  test("gives up after maxRetries", async () => {
+    const failures = Array.from({ length: 4 }, () => ({ status: 502 }));
+    const { client, delays, stats, close } = await setup(complete, failures, 2);
+    try {
+      await assert.rejects(listTranscripts(client), /Fireflies API error: 502/);
+      assert.equal(stats.requests, 3);
+      // Backoff between attempts only, none after the last
+      assert.equal(delays.length, 2);
+    } finally {
+      await close();
+    }
+  });
+
+  test("does not retry a 400", async () => {
+    const { client, delays, stats, close } = await setup(complete, [{ status: 400 }]);
+    try {
+      await assert.rejects(listTranscripts(client), /Fireflies API error: 400/);
+      assert.equal(stats.requests, 1);
+      assert.deepEqual(delays, []);
+    } finally {
+      await close();
+    }
+  });
+});
+
+describe("rate-limit headers", () => {
+  test("waits Retry-After seconds", async () => {
+    const { client, delays, close } = await setup(complete, [{ status: 429, headers: { "Retry-After": "7" } }]);
+    try {
+      await listTranscripts(client);
+      assert.deepEqual(delays, [7000]);
+    } finally {
+      await close();
+    }
+  });
+
+  test("waits until a Retry-After HTTP date", async () => {
+    const at = new Date(Date.now() + 30_000).toUTCString();
+    const { client, delays, close } = await setup(complete, [{ status: 503, headers: { "Retry-After": at } }]);
+    try {
+      await listTranscripts(client);
+      assert.equal(delays.length, 1);
+      // HTTP dates drop the milliseconds
+      assert.ok(delays[0] > 28_000 && delays[0] <= 30_000, `delay ${delays[0]}`);
+    } finally {
+      await close();
+    }
+  });
+
+  test("waits until X-RateLimit-Reset when there is no Retry-After", async () => {
+    const reset = String(Math.floor(Date.now() / 1000) + 20);
+    const { client, delays, close } = await setup(complete, [{ status: 429, headers: { "X-RateLimit-Reset": reset } }]);
+    try {
+      await listTranscripts(client);
+      assert.equal(delays.length, 1);
+      assert.ok(delays[0] > 18_000 && delays[0] <= 20_000, `delay ${delays[0]}`);
+    } finally {
+      await close();
+    }
+  });
+
+  test("caps the requested wait at maxDelayMs", async () => {
+    const { client, delays, close } = await setup(complete, [{ status: 429, headers: { "Retry-After": "3600" } }]);
+    try {
+      await listTranscripts(client);
+      assert.deepEqual(delays, [MAX_DELAY_MS]);
+    } finally {
+      await close();
+    }
+  });
+});
+
+describe("partitionTranscripts", () => {
+  let fake: Awaited<ReturnType<typeof setup>>;
+  before(async () => {
+    fake = await setup(partial);
+  });
+  after(async () => {
+    await fake.close();
+  });
+
+  test("rejects transcripts the API returned with a required field nulled", async () => {
+    const { data, errors } = await listTranscripts(fake.client);
+    const { valid, rejected } = partitionTranscripts("transcripts", data?.transcripts || [], errors);
+
+    assert.deepEqual(
+      valid.map((t) => t.id),
+      ["fixture-complete-002"]
+    );
+    assert.equal(rejected.length, 1);
+    assert.equal(rejected[0].id, "fixture-partial-001");
+    assert.deepEqual(rejected[0].issues, ["missing summary", "summary: Failed to resolve summary"]);
+  });
+
+  test("rejects a nulled transcript, keeping the error that nulled it", () => {
+    const [item] = partial.filter((t) => t.id === "fixture-complete-002");
+    const { valid, rejected } = partitionTranscripts("transcripts", [null, item], [
+      { message: "Internal error", path: ["transcripts", 0] },
+    ]);
+
+    assert.deepEqual(
+      valid.map((t) => t.id),
+      ["fixture-complete-002"]
+    );
+    assert.deepEqual(rejected, [{ id: null, title: null, issues: ["transcript is null", "(transcript): Internal error"] }]);
+  });
+
+  test("rejects a transcript with null sentence entries", () => {
+    const [item] = partial.filter((t) => t.id === "fixture-complete-002");
+    const broken = { ...item, sentences: [item.sentences[0], null] } as unknown as FirefliesTranscript;
+    const { valid, rejected } = partitionTranscripts("transcripts", [broken], []);
+
+    assert.deepEqual(valid, []);
+    assert.deepEqual(rejected[0].issues, ["sentences contain null entries"]);
+  });
+
+  test("keeps a complete transcript with an error on an optional field", () => {
+    const [item] = partial.filter((t) => t.id === "fixture-complete-002");
+    const { valid, rejected } = partitionTranscripts("transcripts", [item], [
+      { message: "Failed to resolve audio_url", path: ["transcripts", 0, "audio_url"] },
+    ]);
+
+    assert.equal(valid.length, 1);
+    assert.deepEqual(rejected, []);
+  });
+});
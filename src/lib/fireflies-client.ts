@@ -0,0 +1,201 @@
+/**
+ * Fireflies GraphQL client with retries, rate-limit handling and per-transcript
+ * validation of partially failed responses.
+ */
+
+export interface FirefliesClientOptions {
+  apiKey: string;
+  endpoint?: string;
+  /** Retries after the first attempt for 429s, 5xx and network errors */
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface GraphQLError {
+  message: string;
+  path?: (string | number)[];
+  extensions?: { code?: string; [key: string]: unknown };
+}
+
+export interface GraphQLResponse<T> {
+  data: T | null;
+  errors: GraphQLError[];
+}
+
+export interface FirefliesClient {
+  request<T = any>(query: string, variables: Record<string, unknown>): Promise<GraphQLResponse<T>>;
+}
+
+const DEFAULT_ENDPOINT = "https://api.fireflies.ai/graphql";
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
+const RATE_LIMIT_CODES = new Set(["too_many_requests", "rate_limited"]);
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+/**
+ * How long the server asked us to wait, in ms. Honours Retry-After (seconds or
+ * HTTP date) and X-RateLimit-Reset (epoch seconds). Null when neither is set.
+ */
+function serverRequestedDelay(headers: Headers, now = Date.now()): number | null {
+  const retryAfter = headers.get("retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - now);
+  }
+  const reset = headers.get("x-ratelimit-reset");
+  if (reset && !Number.isNaN(Number(reset))) {
+    return Math.max(0, Number(reset) * 1000 - now);
+  }
+  return null;
+}
+
+export function createFirefliesClient(options: FirefliesClientOptions): FirefliesClient {
+  const endpoint = options.endpoint || DEFAULT_ENDPOINT;
+  const maxRetries = options.maxRetries ?? 5;
+  const baseDelayMs = options.baseDelayMs ?? 1000;
+  const maxDelayMs = options.maxDelayMs ?? 60_000;
+  const sleep = options.sleep || defaultSleep;
+
+  // Set when the last response said the quota is used up
+  let notBefore = 0;
+
+  const backoff = (attempt: number) =>
+    Math.min(maxDelayMs, baseDelayMs * 2 ** attempt + Math.random() * baseDelayMs);
+
+  return {
+    async request<T>(query: string, variables: Record<string, unknown>): Promise<GraphQLResponse<T>> {
+      let lastError: Error | null = null;
+
+      // No sleep after the last attempt: nothing is retried after it
+      for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        const wait = notBefore - Date.now();
+        if (wait > 0) await sleep(Math.min(wait, maxDelayMs));
+
+        let response: Response;
+        try {
+          response = await fetch(endpoint, {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              Authorization: `Bearer ${options.apiKey}`,
+            },
+            body: JSON.stringify({ query, variables }),
+          });
+        } catch (err) {
+          lastError = err as Error;
+          if (attempt === maxRetries) break;
+          console.warn(`  Fireflies network error (attempt ${attempt + 1}): ${lastError.message}`);
+          await sleep(backoff(attempt));
+          continue;
+        }
+
+        if (response.headers.get("x-ratelimit-remaining") === "0") {
+          const reset = serverRequestedDelay(response.headers);
+          if (reset) notBefore = Date.now() + reset;
+        }
+
+        if (RETRYABLE_STATUS.has(response.status)) {
+          lastError = new Error(`Fireflies API error: ${response.status} ${response.statusText}`);
+          if (attempt === maxRetries) break;
+          const delay = Math.min(maxDelayMs, serverRequestedDelay(response.headers) ?? backoff(attempt));
+          console.warn(`  Fireflies ${response.status} (attempt ${attempt + 1}), retrying in ${Math.round(delay / 1000)}s`);
+          await sleep(delay);
+          continue;
+        }
+
+        if (!response.ok) {
+          throw new Error(`Fireflies API error: ${response.status} ${response.statusText}`);
+        }
+
+        const body = await response.json();
+        const errors: GraphQLError[] = body.errors || [];
+
+        // Fireflies reports rate limiting as a GraphQL error on a 200 as well
+        if (!body.data && errors.some((e) => RATE_LIMIT_CODES.has(e.extensions?.code || ""))) {
+          lastError = new Error(`Fireflies rate limited: ${errors[0].message}`);
+          if (attempt === maxRetries) break;
+          const delay = serverRequestedDelay(response.headers) ?? backoff(attempt);
+          console.warn(`  Fireflies rate limited (attempt ${attempt + 1}), retrying in ${Math.round(delay / 1000)}s`);
+          await sleep(Math.min(maxDelayMs, delay));
+          continue;
+        }
+
+        if (!body.data && errors.length > 0) {
+          throw new Error(`Fireflies GraphQL error: ${errors.map((e) => e.message).join("; ")}`);
+        }
+
+        return { data: body.data, errors };
+      }
+
+      throw lastError || new Error("Fireflies request failed");
+    },
+  };
+}
+
+// ─── Partial-error validation ───────────────────────────────
+
+// A transcript missing any of these is not worth storing: it would be
+// classified and extracted from half a record.
+const REQUIRED_FIELDS = ["id", "title", "date", "sentences", "summary"] as const;
+
+export interface TranscriptIssue {
+  id: string | null;
+  title: string | null;
+  issues: string[];
+}
+
+/**
+ * Split a list field from a (possibly partial) GraphQL response into
+ * transcripts that are complete and ones that came back with required fields
+ * nulled, either outright or by an error whose path points into them.
+ */
+export function partitionTranscripts<T extends Record<string, any>>(
+  listField: string,
+  items: (T | null)[],
+  errors: GraphQLError[]
+): { valid: T[]; rejected: TranscriptIssue[] } {
+  const errorsByIndex = new Map<number, string[]>();
+  for (const err of errors) {
+    if (err.path?.[0] !== listField || typeof err.path[1] !== "number") continue;
+    const field = err.path.slice(2).join(".") || "(transcript)";
+    const list = errorsByIndex.get(err.path[1]) || [];
+    list.push(`${field}: ${err.message}`);
+    errorsByIndex.set(err.path[1], list);
+  }
+
+  const valid: T[] = [];
+  const rejected: TranscriptIssue[] = [];
+  items.forEach((item, index) => {
+    const issues = validateTranscript(item);
+    const pathErrors = errorsByIndex.get(index) || [];
+    // Errors on optional fields only matter if they nulled something required
+    if (issues.length > 0) {
+      rejected.push({
+        id: item?.id ?? null,
+        title: item?.title ?? null,
+        issues: [...issues, ...pathErrors],
+      });
+    } else {
+      valid.push(item as T);
+    }
+  });
+  return { valid, rejected };
+}
+
+export function validateTranscript(item: Record<string, any> | null): string[] {
+  if (!item) return ["transcript is null"];
+  const issues: string[] = [];
+  for (const field of REQUIRED_FIELDS) {
+    if (item[field] === null || item[field] === undefined) issues.push(`missing ${field}`);
+  }
+  if (Array.isArray(item.sentences) && item.sentences.some((s: any) => s == null || s.text == null)) {
+    issues.push("sentences contain null entries");
+  }
+  return issues;
+}
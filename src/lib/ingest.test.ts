@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { compareWithStored, contentHash } from "./ingest";
+import { loadFixtures } from "./fake-fireflies-server";
+import { toCanonical } from "./sources/fireflies";
+import { buildTranscriptText } from "./transcript-sentences";
+import { transcriptHash } from "./transcript-store";
+
+const [transcript] = loadFixtures("fixtures/fireflies");
+
+/**
+ * raw_json as pull-fireflies.ts stored it before canonical meetings: the whole
+ * Fireflies transcript minus sentences, with the text inline and no hashes.
+ */
+function baselineRow() {
+  const { sentences, ...metadataOnly } = transcript;
+  return {
+    rawJson: {
+      ...metadataOnly,
+      sentence_count: sentences.length,
+      transcript_text: sentences.map((s) => `${s.speaker_name}: ${s.text}`).join("\n"),
+    },
+    transcriptHash: null,
+    contentHash: null,
+  };
+}
+
+describe("compareWithStored", () => {
+  test("treats a baseline row as unchanged when a pull returns the same meeting", () => {
+    const meeting = toCanonical(transcript);
+    assert.deepEqual(compareWithStored(baselineRow(), meeting), { unchanged: true, changedFields: [] });
+  });
+
+  test("reports only canonical fields that really changed on a baseline row", () => {
+    const meeting = { ...toCanonical(transcript), title: "Acme audit discovery (renamed)" };
+    assert.deepEqual(compareWithStored(baselineRow(), meeting), { unchanged: false, changedFields: ["title"] });
+  });
+
+  test("reports an edited transcript on a row whose text moved to the transcripts store", () => {
+    const meeting = toCanonical(transcript);
+    const { transcript_text, ...rawJson } = baselineRow().rawJson;
+    const stored = { rawJson, transcriptHash: transcriptHash(transcript_text), contentHash: null };
+    const edited = { ...meeting, sentences: meeting.sentences.map((s, i) => (i === 0 ? { ...s, text: "Hi." } : s)) };
+    assert.deepEqual(compareWithStored(stored, edited), { unchanged: false, changedFields: ["transcript"] });
+  });
+
+  test("uses the content hash once a row has one, flagging speaker or timing changes", () => {
+    const meeting = toCanonical(transcript);
+    const { sentences, ...metadata } = meeting;
+    const stored = {
+      rawJson: { ...metadata, sentence_count: sentences.length },
+      transcriptHash: transcriptHash(buildTranscriptText(sentences)),
+      contentHash: contentHash(meeting),
+    };
+    assert.deepEqual(compareWithStored(stored, meeting), { unchanged: true, changedFields: [] });
+
+    const retimed = { ...meeting, sentences: sentences.map((s) => ({ ...s, start_time: s.start_time + 1 })) };
+    assert.deepEqual(compareWithStored(stored, retimed), { unchanged: false, changedFields: ["sentences"] });
+  });
+});
@@ -0,0 +1,223 @@
+import { createHash } from "crypto";
+import { and, eq, isNull, lte, or } from "drizzle-orm";
+import type { Database } from "../db";
+import { rawMeetings } from "../db/schema";
+import { deleteExtractionForMeeting } from "./call-store";
+import type { CanonicalMeeting } from "./sources/types";
+import { buildTranscriptText, storeMeetingSentences } from "./transcript-sentences";
+import { putTranscript, transcriptHash } from "./transcript-store";
+
+// ─── Storage ────────────────────────────────────────────────
+
+export type StoreResult = "new" | "updated" | "restored" | "unchanged";
+
+export interface StoreOutcome {
+  result: StoreResult;
+  rawMeetingId: string;
+  /** Top-level raw_json keys (plus "transcript" / "sentences") that differ from the stored copy */
+  changedFields: string[];
+}
+
+/**
+ * JSON.stringify with sorted keys, so a value read back from jsonb (which
+ * reorders keys) compares equal to the freshly built one.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter((k) => (value as Record<string, unknown>)[k] !== undefined)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stableStringify((value as Record<string, unknown>)[k])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/** Hash of everything a source delivered for a meeting, sentences included. */
+export function contentHash(meeting: CanonicalMeeting): string {
+  return createHash("sha256").update(stableStringify(meeting)).digest("hex");
+}
+
+function changedKeys(before: Record<string, unknown>, after: Record<string, unknown>): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return Array.from(keys)
+    .filter((k) => stableStringify(before[k]) !== stableStringify(after[k]))
+    .sort();
+}
+
+/**
+ * The canonical metadata of a meeting or a stored raw_json, defaulted the way
+ * the source adapters default it. Rows stored before the canonical shape hold
+ * the raw Fireflies transcript (dateString, audio_url, fireflies_users, no
+ * source or external_id), so comparisons look at these fields only.
+ */
+function canonicalMetadata(value: object): Record<string, unknown> {
+  const json = value as Record<string, any>;
+  return {
+    title: json.title ?? null,
+    date: json.date ?? null,
+    duration: json.duration ?? null,
+    transcript_url: json.transcript_url || null,
+    host_email: json.host_email || null,
+    organizer_email: json.organizer_email || null,
+    participants: json.participants || [],
+    meeting_attendees: json.meeting_attendees || [],
+    summary: json.summary || {},
+  };
+}
+
+/** The raw_meetings columns an incoming meeting is compared against */
+export interface StoredMeeting {
+  rawJson: unknown;
+  transcriptHash: string | null;
+  contentHash: string | null;
+}
+
+/**
+ * Whether `meeting` differs from what a raw_meetings row holds, and in which
+ * raw_json fields (plus "transcript" / "sentences"). Rows stored before content
+ * hashing are compared on their canonical fields and transcript text, so an
+ * upgrade doesn't report (and re-queue) every meeting already held.
+ */
+export function compareWithStored(
+  prior: StoredMeeting,
+  meeting: CanonicalMeeting
+): { unchanged: boolean; changedFields: string[] } {
+  // Rows from before the transcripts store still carry the text inline
+  const { transcript_text: legacyText, ...priorJson } = (prior.rawJson as Record<string, any>) || {};
+  const priorTextHash = prior.transcriptHash ?? (legacyText ? transcriptHash(legacyText) : null);
+  const transcriptText = buildTranscriptText(meeting.sentences);
+  const textHash = transcriptText ? transcriptHash(transcriptText) : null;
+
+  const changedFields = changedKeys(canonicalMetadata(priorJson), canonicalMetadata(meeting));
+  if (priorTextHash !== textHash) changedFields.push("transcript");
+
+  if (!prior.contentHash) return { unchanged: changedFields.length === 0, changedFields };
+  if (prior.contentHash === contentHash(meeting)) return { unchanged: true, changedFields: [] };
+  // Text can match while speakers or timings moved
+  if (changedFields.length === 0) changedFields.push("sentences");
+  return { unchanged: false, changedFields };
+}
+
+/**
+ * Upsert a canonical meeting into raw_meetings, keyed by (source, external_id).
+ * A null processed_at is what queues a meeting for process-calls.ts: new rows
+ * start that way, and a row whose content hash changed (or that comes back
+ * after being tombstoned) is reset to it so its calls data is re-extracted.
+ */
+export async function storeMeeting(db: Database, meeting: CanonicalMeeting): Promise<StoreOutcome> {
+  // Sentences go to transcript_sentences and the flattened text to the
+  // transcripts store; raw_json keeps only metadata
+  const { sentences, ...metadataOnly } = meeting;
+  const transcriptText = buildTranscriptText(sentences);
+  const hash = contentHash(meeting);
+
+  // Keep sentences count in metadata for reference
+  const storedJson = {
+    ...metadataOnly,
+    sentence_count: sentences.length,
+  };
+
+  const existing = await db
+    .select({
+      id: rawMeetings.id,
+      rawJson: rawMeetings.rawJson,
+      transcriptHash: rawMeetings.transcriptHash,
+      contentHash: rawMeetings.contentHash,
+      deletedAt: rawMeetings.deletedAt,
+    })
+    .from(rawMeetings)
+    .where(and(eq(rawMeetings.source, meeting.source), eq(rawMeetings.externalId, meeting.external_id)))
+    .limit(1);
+  const prior = existing[0];
+
+  const comparison = prior ? compareWithStored(prior, meeting) : null;
+
+  if (prior && !prior.deletedAt && comparison!.unchanged) {
+    // Rows stored before hashing: record the hash now that they've been compared once
+    if (!prior.contentHash) {
+      await db.update(rawMeetings).set({ contentHash: hash }).where(eq(rawMeetings.id, prior.id));
+    }
+    return { result: "unchanged", rawMeetingId: prior.id, changedFields: [] };
+  }
+
+  // The content hash is only worth anything alongside the sentences it covers:
+  // if storing them fails, nothing is written and a retry sees the meeting as changed
+  const storedId = await db.transaction(async (tx) => {
+    const values = {
+      title: meeting.title,
+      date: meeting.date ? new Date(meeting.date) : null,
+      duration: meeting.duration ? Math.round(meeting.duration) : null,
+      rawJson: storedJson,
+      transcriptHash: await putTranscript(tx, transcriptText),
+      contentHash: hash,
+      deletedAt: null,
+      classification: null,
+      classificationVerdict: null,
+      processedAt: null,
+    };
+
+    const stored = await tx
+      .insert(rawMeetings)
+      .values({ source: meeting.source, externalId: meeting.external_id, ...values })
+      .onConflictDoUpdate({
+        target: [rawMeetings.source, rawMeetings.externalId],
+        set: values,
+      })
+      .returning({ id: rawMeetings.id });
+
+    await storeMeetingSentences(tx, stored[0].id, meeting);
+    return stored[0].id;
+  });
+
+  if (!prior) return { result: "new", rawMeetingId: storedId, changedFields: [] };
+  return {
+    result: prior.deletedAt ? "restored" : "updated",
+    rawMeetingId: storedId,
+    changedFields: comparison!.changedFields,
+  };
+}
+
+// ─── Tombstones ─────────────────────────────────────────────
+
+export interface Tombstoned {
+  rawMeetingId: string;
+  externalId: string;
+  title: string | null;
+  callsRemoved: number;
+}
+
+/**
+ * Mark meetings of a source that a complete listing no longer returned as
+ * deleted, and drop what was extracted from them. Only meetings dated up to
+ * `listedUntil` are considered, since later ones can't have been listed.
+ */
+export async function tombstoneMissing(
+  db: Database,
+  source: string,
+  listedIds: Set<string>,
+  listedUntil: Date
+): Promise<Tombstoned[]> {
+  const live = await db
+    .select({ id: rawMeetings.id, externalId: rawMeetings.externalId, title: rawMeetings.title })
+    .from(rawMeetings)
+    .where(
+      and(
+        eq(rawMeetings.source, source),
+        isNull(rawMeetings.deletedAt),
+        or(isNull(rawMeetings.date), lte(rawMeetings.date, listedUntil))
+      )
+    );
+
+  const tombstoned: Tombstoned[] = [];
+  for (const m of live) {
+    if (listedIds.has(m.externalId)) continue;
+    const callsRemoved = await deleteExtractionForMeeting(db, m.id);
+    await db.update(rawMeetings).set({ deletedAt: new Date() }).where(eq(rawMeetings.id, m.id));
+    tombstoned.push({ rawMeetingId: m.id, externalId: m.externalId, title: m.title, callsRemoved });
+  }
+  return tombstoned;
+}
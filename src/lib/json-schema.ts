@@ -0,0 +1,92 @@
+/**
+ * The subset of JSON Schema used for LLM tool definitions, plus a validator
+ * for it. Tool input from the model is only trusted after validateSchema
+ * returns no errors.
+ */
+
+export type JsonType = "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+
+export interface JsonSchema {
+  type?: JsonType | JsonType[];
+  description?: string;
+  enum?: readonly (string | number | null)[];
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+}
+
+function typeOf(value: unknown): JsonType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value as JsonType;
+}
+
+function matchesType(value: unknown, type: JsonType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+function describe(value: unknown): string {
+  const json = JSON.stringify(value);
+  return json === undefined ? String(value) : json.length > 60 ? `${json.slice(0, 57)}...` : json;
+}
+
+/**
+ * Validate `value` against `schema`. Returns one message per problem, each
+ * prefixed with the path to the offending field (e.g. `objections[1].type_key`),
+ * so they can be sent back to the model in a repair request.
+ */
+export function validateSchema(schema: JsonSchema, value: unknown, path = "$"): string[] {
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(value, t))) {
+      return [`${path}: expected ${types.join(" or ")}, got ${describe(value)}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number | null)) {
+    return [`${path}: ${describe(value)} is not one of ${schema.enum.map((e) => JSON.stringify(e)).join(", ")}`];
+  }
+
+  const errors: string[] = [];
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: ${value} is below the minimum ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: ${value} is above the maximum ${schema.maximum}`);
+  }
+
+  if (typeof value === "string" && schema.minLength !== undefined && value.trim().length < schema.minLength) {
+    errors.push(`${path}: must not be empty`);
+  }
+  if (typeof value === "string" && schema.maxLength !== undefined && value.length > schema.maxLength) {
+    errors.push(`${path}: is ${value.length} characters, the maximum is ${schema.maxLength}`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => errors.push(...validateSchema(schema.items!, item, `${path}[${i}]`)));
+  }
+
+  if (typeOf(value) === "object") {
+    const obj = value as Record<string, unknown>;
+    const prefix = path === "$" ? "" : `${path}.`;
+    for (const key of schema.required || []) {
+      if (!(key in obj)) errors.push(`${prefix}${key}: is required`);
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      const childSchema = schema.properties?.[key];
+      if (childSchema) {
+        errors.push(...validateSchema(childSchema, child, `${prefix}${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${prefix}${key}: is not an allowed field`);
+      }
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,246 @@
+import type { Database } from "../db";
+import { classifierFieldWeights, classifierKeywords, classifierThresholds } from "../db/schema";
+import { CLASSIFICATIONS, type Classification, type RawMeetingData } from "./classifier";
+
+/**
+ * Weighted keyword rules for the rule-based classifier. The defaults below
+ * are what seed.ts writes to the classifier_* tables; once seeded, the tables
+ * are the source of truth and can be tuned in place.
+ */
+
+export type MatchType = "word" | "prefix";
+
+export const TAXONOMY_FIELDS = [
+  "title",
+  "meeting_type",
+  "keywords",
+  "overview",
+  "short_summary",
+  "topics_discussed",
+] as const;
+export type TaxonomyField = (typeof TAXONOMY_FIELDS)[number];
+
+export interface TaxonomyKeyword {
+  classification: Classification;
+  keyword: string;
+  weight: number;
+  /** word: whole words/phrases only; prefix: word start, e.g. "integrat" */
+  matchType: MatchType;
+}
+
+export interface ClassThreshold {
+  /** Score needed (and beating every other class) for a high-confidence verdict */
+  minScore: number;
+  /** Score accepted as a low-confidence last resort when an external participant is present */
+  fallbackScore: number | null;
+}
+
+export interface KeywordTaxonomy {
+  keywords: TaxonomyKeyword[];
+  thresholds: Record<Classification, ClassThreshold>;
+  fieldWeights: Record<TaxonomyField, number>;
+}
+
+export interface KeywordScores {
+  scores: Record<Classification, number>;
+  matchedKeywords: Record<Classification, string[]>;
+}
+
+const kw = (classification: Classification, keyword: string, weight = 1, matchType: MatchType = "word"): TaxonomyKeyword => ({
+  classification,
+  keyword,
+  weight,
+  matchType,
+});
+
+export const DEFAULT_TAXONOMY: KeywordTaxonomy = {
+  keywords: [
+    kw("sales_call", "audit", 1.5),
+    kw("sales_call", "security audit", 2),
+    kw("sales_call", "smart contract"),
+    kw("sales_call", "retainer", 2),
+    kw("sales_call", "lifecycle"),
+    kw("sales_call", "pricing"),
+    kw("sales_call", "proposal"),
+    kw("sales_call", "scope"),
+    kw("sales_call", "timeline", 0.5),
+    kw("sales_call", "engagement"),
+    kw("sales_call", "quote"),
+    kw("sales_call", "budget"),
+    kw("sales_call", "deal"),
+    kw("sales_call", "contract", 0.5),
+    kw("sales_call", "sow", 2),
+    kw("sales_call", "statement of work", 2),
+    kw("sales_call", "penetration test"),
+    kw("sales_call", "code review"),
+    kw("sales_call", "security review"),
+    // Generic in this business: weak evidence on their own
+    kw("sales_call", "coverage", 0.25),
+    kw("sales_call", "protocol", 0.25),
+    kw("sales_call", "defi", 0.25),
+
+    kw("partner_call", "partnership", 2),
+    kw("partner_call", "vendor", 1.5),
+    kw("partner_call", "integrat", 1, "prefix"),
+    kw("partner_call", "conference", 1.5),
+    kw("partner_call", "event"),
+    kw("partner_call", "sponsor", 1.5, "prefix"),
+    kw("partner_call", "collaborat", 1, "prefix"),
+    kw("partner_call", "referral", 1.5),
+    kw("partner_call", "reseller", 2),
+
+    kw("internal", "standup", 2),
+    kw("internal", "stand-up", 2),
+    kw("internal", "sprint"),
+    kw("internal", "retro", 1.5),
+    kw("internal", "retrospective", 1.5),
+    kw("internal", "1:1", 2),
+    kw("internal", "one on one", 2),
+    kw("internal", "team sync", 2),
+    kw("internal", "all hands", 2),
+    kw("internal", "weekly sync", 1.5),
+
+    kw("other", "interview", 2),
+    kw("other", "recruit", 2, "prefix"),
+    kw("other", "hiring", 1.5),
+    kw("other", "candidate", 1.5),
+    kw("other", "counsel", 1.5),
+    kw("other", "legal"),
+  ],
+  thresholds: {
+    sales_call: { minScore: 3, fallbackScore: 1 },
+    partner_call: { minScore: 2, fallbackScore: null },
+    internal: { minScore: 2, fallbackScore: null },
+    other: { minScore: 2, fallbackScore: null },
+  },
+  fieldWeights: {
+    title: 1.5,
+    meeting_type: 1.5,
+    keywords: 1,
+    overview: 1,
+    short_summary: 1,
+    topics_discussed: 1,
+  },
+};
+
+// ─── Matching ───────────────────────────────────────────────
+
+const patternCache = new Map<string, RegExp>();
+
+function keywordPattern(keyword: string, matchType: MatchType): RegExp {
+  const key = `${matchType}:${keyword}`;
+  let pattern = patternCache.get(key);
+  if (!pattern) {
+    const body = keyword
+      .trim()
+      .split(/\s+/)
+      .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+      .join("\\s+");
+    // Boundaries on letters/digits rather than \b, so "1:1" and "stand-up" work
+    const end = matchType === "word" ? "(?![a-z0-9])" : "";
+    pattern = new RegExp(`(?<![a-z0-9])${body}${end}`, "i");
+    patternCache.set(key, pattern);
+  }
+  return pattern;
+}
+
+export function matchesKeyword(text: string, keyword: string, matchType: MatchType = "word"): boolean {
+  return keywordPattern(keyword, matchType).test(text);
+}
+
+export function fieldTexts(data: RawMeetingData): Record<TaxonomyField, string> {
+  return {
+    title: data.title || "",
+    meeting_type: data.summary?.meeting_type || "",
+    keywords: data.summary?.keywords || "",
+    overview: data.summary?.overview || "",
+    short_summary: data.summary?.short_summary || "",
+    topics_discussed: data.summary?.topics_discussed || "",
+  };
+}
+
+/**
+ * Score a meeting against the taxonomy. A keyword counts once, at its weight
+ * times the weight of the strongest field it appears in, so summaries that
+ * repeat each other don't multiply the evidence.
+ */
+export function scoreMeeting(data: RawMeetingData, taxonomy: KeywordTaxonomy): KeywordScores {
+  const texts = fieldTexts(data);
+  const scores: Record<Classification, number> = { sales_call: 0, partner_call: 0, internal: 0, other: 0 };
+  const matchedKeywords: Record<Classification, string[]> = { sales_call: [], partner_call: [], internal: [], other: [] };
+
+  for (const k of taxonomy.keywords) {
+    const pattern = keywordPattern(k.keyword, k.matchType);
+    let best = 0;
+    for (const field of TAXONOMY_FIELDS) {
+      if (texts[field] && pattern.test(texts[field])) {
+        best = Math.max(best, taxonomy.fieldWeights[field] ?? 1);
+      }
+    }
+    if (best > 0) {
+      scores[k.classification] += k.weight * best;
+      matchedKeywords[k.classification].push(k.keyword);
+    }
+  }
+
+  for (const cls of Object.keys(scores) as Classification[]) {
+    scores[cls] = Math.round(scores[cls] * 100) / 100;
+  }
+  return { scores, matchedKeywords };
+}
+
+// ─── DB ─────────────────────────────────────────────────────
+
+function isClassification(value: string): value is Classification {
+  return (CLASSIFICATIONS as string[]).includes(value);
+}
+
+/** Rows whose `key` passes `valid`; the rest are skipped with a warning. */
+function knownRows<T>(rows: T[], table: string, key: (row: T) => string, valid: (value: string) => boolean): T[] {
+  const known = rows.filter((row) => valid(key(row)));
+  for (const row of rows) {
+    if (!known.includes(row)) console.warn(`  Warning: ignoring ${table} row with unknown value "${key(row)}"`);
+  }
+  return known;
+}
+
+/**
+ * Read the taxonomy from the classifier_* tables. Thresholds and field weights
+ * missing from the tables keep their defaults; if no keywords are stored yet
+ * the default keyword list is used. Rows naming an unknown classification or
+ * field are ignored.
+ */
+export async function loadTaxonomy(db: Database): Promise<KeywordTaxonomy> {
+  const [allKeywordRows, allThresholdRows, allFieldRows] = await Promise.all([
+    db.select().from(classifierKeywords),
+    db.select().from(classifierThresholds),
+    db.select().from(classifierFieldWeights),
+  ]);
+  const keywordRows = knownRows(allKeywordRows, "classifier_keywords", (r) => r.classification, isClassification);
+  const thresholdRows = knownRows(allThresholdRows, "classifier_thresholds", (r) => r.classification, isClassification);
+  const fieldRows = knownRows(allFieldRows, "classifier_field_weights", (r) => r.field, (f) =>
+    (TAXONOMY_FIELDS as readonly string[]).includes(f)
+  );
+
+  const thresholds = { ...DEFAULT_TAXONOMY.thresholds };
+  for (const row of thresholdRows) {
+    thresholds[row.classification as Classification] = { minScore: row.minScore, fallbackScore: row.fallbackScore };
+  }
+  const fieldWeights = { ...DEFAULT_TAXONOMY.fieldWeights };
+  for (const row of fieldRows) {
+    fieldWeights[row.field as TaxonomyField] = row.weight;
+  }
+
+  return {
+    keywords: keywordRows.length > 0
+      ? keywordRows.map((row) => ({
+          classification: row.classification as Classification,
+          keyword: row.keyword,
+          weight: row.weight,
+          matchType: row.matchType as MatchType,
+        }))
+      : DEFAULT_TAXONOMY.keywords,
+    thresholds,
+    fieldWeights,
+  };
+}
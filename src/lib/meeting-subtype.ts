@@ -0,0 +1,117 @@
+import { and, count, eq, lt, ne, or, isNull } from "drizzle-orm";
+import type { Database } from "../db";
+import { calls } from "../db/schema";
+import type { Classification, RawMeetingData } from "./classifier";
+import { fieldTexts, matchesKeyword } from "./keyword-taxonomy";
+
+/**
+ * Finer-grained label under a classification, so renewals and check-ins with
+ * existing customers don't skew new-business win rates and objection stats.
+ *   sales_call    → new_business | existing_customer | renewal_upsell
+ *   partner_call,
+ *   other         → recruiting | investor, or none
+ */
+export const MEETING_SUBTYPES = [
+  "new_business",
+  "existing_customer",
+  "renewal_upsell",
+  "recruiting",
+  "investor",
+] as const;
+export type MeetingSubtype = (typeof MEETING_SUBTYPES)[number];
+
+export interface SubtypeInput {
+  classification: Classification;
+  data: RawMeetingData;
+  /** call_type from sales extraction, if any */
+  callType?: string | null;
+  /** Earlier calls with the same company */
+  priorCalls: number;
+}
+
+export interface SubtypeDecision {
+  subtype: MeetingSubtype | null;
+  /** Which signal decided it, stored next to the subtype for review */
+  reason: string;
+}
+
+// Prefix matches are marked with a trailing *
+const RENEWAL_KEYWORDS = [
+  "renewal", "renew*", "upsell", "retainer extension", "extend the retainer",
+  "additional scope", "another audit", "next audit", "follow-up audit",
+];
+const CUSTOMER_KEYWORDS = [
+  "check-in", "check in", "qbr", "quarterly review", "last audit", "previous audit",
+  "fix review", "remediation", "audit report", "current retainer", "ongoing retainer",
+];
+const RECRUITING_KEYWORDS = ["interview", "recruit*", "hiring", "candidate", "offer letter"];
+const INVESTOR_KEYWORDS = [
+  "investor", "fundrais*", "term sheet", "valuation", "cap table",
+  "seed round", "series a", "series b", "board meeting",
+];
+
+function matched(data: RawMeetingData, keywords: string[]): string[] {
+  const text = Object.values(fieldTexts(data)).join("\n");
+  return keywords.filter((k) =>
+    k.endsWith("*") ? matchesKeyword(text, k.slice(0, -1), "prefix") : matchesKeyword(text, k)
+  );
+}
+
+export function detectSubtype(input: SubtypeInput): SubtypeDecision {
+  const { classification, data, callType, priorCalls } = input;
+
+  if (classification === "sales_call") {
+    const renewal = matched(data, RENEWAL_KEYWORDS);
+    if (renewal.length > 0) {
+      return { subtype: "renewal_upsell", reason: `renewal_keywords: ${renewal.join(", ")}` };
+    }
+
+    // Prior calls alone only mean an open sales cycle; it takes a check-in or
+    // customer talk on top to make the company an existing customer
+    const customer = matched(data, CUSTOMER_KEYWORDS);
+    const checkIn = callType === "check_in";
+    if (priorCalls > 0 && (checkIn || customer.length > 0)) {
+      const signal = checkIn ? "check_in" : `customer_keywords: ${customer.join(", ")}`;
+      return { subtype: "existing_customer", reason: `prior_calls(${priorCalls}) + ${signal}` };
+    }
+    if (checkIn && customer.length > 0) {
+      return { subtype: "existing_customer", reason: `check_in + customer_keywords: ${customer.join(", ")}` };
+    }
+    return {
+      subtype: "new_business",
+      reason: priorCalls > 0 ? `open_sales_cycle(${priorCalls} prior calls)` : "no_prior_calls",
+    };
+  }
+
+  if (classification === "partner_call" || classification === "other") {
+    const investor = matched(data, INVESTOR_KEYWORDS);
+    if (investor.length > 0) return { subtype: "investor", reason: `investor_keywords: ${investor.join(", ")}` };
+    const recruiting = matched(data, RECRUITING_KEYWORDS);
+    if (recruiting.length > 0) return { subtype: "recruiting", reason: `recruiting_keywords: ${recruiting.join(", ")}` };
+  }
+
+  return { subtype: null, reason: "none" };
+}
+
+/**
+ * Calls with the same company before `before` (all of them when the meeting
+ * has no date), ignoring those extracted from `rawMeetingId` itself.
+ */
+export async function countPriorCalls(
+  db: Database,
+  companyId: string,
+  before: Date | null,
+  rawMeetingId: string
+): Promise<number> {
+  const rows = await db
+    .select({ count: count() })
+    .from(calls)
+    .where(
+      and(
+        eq(calls.companyId, companyId),
+        or(isNull(calls.rawMeetingId), ne(calls.rawMeetingId, rawMeetingId)),
+        before ? lt(calls.date, before) : undefined
+      )
+    );
+  return rows[0]?.count ?? 0;
+}
@@ -0,0 +1,118 @@
+import { readFileSync } from "fs";
+import path from "path";
+import defaultConfig from "../../config/model-policy.json";
+import { normalizeForMatch } from "./extraction-merge";
+import { matchesKeyword } from "./keyword-taxonomy";
+
+/**
+ * Which model each pipeline stage uses. Bulk work runs on the cheap stage
+ * model; sales extraction escalates to a stronger one for calls worth the
+ * cost. Policy lives in config/model-policy.json; MODEL_POLICY_PATH points at
+ * a different file without a deploy.
+ */
+
+export const MODEL_STAGES = ["classification", "extraction", "partner_extraction", "objection_discovery", "deal_size", "sector_enrichment"] as const;
+export type ModelStage = (typeof MODEL_STAGES)[number];
+
+export const ESCALATION_TRIGGERS = ["deal_size", "closing_call", "validation_failure", "strategic_account"] as const;
+export type EscalationTrigger = (typeof ESCALATION_TRIGGERS)[number];
+
+export interface StrategicAccount {
+  name: string;
+  /** Email domains that identify the account before extraction names it */
+  domains?: string[];
+}
+
+export interface ModelPolicy {
+  stages: Record<ModelStage, string>;
+  escalation: {
+    model: string;
+    triggers: EscalationTrigger[];
+    strategicAccounts: StrategicAccount[];
+  };
+}
+
+function validatePolicy(config: any, origin: string): ModelPolicy {
+  for (const stage of MODEL_STAGES) {
+    if (typeof config?.stages?.[stage] !== "string" || !config.stages[stage]) {
+      throw new Error(`${origin}: stages.${stage} must name a model`);
+    }
+  }
+  const escalation = config.escalation || {};
+  if (typeof escalation.model !== "string" || !escalation.model) {
+    throw new Error(`${origin}: escalation.model must name a model`);
+  }
+  const triggers: string[] = escalation.triggers || [];
+  for (const trigger of triggers) {
+    if (!(ESCALATION_TRIGGERS as readonly string[]).includes(trigger)) {
+      throw new Error(`${origin}: unknown escalation trigger "${trigger}"`);
+    }
+  }
+  const accounts: StrategicAccount[] = escalation.strategicAccounts || [];
+  for (const account of accounts) {
+    if (!account.name) throw new Error(`${origin}: every strategic account needs a name`);
+  }
+  return {
+    stages: { ...config.stages },
+    escalation: {
+      model: escalation.model,
+      triggers: triggers as EscalationTrigger[],
+      strategicAccounts: accounts.map((a) => ({
+        name: a.name.trim(),
+        domains: (a.domains || []).map((d) => d.trim().toLowerCase().replace(/^@/, "")),
+      })),
+    },
+  };
+}
+
+let cached: ModelPolicy | null = null;
+
+export function loadModelPolicy(): ModelPolicy {
+  if (cached) return cached;
+  const override = process.env.MODEL_POLICY_PATH;
+  cached = override
+    ? validatePolicy(JSON.parse(readFileSync(path.resolve(override), "utf-8")), override)
+    : validatePolicy(defaultConfig, "config/model-policy.json");
+  return cached;
+}
+
+export function modelForStage(stage: ModelStage, policy = loadModelPolicy()): string {
+  return policy.stages[stage];
+}
+
+// ─── Escalation ─────────────────────────────────────────────
+
+export interface AccountHints {
+  companyName?: string | null;
+  title?: string | null;
+  emails?: string[];
+}
+
+/** Strategic account named by the extracted company, the title, or an attendee's email domain. */
+export function findStrategicAccount(hints: AccountHints, policy = loadModelPolicy()): StrategicAccount | null {
+  const company = normalizeForMatch(hints.companyName);
+  const domains = (hints.emails || []).map((e) => e.slice(e.lastIndexOf("@") + 1).toLowerCase());
+  for (const account of policy.escalation.strategicAccounts) {
+    if (company && company === normalizeForMatch(account.name)) return account;
+    if (hints.title && matchesKeyword(hints.title, account.name)) return account;
+    if (account.domains?.some((d) => domains.includes(d))) return account;
+  }
+  return null;
+}
+
+export interface EscalationSignals extends AccountHints {
+  dealSize?: string | null;
+  callType?: string | null;
+  validationFailed?: boolean;
+}
+
+/** Enabled triggers that fire for a call; empty means the stage model's answer stands. */
+export function escalationTriggers(signals: EscalationSignals, policy = loadModelPolicy()): EscalationTrigger[] {
+  const fired: EscalationTrigger[] = [];
+  const enabled = (t: EscalationTrigger) => policy.escalation.triggers.includes(t);
+  if (enabled("deal_size") && signals.dealSize && signals.dealSize.trim() !== "") fired.push("deal_size");
+  if (enabled("closing_call") && signals.callType === "closing") fired.push("closing_call");
+  if (enabled("validation_failure") && signals.validationFailed) fired.push("validation_failure");
+  if (enabled("strategic_account") && findStrategicAccount(signals, policy)) fired.push("strategic_account");
+  return fired;
+}
@@ -0,0 +1,364 @@
+import type Anthropic from "@anthropic-ai/sdk";
+import { and, eq, inArray } from "drizzle-orm";
+import type { Database } from "../db";
+import { callObjections, counterResponses, objectionTypeProposals, objections } from "../db/schema";
+import { normalizeForMatch } from "./extraction-merge";
+import type { ObjectionTypeOption } from "./extractor";
+import { modelForStage } from "./model-policy";
+import { runToolExtraction, type ExtractionTool, type ToolExtraction } from "./tool-extraction";
+
+/**
+ * Find the objection types we're missing. call_objections tagged "other" are
+ * clustered by the words of their quote and context (TF-IDF, cosine); each
+ * big enough cluster is named by the model and stored as a pending proposal.
+ * Approving one adds it to the objections table, which is where the
+ * extraction prompt's list of types comes from, and moves matching "other"
+ * rows over.
+ */
+
+export const OTHER_TYPE_KEY = "other";
+
+export interface ClusterOptions {
+  /** Cosine similarity to a cluster's centroid needed to join it */
+  threshold: number;
+  /** Smallest cluster worth proposing a type for */
+  minSize: number;
+}
+
+export const DEFAULT_CLUSTER_OPTIONS: ClusterOptions = { threshold: 0.15, minSize: 3 };
+
+export interface OtherObjection {
+  id: string;
+  callId: string;
+  quote: string;
+  context: string;
+}
+
+export interface ObjectionCluster {
+  members: OtherObjection[];
+  /** Heaviest centroid terms, to eyeball what the cluster is about */
+  topTerms: string[];
+}
+
+export interface ObjectionTypeProposal {
+  coherent: boolean;
+  same_as_existing: string | null;
+  type_key: string;
+  display_name: string;
+  description: string;
+}
+
+// ─── Clustering ─────────────────────────────────────────────
+
+type Vector = Map<string, number>;
+
+// Filler that would otherwise dominate short spoken quotes
+const STOPWORDS = new Set(
+  (
+    "the and for are but not you your yours our ours they them their that this with have has had was were will would " +
+    "can could should just like yeah think know really going get got what when where which who how there here then " +
+    "than also about into from out some any all its well right kind sort thing things lot much very been being " +
+    "want need maybe okay one two don"
+  ).split(" ")
+);
+
+function terms(text: string): string[] {
+  return normalizeForMatch(text)
+    .split(" ")
+    .filter((t) => t.length > 2 && !STOPWORDS.has(t));
+}
+
+/** The quote counts double: it's what the prospect said, the context is the model's gloss. */
+function documentText(o: OtherObjection): string {
+  return `${o.quote} ${o.quote} ${o.context}`;
+}
+
+function tfidfVectors(docs: string[]): Vector[] {
+  const docTerms = docs.map(terms);
+  const docFreq = new Map<string, number>();
+  for (const list of docTerms) {
+    for (const term of Array.from(new Set(list))) docFreq.set(term, (docFreq.get(term) || 0) + 1);
+  }
+  return docTerms.map((list) => {
+    const vector: Vector = new Map();
+    for (const term of list) vector.set(term, (vector.get(term) || 0) + 1);
+    vector.forEach((tf, term) => vector.set(term, tf * Math.log(1 + docs.length / docFreq.get(term)!)));
+    return normalize(vector);
+  });
+}
+
+function normalize(vector: Vector): Vector {
+  let norm = 0;
+  vector.forEach((w) => (norm += w * w));
+  norm = Math.sqrt(norm);
+  if (norm > 0) vector.forEach((w, term) => vector.set(term, w / norm));
+  return vector;
+}
+
+function cosine(a: Vector, b: Vector): number {
+  const [small, large] = a.size < b.size ? [a, b] : [b, a];
+  let dot = 0;
+  small.forEach((w, term) => (dot += w * (large.get(term) || 0)));
+  return dot;
+}
+
+function centroid(vectors: Vector[]): Vector {
+  const sum: Vector = new Map();
+  for (const v of vectors) v.forEach((w, term) => sum.set(term, (sum.get(term) || 0) + w));
+  return normalize(sum);
+}
+
+function topTerms(vector: Vector, count = 6): string[] {
+  return Array.from(vector.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, count)
+    .map(([term]) => term);
+}
+
+/**
+ * Leader clustering: each objection joins the closest centroid above the
+ * threshold or starts a cluster, then one pass reassigns everything against
+ * the final centroids so early members aren't stuck where they landed.
+ */
+export function clusterObjections(items: OtherObjection[], options: ClusterOptions = DEFAULT_CLUSTER_OPTIONS): ObjectionCluster[] {
+  const vectors = tfidfVectors(items.map(documentText));
+  let clusters: { members: number[]; centroid: Vector }[] = [];
+
+  const closest = (v: Vector) => {
+    let best = { index: -1, score: options.threshold };
+    clusters.forEach((c, index) => {
+      const score = cosine(v, c.centroid);
+      if (score >= best.score) best = { index, score };
+    });
+    return best.index;
+  };
+
+  vectors.forEach((v, i) => {
+    if (v.size === 0) return;
+    const index = closest(v);
+    if (index === -1) {
+      clusters.push({ members: [i], centroid: new Map(v) });
+    } else {
+      clusters[index].members.push(i);
+      clusters[index].centroid = centroid(clusters[index].members.map((m) => vectors[m]));
+    }
+  });
+
+  const assignments = vectors.map((v) => (v.size === 0 ? -1 : closest(v)));
+  clusters = clusters.map((c, index) => {
+    const members = assignments.flatMap((a, i) => (a === index ? [i] : []));
+    return { members, centroid: members.length ? centroid(members.map((m) => vectors[m])) : c.centroid };
+  });
+
+  return clusters
+    .filter((c) => c.members.length >= options.minSize)
+    .sort((a, b) => b.members.length - a.members.length)
+    .map((c) => ({ members: c.members.map((m) => items[m]), topTerms: topTerms(c.centroid) }));
+}
+
+// ─── Naming ─────────────────────────────────────────────────
+
+// Examples shown to the model per cluster
+const MAX_EXAMPLES = 15;
+
+function proposalTool(existing: ObjectionTypeOption[]): ExtractionTool {
+  return {
+    name: "propose_objection_type",
+    description: "Propose a canonical objection type for a group of similar sales objections.",
+    input_schema: {
+      type: "object",
+      properties: {
+        coherent: { type: "boolean", description: "false if the objections don't share one underlying concern" },
+        same_as_existing: {
+          type: ["string", "null"],
+          enum: [...existing.map((t) => t.typeKey), null],
+          description: "An existing type_key these objections really belong to, or null",
+        },
+        type_key: { type: "string", minLength: 1, description: "snake_case key, e.g. token_launch_pending" },
+        display_name: { type: "string", minLength: 1, description: "Short title case name, e.g. Token Launch Pending" },
+        description: { type: "string", minLength: 1, description: "One sentence: when a prospect objection gets this type" },
+      },
+      required: ["coherent", "same_as_existing", "type_key", "display_name", "description"],
+    },
+  };
+}
+
+/** Lowercase snake_case, as the seeded type_keys are. */
+export function toTypeKey(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 100);
+}
+
+export async function proposeObjectionType(
+  client: Anthropic,
+  cluster: ObjectionCluster,
+  existing: ObjectionTypeOption[]
+): Promise<ToolExtraction<ObjectionTypeProposal>> {
+  const examples = cluster.members
+    .slice(0, MAX_EXAMPLES)
+    .map((m) => `- "${m.quote}"${m.context ? ` (${m.context})` : ""}`)
+    .join("\n");
+  const types = existing.map((t) => (t.description ? `- ${t.typeKey}: ${t.description}` : `- ${t.typeKey}`)).join("\n");
+
+  const extraction = await runToolExtraction<ObjectionTypeProposal>(client, {
+    model: modelForStage("objection_discovery"),
+    maxTokens: 512,
+    prompt: `These objections came up on Sherlock sales calls (Sherlock sells smart contract audits, security retainers and lifecycle security). None fit the existing objection types, so they were tagged "other". Propose one new canonical objection type that covers them, and record it with the propose_objection_type tool.
+
+Existing types:
+${types}
+
+Objections (${cluster.members.length} in total, frequent terms: ${cluster.topTerms.join(", ")}):
+${examples}`,
+    tool: proposalTool(existing),
+  });
+  if (!extraction.ok) return extraction;
+  return { ...extraction, input: { ...extraction.input, type_key: toTypeKey(extraction.input.type_key) } };
+}
+
+// ─── Storage ────────────────────────────────────────────────
+
+/** Objection types for the extraction prompt, from the objections table. */
+export async function loadObjectionTypes(db: Database): Promise<ObjectionTypeOption[]> {
+  return db
+    .select({ typeKey: objections.typeKey, description: objections.description })
+    .from(objections)
+    .orderBy(objections.typeKey);
+}
+
+export async function loadOtherObjections(db: Database): Promise<OtherObjection[]> {
+  const rows = await db
+    .select({ id: callObjections.id, callId: callObjections.callId, quote: callObjections.quote, context: callObjections.context })
+    .from(callObjections)
+    .innerJoin(objections, eq(objections.id, callObjections.objectionId))
+    .where(eq(objections.typeKey, OTHER_TYPE_KEY));
+  return rows.map((r) => ({ id: r.id, callId: r.callId, quote: r.quote || "", context: r.context || "" }));
+}
+
+export interface ApprovalEdits {
+  typeKey?: string;
+  displayName?: string;
+  description?: string;
+}
+
+export interface ApprovalResult {
+  objectionId: string;
+  typeKey: string;
+  /** call_objections rows moved off "other" */
+  backfilled: number;
+  counterResponsesMoved: number;
+}
+
+// Similarity a row outside the cluster needs to be moved on approval. Stricter
+// than clustering: a reviewer approved the members, not everything nearby.
+export const BACKFILL_THRESHOLD = 0.35;
+
+export interface BackfillMatch extends OtherObjection {
+  /** Cosine to the members' centroid; null for the cluster's own rows */
+  score: number | null;
+}
+
+export interface BackfillPlan {
+  matches: BackfillMatch[];
+  /** Calls whose "other" counter-responses move: none of their objections stay "other" */
+  counterResponseCallIds: string[];
+}
+
+/**
+ * The "other" rows approving a proposal would move: the cluster's members
+ * still tagged "other", plus any other row at least `threshold` similar to
+ * the members' centroid.
+ */
+export async function planBackfill(
+  db: Database,
+  callObjectionIds: string[],
+  threshold: number = BACKFILL_THRESHOLD
+): Promise<BackfillPlan> {
+  // Match against the "other" rows as they are now
+  const others = await loadOtherObjections(db);
+  const vectors = tfidfVectors(others.map(documentText));
+  const memberIds = new Set(callObjectionIds);
+  const memberVectors = vectors.filter((_, i) => memberIds.has(others[i].id));
+
+  const matches: BackfillMatch[] = [];
+  if (memberVectors.length > 0) {
+    const center = centroid(memberVectors);
+    others.forEach((o, i) => {
+      if (memberIds.has(o.id)) {
+        matches.push({ ...o, score: null });
+        return;
+      }
+      const score = cosine(vectors[i], center);
+      if (score >= threshold) matches.push({ ...o, score: Math.round(score * 100) / 100 });
+    });
+  }
+
+  const matched = new Set(matches.map((m) => m.id));
+  const stillOther = new Set(others.filter((o) => !matched.has(o.id)).map((o) => o.callId));
+  const counterResponseCallIds = Array.from(new Set(matches.map((m) => m.callId))).filter((id) => !stillOther.has(id));
+  return { matches, counterResponseCallIds };
+}
+
+/**
+ * Add a proposed type to objections and move over the rows `planBackfill`
+ * picks. A call's "other" counter-responses move too once none of its
+ * objections are left as "other". All or nothing: one transaction.
+ */
+export async function approveProposal(
+  db: Database,
+  proposalId: string,
+  edits: ApprovalEdits = {},
+  backfillThreshold: number = BACKFILL_THRESHOLD
+): Promise<ApprovalResult> {
+  return db.transaction(async (tx) => {
+    const proposal = (await tx.select().from(objectionTypeProposals).where(eq(objectionTypeProposals.id, proposalId)).limit(1))[0];
+    if (!proposal) throw new Error(`No proposal ${proposalId}`);
+    if (proposal.status !== "pending") throw new Error(`Proposal ${proposalId} is already ${proposal.status}`);
+
+    const typeKey = toTypeKey(edits.typeKey || proposal.typeKey);
+    if (!typeKey) throw new Error("type_key is empty");
+    const taken = await tx.select({ id: objections.id }).from(objections).where(eq(objections.typeKey, typeKey)).limit(1);
+    if (taken.length > 0) throw new Error(`Objection type "${typeKey}" already exists`);
+
+    const displayName = edits.displayName || proposal.displayName;
+    const description = edits.description ?? proposal.description;
+    const inserted = await tx.insert(objections).values({ typeKey, displayName, description }).returning({ id: objections.id });
+    const objectionId = inserted[0].id;
+
+    const plan = await planBackfill(tx, proposal.callObjectionIds, backfillThreshold);
+    const matchedIds = plan.matches.map((m) => m.id);
+    if (matchedIds.length > 0) {
+      await tx.update(callObjections).set({ objectionId }).where(inArray(callObjections.id, matchedIds));
+    }
+
+    const otherId = (await tx.select({ id: objections.id }).from(objections).where(eq(objections.typeKey, OTHER_TYPE_KEY)))[0]?.id;
+    let counterResponsesMoved = 0;
+    if (otherId && plan.counterResponseCallIds.length > 0) {
+      const moved = await tx
+        .update(counterResponses)
+        .set({ objectionId })
+        .where(and(eq(counterResponses.objectionId, otherId), inArray(counterResponses.callId, plan.counterResponseCallIds)))
+        .returning({ id: counterResponses.id });
+      counterResponsesMoved = moved.length;
+    }
+
+    await tx
+      .update(objectionTypeProposals)
+      .set({ status: "approved", typeKey, displayName, description, objectionId, reviewedAt: new Date() })
+      .where(eq(objectionTypeProposals.id, proposalId));
+
+    return { objectionId, typeKey, backfilled: matchedIds.length, counterResponsesMoved };
+  });
+}
+
+export async function rejectProposal(db: Database, proposalId: string): Promise<void> {
+  const rows = await db
+    .update(objectionTypeProposals)
+    .set({ status: "rejected", reviewedAt: new Date() })
+    .where(and(eq(objectionTypeProposals.id, proposalId), eq(objectionTypeProposals.status, "pending")))
+    .returning({ id: objectionTypeProposals.id });
+  if (rows.length === 0) throw new Error(`No pending proposal ${proposalId}`);
+}
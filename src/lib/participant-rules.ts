@@ -0,0 +1,169 @@
+import { readFileSync } from "fs";
+import path from "path";
+import defaultConfig from "../../config/participant-rules.json";
+
+/**
+ * Which meetings we ingest and which participants count as "us", in one
+ * place. Rules live in config/participant-rules.json; PARTICIPANT_RULES_PATH
+ * points at a different file without a deploy.
+ */
+
+export type ParticipantRule =
+  | { id: string; reason: string; type: "exclude_emails"; emails: string[] }
+  | { id: string; reason: string; type: "exclude_domains"; domains: string[] }
+  | { id: string; reason: string; type: "title_include"; pattern: string }
+  | { id: string; reason: string; type: "title_exclude"; pattern: string };
+
+export interface ParticipantRulesConfig {
+  /** First entry is the domain placeholder team member emails are created under */
+  internalDomains: string[];
+  rules: ParticipantRule[];
+}
+
+export interface RuleDecision {
+  keep: boolean;
+  /** Id of a configured rule, or one of the built-in checks below */
+  rule: string;
+  reason: string;
+}
+
+export interface ParticipantFields {
+  host_email?: string | null;
+  organizer_email?: string | null;
+  participants?: string[] | null;
+  meeting_attendees?: { email: string | null }[] | null;
+}
+
+const RULE_TYPES = ["exclude_emails", "exclude_domains", "title_include", "title_exclude"];
+
+function validateConfig(config: any, origin: string): ParticipantRulesConfig {
+  if (!Array.isArray(config?.internalDomains) || config.internalDomains.length === 0) {
+    throw new Error(`${origin}: internalDomains must list at least one domain`);
+  }
+  const rules: ParticipantRule[] = config.rules || [];
+  for (const rule of rules) {
+    if (!rule.id || !rule.reason) {
+      throw new Error(`${origin}: every rule needs an id and a reason`);
+    }
+    if (!RULE_TYPES.includes(rule.type)) {
+      throw new Error(`${origin}: rule "${rule.id}" has unknown type "${rule.type}"`);
+    }
+    if (rule.type === "title_include" || rule.type === "title_exclude") {
+      try {
+        new RegExp(rule.pattern, "i");
+      } catch (err) {
+        throw new Error(`${origin}: rule "${rule.id}" has an invalid pattern: ${(err as Error).message}`);
+      }
+    }
+  }
+  return {
+    internalDomains: config.internalDomains.map((d: string) => d.trim().toLowerCase().replace(/^@/, "")),
+    rules: rules.map((rule) => {
+      if (rule.type === "exclude_emails") {
+        return { ...rule, emails: rule.emails.map((e) => e.trim().toLowerCase()) };
+      }
+      if (rule.type === "exclude_domains") {
+        return { ...rule, domains: rule.domains.map((d) => d.trim().toLowerCase().replace(/^@/, "")) };
+      }
+      return rule;
+    }),
+  };
+}
+
+let cached: ParticipantRulesConfig | null = null;
+
+export function loadParticipantRules(): ParticipantRulesConfig {
+  if (cached) return cached;
+  const override = process.env.PARTICIPANT_RULES_PATH;
+  cached = override
+    ? validateConfig(JSON.parse(readFileSync(path.resolve(override), "utf-8")), override)
+    : validateConfig(defaultConfig, "config/participant-rules.json");
+  return cached;
+}
+
+// ─── Email helpers ──────────────────────────────────────────
+
+export function getEmails(meeting: ParticipantFields): string[] {
+  const emails: string[] = [];
+  if (meeting.host_email) emails.push(meeting.host_email.toLowerCase());
+  if (meeting.organizer_email) emails.push(meeting.organizer_email.toLowerCase());
+  if (meeting.participants) {
+    for (const p of meeting.participants) {
+      if (p && p.includes("@")) emails.push(p.toLowerCase());
+    }
+  }
+  if (meeting.meeting_attendees) {
+    for (const a of meeting.meeting_attendees) {
+      if (a.email) emails.push(a.email.toLowerCase());
+    }
+  }
+  return Array.from(new Set(emails));
+}
+
+function domainOf(email: string): string {
+  return email.slice(email.lastIndexOf("@") + 1).toLowerCase();
+}
+
+export function isInternalEmail(email: string, config = loadParticipantRules()): boolean {
+  return config.internalDomains.includes(domainOf(email));
+}
+
+/** The domain placeholder emails for team members without one are created under. */
+export function primaryInternalDomain(config = loadParticipantRules()): string {
+  return config.internalDomains[0];
+}
+
+/** The exclude rule that makes this participant not count as external, if any. */
+export function excludingRule(email: string, config = loadParticipantRules()): ParticipantRule | null {
+  const lower = email.toLowerCase();
+  return (
+    config.rules.find(
+      (r) =>
+        (r.type === "exclude_emails" && r.emails.includes(lower)) ||
+        (r.type === "exclude_domains" && r.domains.includes(domainOf(lower)))
+    ) || null
+  );
+}
+
+// ─── Meeting decision ───────────────────────────────────────
+
+/**
+ * Decide whether a meeting is ingested. Title excludes win, then title
+ * includes (which skip the participant checks), then the participants must
+ * include someone internal and someone external who isn't excluded.
+ */
+export function evaluateMeeting(
+  meeting: ParticipantFields & { title?: string | null },
+  config = loadParticipantRules()
+): RuleDecision {
+  const title = meeting.title || "";
+
+  for (const rule of config.rules) {
+    if (rule.type === "title_exclude" && new RegExp(rule.pattern, "i").test(title)) {
+      return { keep: false, rule: rule.id, reason: rule.reason };
+    }
+  }
+  for (const rule of config.rules) {
+    if (rule.type === "title_include" && new RegExp(rule.pattern, "i").test(title)) {
+      return { keep: true, rule: rule.id, reason: rule.reason };
+    }
+  }
+
+  const emails = getEmails(meeting);
+  const external = emails.filter((e) => !isInternalEmail(e, config));
+
+  if (emails.length === external.length) {
+    return { keep: false, rule: "no-internal", reason: `No participant from ${config.internalDomains.join(", ")}` };
+  }
+  if (external.length === 0) {
+    return { keep: false, rule: "internal-only", reason: "No external participant" };
+  }
+
+  const remaining = external.filter((e) => !excludingRule(e, config));
+  if (remaining.length === 0) {
+    const rule = excludingRule(external[0], config)!;
+    return { keep: false, rule: rule.id, reason: rule.reason };
+  }
+
+  return { keep: true, rule: "external-participant", reason: `External participant ${remaining[0]}` };
+}
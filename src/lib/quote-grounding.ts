@@ -0,0 +1,175 @@
+import { eq } from "drizzle-orm";
+import type { Database } from "../db";
+import { callObjections, counterResponses, keyQuotes } from "../db/schema";
+import { normalizeForMatch } from "./extraction-merge";
+import { loadSentences, sentencesFromTranscriptText } from "./transcript-sentences";
+import { getTranscript } from "./transcript-store";
+
+/**
+ * Check extracted quotes against the transcript. Each quote is matched to the
+ * run of up to three consecutive sentences that contains the most of its
+ * words in order; the score is the share of the quote's words found. Quotes
+ * scoring under GROUNDING_THRESHOLD are stored as unverified: paraphrased,
+ * stitched together from far apart, or not said at all.
+ */
+
+export const GROUNDING_THRESHOLD = 0.8;
+
+// A quote rarely spans more than a few transcript sentences
+const MAX_WINDOW = 3;
+
+export interface GroundingSentence {
+  index: number;
+  speaker: string | null;
+  text: string;
+  /** Seconds; null for untimed transcripts */
+  startTime: number | null;
+}
+
+export interface QuoteGrounding {
+  /** 0-1: share of the quote's words found in order in the matched span */
+  score: number;
+  sentenceIndex: number | null;
+  speaker: string | null;
+  startTime: number | null;
+  verified: boolean;
+}
+
+interface PreparedSentence extends GroundingSentence {
+  tokens: string[];
+}
+
+function tokenize(text: string): string[] {
+  return normalizeForMatch(text).split(" ").filter(Boolean);
+}
+
+export function prepareSentences(sentences: GroundingSentence[]): PreparedSentence[] {
+  return sentences.map((s) => ({ ...s, tokens: tokenize(s.text) }));
+}
+
+/** Longest common subsequence of two token lists, one row at a time. */
+function lcsLength(a: string[], b: string[]): number {
+  let prev = new Array<number>(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    const row = new Array<number>(b.length + 1).fill(0);
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = a[i - 1] === b[j - 1] ? prev[j - 1] + 1 : Math.max(prev[j], row[j - 1]);
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/** Quote words present in the span regardless of order: an upper bound on the LCS. */
+function bagOverlap(quoteCounts: Map<string, number>, tokens: string[]): number {
+  const remaining = new Map(quoteCounts);
+  let overlap = 0;
+  for (const token of tokens) {
+    const left = remaining.get(token);
+    if (left) {
+      overlap++;
+      remaining.set(token, left - 1);
+    }
+  }
+  return overlap;
+}
+
+export function groundQuote(quote: string, sentences: PreparedSentence[]): QuoteGrounding {
+  const quoteTokens = tokenize(quote);
+  const none: QuoteGrounding = { score: 0, sentenceIndex: null, speaker: null, startTime: null, verified: false };
+  if (quoteTokens.length === 0) return none;
+
+  const quoteCounts = new Map<string, number>();
+  for (const token of quoteTokens) quoteCounts.set(token, (quoteCounts.get(token) || 0) + 1);
+
+  // Every single sentence first, then pairs, then triples: a wider span only
+  // wins when it matches strictly more, so the match starts where the quote does
+  let best = { score: 0, start: -1 };
+  for (let size = 1; size <= MAX_WINDOW && best.score < 1; size++) {
+    for (let start = 0; start + size <= sentences.length; start++) {
+      const span = sentences.slice(start, start + size).flatMap((s) => s.tokens);
+      if (bagOverlap(quoteCounts, span) / quoteTokens.length <= best.score) continue;
+      const score = lcsLength(quoteTokens, span) / quoteTokens.length;
+      if (score > best.score) best = { score, start };
+      if (best.score === 1) break;
+    }
+  }
+  if (best.start === -1) return none;
+
+  const sentence = sentences[best.start];
+  const score = Math.round(best.score * 1000) / 1000;
+  return {
+    score,
+    sentenceIndex: sentence.index,
+    speaker: sentence.speaker,
+    startTime: sentence.startTime,
+    verified: score >= GROUNDING_THRESHOLD,
+  };
+}
+
+// ─── Per call ───────────────────────────────────────────────
+
+export interface GroundingSummary {
+  checked: number;
+  verified: number;
+}
+
+/** Stored sentences when the meeting has them, else turns rebuilt from the stored transcript (untimed). */
+async function groundingSentences(db: Database, rawMeetingId: string, transcriptHash: string | null): Promise<GroundingSentence[]> {
+  const stored = await loadSentences(db, rawMeetingId);
+  if (stored.length > 0) {
+    return stored.map((s) => ({ index: s.sentenceIndex, speaker: s.speakerLabel, text: s.text, startTime: s.startTime }));
+  }
+  const transcript = await getTranscript(db, transcriptHash);
+  if (!transcript) return [];
+  return sentencesFromTranscriptText(transcript).map((s) => ({
+    index: s.index,
+    speaker: s.speaker_name,
+    text: s.text,
+    startTime: null,
+  }));
+}
+
+function groundingColumns(g: QuoteGrounding) {
+  return {
+    groundingScore: g.score,
+    sentenceIndex: g.sentenceIndex,
+    groundedSpeaker: g.speaker,
+    startTime: g.startTime,
+    verified: g.verified,
+  };
+}
+
+/**
+ * Ground every objection quote, key quote and counter-response of a call and
+ * store the result on its row. A call with no transcript is left unchecked.
+ */
+export async function groundCallQuotes(
+  db: Database,
+  call: { id: string; rawMeetingId: string; transcriptHash: string | null }
+): Promise<GroundingSummary> {
+  const summary: GroundingSummary = { checked: 0, verified: 0 };
+  const sentences = prepareSentences(await groundingSentences(db, call.rawMeetingId, call.transcriptHash));
+  if (sentences.length === 0) return summary;
+
+  const ground = (text: string | null) => {
+    const grounding = groundQuote(text || "", sentences);
+    summary.checked++;
+    if (grounding.verified) summary.verified++;
+    return groundingColumns(grounding);
+  };
+
+  const objectionRows = await db.select().from(callObjections).where(eq(callObjections.callId, call.id));
+  for (const row of objectionRows) {
+    await db.update(callObjections).set(ground(row.quote)).where(eq(callObjections.id, row.id));
+  }
+  const quoteRows = await db.select().from(keyQuotes).where(eq(keyQuotes.callId, call.id));
+  for (const row of quoteRows) {
+    await db.update(keyQuotes).set(ground(row.quoteText)).where(eq(keyQuotes.id, row.id));
+  }
+  const counterRows = await db.select().from(counterResponses).where(eq(counterResponses.callId, call.id));
+  for (const row of counterRows) {
+    await db.update(counterResponses).set(ground(row.responseText)).where(eq(counterResponses.id, row.id));
+  }
+  return summary;
+}
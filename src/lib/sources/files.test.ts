@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import path from "node:path";
+import { describe, test } from "node:test";
+import { parseTranscriptFile } from "./files";
+
+const ROOT = "fixtures/transcript-files";
+const parse = (file: string) => parseTranscriptFile(path.join(ROOT, file), ROOT);
+const turns = (file: string) => parse(file).sentences.map((s) => [s.speaker_name, s.text, s.start_time, s.end_time]);
+
+describe("parseTranscriptFile", () => {
+  test("reads WebVTT voice tags and merges unlabelled cues into the previous turn", () => {
+    assert.deepEqual(turns("2026-01-15-acme-scoping.vtt"), [
+      ["Alex Kim", "Thanks for joining, let's talk scope.", 1, 4.5],
+      ["Jordan Lee", "We have four contracts. About four thousand lines in total.", 4.8, 8],
+      ["Alex Kim", "Great, I'll send a proposal.", 12, 14],
+    ]);
+  });
+
+  test("takes title, date and lowercased attendee emails from the sidecar", () => {
+    const meeting = parse("2026-01-15-acme-scoping.vtt");
+    assert.equal(meeting.source, "file");
+    assert.equal(meeting.title, "Sherlock <> Acme scoping");
+    assert.equal(meeting.date, Date.parse("2026-01-15T16:00:00Z"));
+    assert.equal(meeting.host_email, "alex@sherlock.xyz");
+    assert.deepEqual(meeting.participants, ["alex@sherlock.xyz", "jordan@acme.finance"]);
+  });
+
+  test("reads SRT cues with comma milliseconds and speaker prefixes", () => {
+    assert.deepEqual(turns("retainer-review.srt"), [
+      ["Sam Ortiz", "How is the retainer going?", 1, 3],
+      ["Priya Shah", "Well, we'd like to extend it.", 62.25, 65],
+    ]);
+    assert.equal(parse("retainer-review.srt").title, "retainer review");
+  });
+
+  test("reads speaker-labelled text with optional timestamps and continuation lines", () => {
+    assert.deepEqual(turns("notes.txt"), [
+      ["Alex Kim", "Quick sync on the audit. We can start Monday.", 5, 70],
+      ["Jordan Lee", "Works for us.", 70, 70],
+    ]);
+  });
+
+  test("reads a Fireflies sentence download in either key style", () => {
+    assert.deepEqual(turns("sentences.json"), [
+      ["Alex Kim", "Hello", 1, 2],
+      ["Jordan Lee", "Hi there", 2.5, 3],
+    ]);
+  });
+
+  test("keeps a full Fireflies export's own identity", () => {
+    const meeting = parseTranscriptFile("fixtures/fireflies/discovery-call.json", "fixtures/fireflies");
+    assert.equal(meeting.source, "fireflies");
+    assert.equal(meeting.external_id, "fixture-discovery-001");
+    assert.equal(meeting.sentences.length, 4);
+  });
+});
+
+describe("file external ids", () => {
+  test("are the path under the import root, extension included", () => {
+    assert.equal(parse("meeting-a/transcript.vtt").external_id, "meeting-a/transcript.vtt");
+    assert.equal(parse("meeting-b/transcript.vtt").external_id, "meeting-b/transcript.vtt");
+    assert.equal(parse("notes.txt").external_id, "notes.txt");
+  });
+
+  test("don't depend on how the file was reached", () => {
+    const viaAbsolute = parseTranscriptFile(path.resolve(ROOT, "meeting-a/transcript.vtt"), ROOT);
+    const viaDotDot = parseTranscriptFile(path.join(ROOT, "meeting-b/../meeting-a/transcript.vtt"), path.resolve(ROOT));
+    assert.equal(viaAbsolute.external_id, "meeting-a/transcript.vtt");
+    assert.equal(viaDotDot.external_id, "meeting-a/transcript.vtt");
+  });
+
+  test("reject files outside the import root", () => {
+    assert.throws(() => parseTranscriptFile(path.join(ROOT, "notes.txt"), path.join(ROOT, "meeting-a")), /outside the import root/);
+  });
+});
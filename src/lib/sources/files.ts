@@ -0,0 +1,231 @@
+import { existsSync, readFileSync, statSync } from "fs";
+import path from "path";
+import { toCanonical, type FirefliesTranscript } from "./fireflies";
+import type { CanonicalMeeting, MeetingAttendee, MeetingSummary, TranscriptSentence } from "./types";
+
+export const SUPPORTED_EXTENSIONS = [".vtt", ".srt", ".txt", ".json"];
+
+/**
+ * Optional `<file>.meta.json` next to a transcript. Anything the transcript
+ * format can't carry (attendee emails, a reliable date) comes from here.
+ */
+export interface SidecarMetadata {
+  /** Defaults to the file's path under the import root (TRANSCRIPT_IMPORT_ROOT) */
+  id?: string;
+  title?: string;
+  date?: string; // ISO 8601
+  duration?: number; // minutes
+  host_email?: string;
+  attendees?: { name?: string; email: string }[];
+  summary?: MeetingSummary;
+}
+
+// ─── Timestamps ─────────────────────────────────────────────
+
+/** "01:02:03.456", "02:03.456" or SRT-style "01:02:03,456" → seconds */
+function parseTimestamp(value: string): number {
+  const parts = value.trim().replace(",", ".").split(":").map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+const CUE_TIMING = /^(\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{1,3}\s+-->\s+(\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{1,3}/;
+
+// ─── Speaker labels ─────────────────────────────────────────
+
+// "Jordan Lee: text" — labels are short and start with a letter, so
+// "Note: 3pm works" style prose is the only real false-positive risk.
+const SPEAKER_PREFIX = /^([A-Za-z][\w .'@+-]{0,60}?):\s+(.*)$/;
+
+function splitSpeaker(line: string): { speaker: string | null; text: string } {
+  const voiceTag = line.match(/^<v(?:\.[^ >]+)?\s+([^>]+)>(.*?)(?:<\/v>)?$/);
+  if (voiceTag) return { speaker: voiceTag[1].trim(), text: voiceTag[2].trim() };
+  const prefix = line.match(SPEAKER_PREFIX);
+  if (prefix) return { speaker: prefix[1].trim(), text: prefix[2].trim() };
+  return { speaker: null, text: line.trim() };
+}
+
+// ─── Parsers ────────────────────────────────────────────────
+
+/**
+ * WebVTT and SRT share the same cue layout once headers and cue numbers are
+ * skipped: a timing line followed by one or more text lines.
+ */
+function parseCues(content: string): TranscriptSentence[] {
+  const sentences: TranscriptSentence[] = [];
+  let lastSpeaker = "Unknown";
+
+  for (const block of content.replace(/\r/g, "").split(/\n{2,}/)) {
+    const lines = block.split("\n").map((l) => l.trim()).filter(Boolean);
+    const timingIndex = lines.findIndex((l) => CUE_TIMING.test(l));
+    if (timingIndex === -1) continue; // WEBVTT header, NOTE, STYLE blocks
+
+    const [start, end] = lines[timingIndex].split("-->").map((t) => parseTimestamp(t.split(/\s/).filter(Boolean)[0]));
+    const textLines = lines.slice(timingIndex + 1);
+    if (textLines.length === 0) continue;
+
+    const { speaker, text: rawText } = splitSpeaker(textLines.join(" "));
+    const text = rawText.replace(/<[^>]+>/g, "");
+    if (speaker) lastSpeaker = speaker;
+
+    // Captioners split one utterance across cues; merge consecutive cues from the same speaker
+    const previous = sentences[sentences.length - 1];
+    if (previous && !speaker && previous.speaker_name === lastSpeaker && start - previous.end_time < 1) {
+      previous.text = `${previous.text} ${text}`;
+      previous.end_time = end;
+      continue;
+    }
+
+    sentences.push({
+      index: sentences.length,
+      speaker_name: lastSpeaker,
+      speaker_id: null,
+      text,
+      start_time: start,
+      end_time: end,
+    });
+  }
+  return sentences;
+}
+
+/**
+ * Speaker-labelled plain text. Accepts "Name: text", optionally preceded by a
+ * "[00:01:23]" or "(01:23)" timestamp. Unlabelled lines continue the previous turn.
+ */
+function parsePlainText(content: string): TranscriptSentence[] {
+  const sentences: TranscriptSentence[] = [];
+
+  for (const raw of content.replace(/\r/g, "").split("\n")) {
+    let line = raw.trim();
+    if (!line) continue;
+
+    const previous = sentences[sentences.length - 1];
+    // Unstamped turns inherit the previous start time
+    let start = previous ? previous.start_time : 0;
+    const stamp = line.match(/^[[(]((?:\d{1,2}:)?\d{1,2}:\d{2}(?:[.,]\d+)?)[\])]\s*/);
+    if (stamp) {
+      start = parseTimestamp(stamp[1]);
+      line = line.slice(stamp[0].length);
+    }
+
+    const { speaker, text } = splitSpeaker(line);
+    if (!speaker && previous) {
+      previous.text = `${previous.text} ${text}`;
+      continue;
+    }
+
+    if (previous) previous.end_time = Math.max(previous.start_time, start);
+    sentences.push({
+      index: sentences.length,
+      speaker_name: speaker || "Unknown",
+      speaker_id: null,
+      text,
+      start_time: start,
+      end_time: start,
+    });
+  }
+  return sentences;
+}
+
+/**
+ * Fireflies JSON: either a full API transcript (optionally wrapped in
+ * {data: {transcript}}) or the web app's array-of-sentences download.
+ */
+function parseFirefliesJson(content: string): CanonicalMeeting | TranscriptSentence[] {
+  const parsed = JSON.parse(content);
+  const transcript = parsed?.data?.transcript || parsed;
+
+  if (!Array.isArray(transcript) && transcript?.id && Array.isArray(transcript.sentences)) {
+    return toCanonical(transcript as FirefliesTranscript);
+  }
+
+  const rows: any[] = Array.isArray(transcript) ? transcript : transcript?.sentences || [];
+  return rows.map((s, i) => ({
+    index: i,
+    speaker_name: s.speaker_name || s.speakerName || "Unknown",
+    speaker_id: s.speaker_id ?? null,
+    text: s.text || s.sentence || s.raw_text || "",
+    start_time: Number(s.start_time ?? s.startTime ?? 0),
+    end_time: Number(s.end_time ?? s.endTime ?? 0),
+  }));
+}
+
+// ─── File → CanonicalMeeting ────────────────────────────────
+
+function readSidecar(filePath: string): SidecarMetadata {
+  const sidecarPath = filePath.replace(/\.[^.]+$/, ".meta.json");
+  if (!existsSync(sidecarPath)) return {};
+  return JSON.parse(readFileSync(sidecarPath, "utf-8"));
+}
+
+/** Meeting date: sidecar, then a YYYY-MM-DD in the file name, then file mtime. */
+function resolveDate(filePath: string, sidecar: SidecarMetadata): number {
+  if (sidecar.date) return Date.parse(sidecar.date);
+  const fromName = path.basename(filePath).match(/(\d{4})-(\d{2})-(\d{2})/);
+  if (fromName) return Date.UTC(Number(fromName[1]), Number(fromName[2]) - 1, Number(fromName[3]));
+  return statSync(filePath).mtimeMs;
+}
+
+/**
+ * Without a sidecar id, the meeting is identified by its path under the
+ * configured import root, extension included. The root is fixed rather than
+ * whatever directory is being imported, so importing a file and later its
+ * folder gives the same id; and exports often name every file transcript.vtt
+ * in per-meeting folders, while notes.txt and notes.vtt are different files.
+ */
+function fileExternalId(filePath: string, root: string): string {
+  const relative = path.relative(path.resolve(root), path.resolve(filePath));
+  if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) {
+    throw new Error(`${filePath} is outside the import root ${root}`);
+  }
+  return relative.split(path.sep).join("/");
+}
+
+export function parseTranscriptFile(filePath: string, root: string): CanonicalMeeting {
+  const ext = path.extname(filePath).toLowerCase();
+  const content = readFileSync(filePath, "utf-8");
+  const sidecar = readSidecar(filePath);
+
+  let sentences: TranscriptSentence[];
+  switch (ext) {
+    case ".vtt":
+    case ".srt":
+      sentences = parseCues(content);
+      break;
+    case ".txt":
+      sentences = parsePlainText(content);
+      break;
+    case ".json": {
+      const parsed = parseFirefliesJson(content);
+      if (!Array.isArray(parsed)) {
+        // A full Fireflies export keeps its own identity, so it dedupes against API pulls
+        return { ...parsed, summary: { ...parsed.summary, ...sidecar.summary } };
+      }
+      sentences = parsed;
+      break;
+    }
+    default:
+      throw new Error(`Unsupported transcript format: ${ext}`);
+  }
+
+  const attendees: MeetingAttendee[] = (sidecar.attendees || []).map((a) => ({
+    displayName: a.name || "",
+    email: a.email.toLowerCase(),
+    name: a.name || "",
+  }));
+  const lastEnd = sentences.reduce((max, s) => Math.max(max, s.end_time, s.start_time), 0);
+
+  return {
+    source: "file",
+    external_id: sidecar.id || fileExternalId(filePath, root),
+    title: sidecar.title || path.basename(filePath, ext).replace(/[_-]+/g, " "),
+    date: resolveDate(filePath, sidecar),
+    duration: sidecar.duration ?? (lastEnd ? lastEnd / 60 : null),
+    transcript_url: null,
+    host_email: sidecar.host_email?.toLowerCase() || null,
+    organizer_email: sidecar.host_email?.toLowerCase() || null,
+    participants: attendees.map((a) => a.email),
+    meeting_attendees: attendees,
+    sentences,
+    summary: sidecar.summary || {},
+  };
+}
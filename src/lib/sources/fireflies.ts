@@ -0,0 +1,201 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import {
+  createFirefliesClient,
+  partitionTranscripts,
+  validateTranscript,
+  type TranscriptIssue,
+} from "../fireflies-client";
+import type { CanonicalMeeting, MeetingPage, SyncWindow, TranscriptSource } from "./types";
+
+const FIREFLIES_API = process.env.FIREFLIES_API_URL || "https://api.fireflies.ai/graphql";
+const PAGE_SIZE = 50;
+
+const TRANSCRIPT_FIELDS = `
+      id
+      title
+      date
+      dateString
+      duration
+      transcript_url
+      audio_url
+      video_url
+      host_email
+      organizer_email
+      participants
+      fireflies_users
+      meeting_attendees {
+        displayName
+        email
+        name
+      }
+      sentences {
+        index
+        speaker_name
+        speaker_id
+        text
+        start_time
+        end_time
+      }
+      summary {
+        keywords
+        action_items
+        outline
+        overview
+        shorthand_bullet
+        gist
+        bullet_gist
+        short_summary
+        short_overview
+        meeting_type
+        topics_discussed
+      }
+`;
+
+export const TRANSCRIPTS_QUERY = `
+  query PullTranscripts($limit: Int, $skip: Int, $fromDate: DateTime, $toDate: DateTime) {
+    transcripts(limit: $limit, skip: $skip, fromDate: $fromDate, toDate: $toDate) {${TRANSCRIPT_FIELDS}    }
+  }
+`;
+
+export const TRANSCRIPT_QUERY = `
+  query PullTranscript($id: String!) {
+    transcript(id: $id) {${TRANSCRIPT_FIELDS}    }
+  }
+`;
+
+export interface FirefliesTranscript {
+  id: string;
+  title: string;
+  date: number; // Unix timestamp in ms
+  dateString: string;
+  duration: number;
+  transcript_url: string;
+  audio_url: string;
+  video_url: string;
+  host_email: string;
+  organizer_email: string;
+  participants: string[];
+  fireflies_users: string[];
+  meeting_attendees: { displayName: string; email: string; name: string }[];
+  sentences: {
+    index: number;
+    speaker_name: string;
+    speaker_id: number;
+    text: string;
+    start_time: number;
+    end_time: number;
+  }[];
+  summary: {
+    keywords: string;
+    action_items: string;
+    outline: string;
+    overview: string;
+    shorthand_bullet: string;
+    gist: string;
+    bullet_gist: string;
+    short_summary: string;
+    short_overview: string;
+    meeting_type: string;
+    topics_discussed: string;
+  };
+}
+
+// ─── API ────────────────────────────────────────────────────
+
+const client = createFirefliesClient({
+  apiKey: process.env.FIREFLIES_API_KEY || "",
+  endpoint: FIREFLIES_API,
+  maxRetries: Number(process.env.FIREFLIES_MAX_RETRIES || 5),
+});
+
+async function fetchTranscripts(
+  limit: number,
+  skip: number,
+  fromDate: Date | null,
+  toDate: Date | null
+): Promise<{ batchSize: number; valid: FirefliesTranscript[]; rejected: TranscriptIssue[] }> {
+  const { data, errors } = await client.request(TRANSCRIPTS_QUERY, {
+    limit,
+    skip,
+    fromDate: fromDate?.toISOString(),
+    toDate: toDate?.toISOString(),
+  });
+  const batch: (FirefliesTranscript | null)[] = data?.transcripts || [];
+  return { batchSize: batch.length, ...partitionTranscripts("transcripts", batch, errors) };
+}
+
+async function fetchTranscript(id: string): Promise<FirefliesTranscript | null> {
+  const { data, errors } = await client.request(TRANSCRIPT_QUERY, { id });
+  const transcript: FirefliesTranscript | null = data?.transcript || null;
+  if (!transcript) return null;
+
+  const issues = validateTranscript(transcript);
+  if (issues.length > 0) {
+    const detail = errors.map((e) => e.message);
+    throw new Error(`Fireflies transcript ${id} is incomplete: ${[...issues, ...detail].join("; ")}`);
+  }
+  return transcript;
+}
+
+export function toCanonical(t: FirefliesTranscript): CanonicalMeeting {
+  return {
+    source: "fireflies",
+    external_id: t.id,
+    title: t.title,
+    date: t.date ?? null,
+    duration: t.duration ?? null,
+    transcript_url: t.transcript_url || null,
+    host_email: t.host_email || null,
+    organizer_email: t.organizer_email || null,
+    participants: t.participants || [],
+    meeting_attendees: t.meeting_attendees || [],
+    sentences: t.sentences || [],
+    summary: t.summary || {},
+  };
+}
+
+export const firefliesSource: TranscriptSource = {
+  name: "fireflies",
+
+  async listMeetings(window: SyncWindow, cursor: string | null): Promise<MeetingPage> {
+    const skip = cursor ? Number(cursor) : 0;
+    const { batchSize, valid, rejected } = await fetchTranscripts(PAGE_SIZE, skip, window.from, window.to);
+    return {
+      meetings: valid.map(toCanonical),
+      rejected: rejected.map((r) => ({ externalId: r.id, title: r.title, issues: r.issues })),
+      // Rejected transcripts still occupy their slot in the page
+      nextCursor: batchSize < PAGE_SIZE ? null : String(skip + batchSize),
+    };
+  },
+
+  async fetchMeeting(externalId: string): Promise<CanonicalMeeting | null> {
+    const transcript = await fetchTranscript(externalId);
+    return transcript ? toCanonical(transcript) : null;
+  },
+};
+
+// ─── Webhooks ───────────────────────────────────────────────
+
+export const TRANSCRIPTION_COMPLETED = "Transcription completed";
+
+export interface FirefliesWebhookPayload {
+  meetingId: string;
+  eventType: string;
+  clientReferenceId?: string;
+}
+
+/**
+ * Fireflies signs webhook bodies with HMAC-SHA256 of the raw request body,
+ * hex-encoded in the x-hub-signature header.
+ */
+export function verifyWebhookSignature(
+  body: string,
+  signature: string | null,
+  secret: string
+): boolean {
+  if (!signature || !secret) return false;
+  const expected = createHmac("sha256", secret).update(body).digest("hex");
+  const received = signature.replace(/^sha256=/, "");
+  if (received.length !== expected.length) return false;
+  return timingSafeEqual(Buffer.from(received), Buffer.from(expected));
+}
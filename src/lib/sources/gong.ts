@@ -0,0 +1,175 @@
+import type {
+  CanonicalMeeting,
+  MeetingPage,
+  SyncWindow,
+  TranscriptSentence,
+  TranscriptSource,
+} from "./types";
+
+const GONG_API = process.env.GONG_API_URL || "https://api.gong.io";
+
+interface GongParty {
+  id: string;
+  emailAddress?: string;
+  name?: string;
+  speakerId?: string;
+  affiliation?: "Internal" | "External" | "Unknown";
+}
+
+interface GongCall {
+  metaData: {
+    id: string;
+    url?: string;
+    title?: string;
+    scheduled?: string;
+    started?: string;
+    duration?: number; // seconds
+    primaryUserId?: string;
+  };
+  parties?: GongParty[];
+  content?: {
+    brief?: string;
+    keyPoints?: { text: string }[];
+    topics?: { name: string; duration: number }[];
+    callOutcome?: { name?: string };
+  };
+}
+
+interface GongTranscript {
+  callId: string;
+  transcript: {
+    speakerId: string;
+    topic?: string;
+    sentences: { start: number; end: number; text: string }[]; // ms
+  }[];
+}
+
+async function gongRequest(path: string, body: Record<string, unknown>): Promise<any> {
+  const credentials = Buffer.from(
+    `${process.env.GONG_ACCESS_KEY}:${process.env.GONG_ACCESS_KEY_SECRET}`
+  ).toString("base64");
+
+  const response = await fetch(`${GONG_API}${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Basic ${credentials}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  // Gong answers an empty result set with 404
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Gong API error: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
+
+async function fetchCalls(
+  filter: Record<string, unknown>,
+  cursor: string | null
+): Promise<{ calls: GongCall[]; cursor: string | null }> {
+  const data = await gongRequest("/v2/calls/extensive", {
+    filter,
+    cursor: cursor || undefined,
+    contentSelector: {
+      exposedFields: {
+        parties: true,
+        content: { brief: true, keyPoints: true, topics: true, callOutcome: true },
+      },
+    },
+  });
+  return { calls: data?.calls || [], cursor: data?.records?.cursor || null };
+}
+
+async function fetchTranscripts(callIds: string[]): Promise<Map<string, GongTranscript>> {
+  const byCall = new Map<string, GongTranscript>();
+  if (callIds.length === 0) return byCall;
+  const data = await gongRequest("/v2/calls/transcript", { filter: { callIds } });
+  for (const t of (data?.callTranscripts || []) as GongTranscript[]) {
+    byCall.set(t.callId, t);
+  }
+  return byCall;
+}
+
+function toCanonical(call: GongCall, transcript: GongTranscript | undefined): CanonicalMeeting {
+  const parties = call.parties || [];
+  const speakerNames = new Map<string, string>();
+  for (const p of parties) {
+    if (p.speakerId) speakerNames.set(p.speakerId, p.name || p.emailAddress || `Speaker ${p.speakerId}`);
+  }
+
+  // Gong groups sentences into monologues; flatten to one row per sentence
+  const sentences: TranscriptSentence[] = [];
+  for (const monologue of transcript?.transcript || []) {
+    for (const s of monologue.sentences) {
+      sentences.push({
+        index: sentences.length,
+        speaker_name: speakerNames.get(monologue.speakerId) || `Speaker ${monologue.speakerId}`,
+        speaker_id: monologue.speakerId,
+        text: s.text,
+        start_time: s.start / 1000,
+        end_time: s.end / 1000,
+      });
+    }
+  }
+
+  const emails = parties
+    .map((p) => p.emailAddress?.toLowerCase())
+    .filter((e): e is string => !!e);
+  const host = parties.find((p) => p.id === call.metaData.primaryUserId);
+  const started = call.metaData.started || call.metaData.scheduled;
+
+  return {
+    source: "gong",
+    external_id: call.metaData.id,
+    title: call.metaData.title || "Untitled",
+    date: started ? Date.parse(started) : null,
+    duration: call.metaData.duration ? call.metaData.duration / 60 : null,
+    transcript_url: call.metaData.url || null,
+    host_email: host?.emailAddress || null,
+    organizer_email: host?.emailAddress || null,
+    participants: Array.from(new Set(emails)),
+    meeting_attendees: parties
+      .filter((p) => p.emailAddress)
+      .map((p) => ({
+        displayName: p.name || "",
+        email: p.emailAddress!,
+        name: p.name || "",
+      })),
+    sentences,
+    summary: {
+      overview: call.content?.brief,
+      short_summary: call.content?.keyPoints?.map((k) => k.text).join("\n"),
+      topics_discussed: call.content?.topics?.map((t) => t.name).join(", "),
+      meeting_type: call.content?.callOutcome?.name,
+    },
+  };
+}
+
+export const gongSource: TranscriptSource = {
+  name: "gong",
+
+  async listMeetings(window: SyncWindow, cursor: string | null): Promise<MeetingPage> {
+    const { calls, cursor: next } = await fetchCalls(
+      {
+        fromDateTime: window.from?.toISOString(),
+        toDateTime: window.to?.toISOString(),
+      },
+      cursor
+    );
+    const transcripts = await fetchTranscripts(calls.map((c) => c.metaData.id));
+    return {
+      meetings: calls.map((c) => toCanonical(c, transcripts.get(c.metaData.id))),
+      nextCursor: next,
+    };
+  },
+
+  async fetchMeeting(externalId: string): Promise<CanonicalMeeting | null> {
+    const { calls } = await fetchCalls({ callIds: [externalId] }, null);
+    if (calls.length === 0) return null;
+    const transcripts = await fetchTranscripts([externalId]);
+    return toCanonical(calls[0], transcripts.get(externalId));
+  },
+};
@@ -0,0 +1,18 @@
+import { firefliesSource } from "./fireflies";
+import { gongSource } from "./gong";
+import type { TranscriptSource } from "./types";
+
+export type { CanonicalMeeting, TranscriptSource } from "./types";
+
+const SOURCES: Record<string, TranscriptSource> = {
+  [firefliesSource.name]: firefliesSource,
+  [gongSource.name]: gongSource,
+};
+
+export function getSource(name: string): TranscriptSource {
+  const source = SOURCES[name];
+  if (!source) {
+    throw new Error(`Unknown transcript source "${name}" (expected one of: ${Object.keys(SOURCES).join(", ")})`);
+  }
+  return source;
+}
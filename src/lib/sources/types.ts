@@ -0,0 +1,72 @@
+export interface MeetingAttendee {
+  displayName: string;
+  email: string;
+  name: string;
+}
+
+export interface TranscriptSentence {
+  index: number;
+  speaker_name: string;
+  speaker_id: string | number | null;
+  text: string;
+  start_time: number; // seconds from start of recording
+  end_time: number;
+}
+
+export interface MeetingSummary {
+  keywords?: string;
+  action_items?: string;
+  outline?: string;
+  overview?: string;
+  short_summary?: string;
+  meeting_type?: string;
+  topics_discussed?: string;
+}
+
+/**
+ * Provider-neutral meeting record that every source adapter produces.
+ * Field names follow the Fireflies shape the classifier and extraction
+ * pipeline already read out of raw_meetings.raw_json.
+ */
+export interface CanonicalMeeting {
+  source: string;
+  external_id: string;
+  title: string;
+  date: number | null; // Unix timestamp in ms
+  duration: number | null; // minutes
+  transcript_url: string | null;
+  host_email: string | null;
+  organizer_email: string | null;
+  participants: string[];
+  meeting_attendees: MeetingAttendee[];
+  sentences: TranscriptSentence[];
+  summary: MeetingSummary;
+}
+
+export interface SyncWindow {
+  from: Date | null;
+  to: Date | null;
+}
+
+/** A meeting the source returned but that failed validation and was not stored */
+export interface RejectedMeeting {
+  externalId: string | null;
+  title: string | null;
+  issues: string[];
+}
+
+export interface MeetingPage {
+  meetings: CanonicalMeeting[];
+  /** Meetings in this page that came back incomplete; retried on the next run */
+  rejected?: RejectedMeeting[];
+  /** Opaque cursor for the next page, or null when the window is exhausted */
+  nextCursor: string | null;
+}
+
+export interface TranscriptSource {
+  readonly name: string;
+  /** Fetch one page of meetings in a date window. A null cursor starts from the first page. */
+  listMeetings(window: SyncWindow, cursor: string | null): Promise<MeetingPage>;
+  /** Fetch one meeting. Throws if the source returned it incomplete. */
+  fetchMeeting(externalId: string): Promise<CanonicalMeeting | null>;
+}
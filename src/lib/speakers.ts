@@ -0,0 +1,246 @@
+import { and, eq, sql } from "drizzle-orm";
+import type { Database } from "../db";
+import {
+  meetingSpeakers,
+  rawMeetings,
+  teamMemberAliases,
+  teamMembers,
+  transcriptSentences,
+} from "../db/schema";
+import type { MeetingAttendee } from "./sources/types";
+
+export type SpeakerConfidence = "high" | "medium" | "low" | "none";
+
+export interface RosterMember {
+  id: string;
+  name: string;
+  email: string;
+  aliases: string[];
+}
+
+export interface ProspectCandidate {
+  id?: string;
+  name: string;
+}
+
+export interface SpeakerContext {
+  attendees: MeetingAttendee[];
+  roster: RosterMember[];
+  prospects: ProspectCandidate[];
+}
+
+export interface SpeakerResolution {
+  speakerLabel: string;
+  teamMemberId: string | null;
+  prospectContactId: string | null;
+  email: string | null;
+  resolvedName: string | null;
+  method: string;
+  confidence: SpeakerConfidence;
+}
+
+// "Speaker 2", "Unknown", phone numbers: nothing to match on
+const GENERIC_LABEL = /^(speaker\s*\d+|unknown|guest|\+?[\d\s().-]{7,})$/i;
+
+function normalize(name: string | null | undefined): string {
+  return (name || "").trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function firstName(name: string): string {
+  return normalize(name).split(" ")[0];
+}
+
+function unresolved(label: string): SpeakerResolution {
+  return {
+    speakerLabel: label,
+    teamMemberId: null,
+    prospectContactId: null,
+    email: null,
+    resolvedName: null,
+    method: "unresolved",
+    confidence: "none",
+  };
+}
+
+/**
+ * Match one transcript speaker label to a person. Strongest evidence first:
+ * email labels, full attendee names and roster aliases are "high"; unique
+ * first-name or email local-part matches are "medium"; names the LLM
+ * extracted as prospects are "medium" (full) or "low" (first name only).
+ */
+export function resolveSpeaker(label: string, ctx: SpeakerContext): SpeakerResolution {
+  const key = normalize(label);
+  if (!key || GENERIC_LABEL.test(key)) return unresolved(label);
+
+  const rosterByEmail = new Map(ctx.roster.map((m) => [m.email.toLowerCase(), m]));
+  const prospectByName = new Map(ctx.prospects.map((p) => [normalize(p.name), p]));
+  const attendeeNames = (a: MeetingAttendee) =>
+    [a.displayName, a.name].map(normalize).filter(Boolean);
+
+  const result = (
+    fields: Partial<SpeakerResolution>,
+    method: string,
+    confidence: SpeakerConfidence
+  ): SpeakerResolution => {
+    const email = fields.email?.toLowerCase() || null;
+    const member = email ? rosterByEmail.get(email) : undefined;
+    // An external attendee who is also a prospect the extractor named
+    const prospect = member
+      ? undefined
+      : prospectByName.get(key) || prospectByName.get(normalize(fields.resolvedName));
+    return {
+      ...unresolved(label),
+      ...fields,
+      email,
+      teamMemberId: fields.teamMemberId ?? member?.id ?? null,
+      prospectContactId: fields.prospectContactId ?? prospect?.id ?? null,
+      resolvedName: fields.resolvedName ?? member?.name ?? null,
+      method,
+      confidence,
+    };
+  };
+
+  // 1. The label is itself an email
+  if (key.includes("@")) {
+    const attendee = ctx.attendees.find((a) => normalize(a.email) === key);
+    return result({ email: key, resolvedName: attendee?.displayName || null }, "attendee_email", "high");
+  }
+
+  // 2. Full attendee name
+  const byName = ctx.attendees.find((a) => a.email && attendeeNames(a).includes(key));
+  if (byName) {
+    return result({ email: byName.email, resolvedName: byName.displayName || byName.name }, "attendee_name", "high");
+  }
+
+  // 3. Roster name or alias
+  const byRoster = ctx.roster.find(
+    (m) => normalize(m.name) === key || m.aliases.includes(key)
+  );
+  if (byRoster) {
+    return result({ email: byRoster.email, teamMemberId: byRoster.id, resolvedName: byRoster.name }, "roster_alias", "high");
+  }
+
+  // 4. Unique first name or email local part among attendees
+  const attendeeMatches = ctx.attendees.filter(
+    (a) =>
+      a.email &&
+      (attendeeNames(a).some((n) => firstName(n) === key) ||
+        normalize(a.email.split("@")[0]).replace(/[._-]+/g, " ") === key)
+  );
+  if (attendeeMatches.length === 1) {
+    const a = attendeeMatches[0];
+    return result({ email: a.email, resolvedName: a.displayName || a.name }, "attendee_partial", "medium");
+  }
+
+  // 5. Unique roster first name, preferring members who attended
+  const attendeeEmails = new Set(ctx.attendees.map((a) => normalize(a.email)));
+  const rosterFirst = ctx.roster.filter((m) => firstName(m.name) === key);
+  const present = rosterFirst.filter((m) => attendeeEmails.has(m.email.toLowerCase()));
+  const rosterPick = present.length === 1 ? present[0] : rosterFirst.length === 1 ? rosterFirst[0] : null;
+  if (rosterPick) {
+    return result(
+      { email: rosterPick.email, teamMemberId: rosterPick.id, resolvedName: rosterPick.name },
+      "roster_first_name",
+      present.length === 1 ? "medium" : "low"
+    );
+  }
+
+  // 6. Prospect names extracted from the call
+  const prospectFull = ctx.prospects.find((p) => normalize(p.name) === key);
+  if (prospectFull) {
+    return result({ prospectContactId: prospectFull.id || null, resolvedName: prospectFull.name }, "prospect_name", "medium");
+  }
+  const prospectFirst = ctx.prospects.filter((p) => firstName(p.name) === key);
+  if (prospectFirst.length === 1) {
+    const p = prospectFirst[0];
+    return result({ prospectContactId: p.id || null, resolvedName: p.name }, "prospect_first_name", "low");
+  }
+
+  return unresolved(label);
+}
+
+// ─── DB ─────────────────────────────────────────────────────
+
+export async function loadRoster(db: Database): Promise<RosterMember[]> {
+  const members = await db
+    .select({ id: teamMembers.id, name: teamMembers.name, email: teamMembers.email })
+    .from(teamMembers);
+  const aliases = await db
+    .select({ teamMemberId: teamMemberAliases.teamMemberId, alias: teamMemberAliases.alias })
+    .from(teamMemberAliases);
+
+  return members.map((m) => ({
+    ...m,
+    aliases: aliases.filter((a) => a.teamMemberId === m.id).map((a) => normalize(a.alias)),
+  }));
+}
+
+/**
+ * Resolve every distinct speaker label in a meeting and store the result in
+ * meeting_speakers. Manual mappings are kept as-is. Sentences of resolved
+ * speakers get their participant_email filled in.
+ */
+export async function resolveMeetingSpeakers(
+  db: Database,
+  rawMeetingId: string,
+  options: { prospects?: ProspectCandidate[]; roster?: RosterMember[] } = {}
+): Promise<SpeakerResolution[]> {
+  const meeting = await db
+    .select({ rawJson: rawMeetings.rawJson })
+    .from(rawMeetings)
+    .where(eq(rawMeetings.id, rawMeetingId))
+    .limit(1);
+  const attendees: MeetingAttendee[] = (meeting[0]?.rawJson as any)?.meeting_attendees || [];
+
+  const labels = await db
+    .selectDistinct({ label: transcriptSentences.speakerLabel })
+    .from(transcriptSentences)
+    .where(eq(transcriptSentences.rawMeetingId, rawMeetingId));
+
+  const manual = await db
+    .select({ speakerLabel: meetingSpeakers.speakerLabel })
+    .from(meetingSpeakers)
+    .where(and(eq(meetingSpeakers.rawMeetingId, rawMeetingId), eq(meetingSpeakers.method, "manual")));
+  const manualLabels = new Set(manual.map((m) => m.speakerLabel));
+
+  const ctx: SpeakerContext = {
+    attendees,
+    roster: options.roster || (await loadRoster(db)),
+    prospects: options.prospects || [],
+  };
+
+  const resolutions: SpeakerResolution[] = [];
+  for (const { label } of labels) {
+    if (!label || manualLabels.has(label)) continue;
+    const resolution = resolveSpeaker(label, ctx);
+    resolutions.push(resolution);
+
+    const { speakerLabel, ...fields } = resolution;
+    await db
+      .insert(meetingSpeakers)
+      .values({ rawMeetingId, speakerLabel, ...fields })
+      .onConflictDoUpdate({
+        target: [meetingSpeakers.rawMeetingId, meetingSpeakers.speakerLabel],
+        set: { ...fields, updatedAt: new Date() },
+      });
+  }
+
+  await syncSentenceEmails(db, rawMeetingId);
+  return resolutions;
+}
+
+/**
+ * Copy speaker emails onto the meeting's transcript_sentences rows. A label
+ * that is now unresolved, or mapped to someone without an email, has its old
+ * email cleared.
+ */
+export async function syncSentenceEmails(db: Database, rawMeetingId: string): Promise<void> {
+  await db.execute(sql`
+    UPDATE transcript_sentences ts
+    SET participant_email = ms.email
+    FROM meeting_speakers ms
+    WHERE ms.raw_meeting_id = ts.raw_meeting_id
+      AND ms.speaker_label = ts.speaker_label
+      AND ts.raw_meeting_id = ${rawMeetingId}
+  `);
+}
@@ -0,0 +1,234 @@
+import { and, desc, eq, inArray, sql } from "drizzle-orm";
+import type { Database } from "../db";
+import { callTechnologies, technologies, technologyAliases, technologyMentions } from "../db/schema";
+import { normalizeForMatch } from "./extraction-merge";
+
+/**
+ * Resolve extracted tech_stack names to the technologies table. A name
+ * matches a technology's name or one of its aliases, ignoring case and
+ * punctuation ("solidity", "Arb"). Names that match nothing are kept as
+ * technology_mentions so they can be reviewed by frequency and mapped to an
+ * existing technology or created as a new one, which backfills the calls that
+ * mentioned them.
+ */
+
+export function normalizeTechName(name: string): string {
+  return normalizeForMatch(name);
+}
+
+/** Normalized name or alias → technology id */
+export type TechnologyIndex = Map<string, string>;
+
+export async function loadTechnologyIndex(db: Database): Promise<TechnologyIndex> {
+  const [techRows, aliasRows] = await Promise.all([
+    db.select({ id: technologies.id, name: technologies.name }).from(technologies),
+    db.select({ alias: technologyAliases.alias, technologyId: technologyAliases.technologyId }).from(technologyAliases),
+  ]);
+  const index: TechnologyIndex = new Map();
+  for (const row of aliasRows) index.set(row.alias, row.technologyId);
+  // A technology's own name wins over an alias that collides with it
+  for (const row of techRows) index.set(normalizeTechName(row.name), row.id);
+  return index;
+}
+
+// technology_mentions.name and normalized_name are varchar(100)
+const MENTION_MAX_LENGTH = 100;
+
+export interface ResolvedTechStack {
+  technologyIds: string[];
+  unmatched: { name: string; normalizedName: string }[];
+  /** Unmatched names too long to queue (a sentence, not a technology) */
+  tooLong: string[];
+}
+
+export function resolveTechStack(names: string[], index: TechnologyIndex): ResolvedTechStack {
+  const technologyIds = new Set<string>();
+  const unmatched = new Map<string, string>();
+  const tooLong: string[] = [];
+  for (const name of names) {
+    const normalizedName = normalizeTechName(name);
+    if (!normalizedName) continue;
+    const id = index.get(normalizedName);
+    if (id) technologyIds.add(id);
+    else if (name.trim().length > MENTION_MAX_LENGTH || normalizedName.length > MENTION_MAX_LENGTH) tooLong.push(name.trim());
+    else if (!unmatched.has(normalizedName)) unmatched.set(normalizedName, name.trim());
+  }
+  return {
+    technologyIds: Array.from(technologyIds),
+    unmatched: Array.from(unmatched.entries()).map(([normalizedName, name]) => ({ name, normalizedName })),
+    tooLong,
+  };
+}
+
+/** Link call_technologies rows the call doesn't have yet; returns how many were added. */
+async function linkTechnologies(db: Database, callId: string, technologyIds: string[]): Promise<number> {
+  if (technologyIds.length === 0) return 0;
+  const existing = await db
+    .select({ technologyId: callTechnologies.technologyId })
+    .from(callTechnologies)
+    .where(and(eq(callTechnologies.callId, callId), inArray(callTechnologies.technologyId, technologyIds)));
+  const linked = new Set(existing.map((r) => r.technologyId));
+  const missing = technologyIds.filter((id) => !linked.has(id));
+  if (missing.length > 0) {
+    await db.insert(callTechnologies).values(missing.map((technologyId) => ({ callId, technologyId })));
+  }
+  return missing.length;
+}
+
+export interface TechStackSummary {
+  linked: number;
+  unmatched: number;
+}
+
+/**
+ * Store a call's tech_stack: known names become call_technologies, the rest
+ * technology_mentions. A name already ignored elsewhere is stored ignored.
+ * Safe to run again for the same call.
+ */
+export async function storeTechStack(db: Database, callId: string, names: string[]): Promise<TechStackSummary> {
+  const resolved = resolveTechStack(names, await loadTechnologyIndex(db));
+  const linked = await linkTechnologies(db, callId, resolved.technologyIds);
+  for (const name of resolved.tooLong) {
+    console.warn(`    Warning: skipped tech_stack entry over ${MENTION_MAX_LENGTH} characters: "${name.slice(0, 60)}..."`);
+  }
+
+  if (resolved.unmatched.length > 0) {
+    const ignoredRows = await db
+      .selectDistinct({ normalizedName: technologyMentions.normalizedName })
+      .from(technologyMentions)
+      .where(
+        and(
+          eq(technologyMentions.status, "ignored"),
+          inArray(
+            technologyMentions.normalizedName,
+            resolved.unmatched.map((u) => u.normalizedName)
+          )
+        )
+      );
+    const ignored = new Set(ignoredRows.map((r) => r.normalizedName));
+    await db
+      .insert(technologyMentions)
+      .values(
+        resolved.unmatched.map((u) => ({
+          callId,
+          name: u.name,
+          normalizedName: u.normalizedName,
+          status: ignored.has(u.normalizedName) ? "ignored" : "pending",
+        }))
+      )
+      .onConflictDoNothing();
+  }
+  return { linked, unmatched: resolved.unmatched.length };
+}
+
+// ─── Review queue ───────────────────────────────────────────
+
+export interface UnmatchedTechnology {
+  normalizedName: string;
+  /** Most common spelling as extracted */
+  name: string;
+  calls: number;
+  status: string;
+}
+
+export async function listUnmatchedTechnologies(db: Database, includeIgnored = false): Promise<UnmatchedTechnology[]> {
+  const callCount = sql<number>`count(*)::int`;
+  const rows = await db
+    .select({
+      normalizedName: technologyMentions.normalizedName,
+      name: sql<string>`mode() within group (order by ${technologyMentions.name})`,
+      calls: callCount,
+      status: technologyMentions.status,
+    })
+    .from(technologyMentions)
+    .where(includeIgnored ? undefined : eq(technologyMentions.status, "pending"))
+    .groupBy(technologyMentions.normalizedName, technologyMentions.status)
+    .orderBy(desc(callCount), technologyMentions.normalizedName);
+  return rows;
+}
+
+export interface MentionApproval {
+  technologyId: string;
+  technologyName: string;
+  aliasAdded: boolean;
+  callsLinked: number;
+}
+
+async function findTechnology(db: Database, name: string): Promise<{ id: string; name: string } | null> {
+  const id = (await loadTechnologyIndex(db)).get(normalizeTechName(name));
+  if (!id) return null;
+  const rows = await db.select({ id: technologies.id, name: technologies.name }).from(technologies).where(eq(technologies.id, id));
+  return rows[0] || null;
+}
+
+/** Alias the mention to the technology, link every call that mentioned it, and clear it from the queue. */
+async function attachMention(
+  db: Database,
+  normalizedName: string,
+  technology: { id: string; name: string }
+): Promise<MentionApproval> {
+  let aliasAdded = false;
+  if (normalizedName !== normalizeTechName(technology.name)) {
+    await db
+      .insert(technologyAliases)
+      .values({ alias: normalizedName, technologyId: technology.id })
+      .onConflictDoUpdate({ target: technologyAliases.alias, set: { technologyId: technology.id } });
+    aliasAdded = true;
+  }
+
+  const mentions = await db
+    .select({ callId: technologyMentions.callId })
+    .from(technologyMentions)
+    .where(eq(technologyMentions.normalizedName, normalizedName));
+  let callsLinked = 0;
+  for (const { callId } of mentions) {
+    callsLinked += await linkTechnologies(db, callId, [technology.id]);
+  }
+  await db.delete(technologyMentions).where(eq(technologyMentions.normalizedName, normalizedName));
+
+  return { technologyId: technology.id, technologyName: technology.name, aliasAdded, callsLinked };
+}
+
+/** The mention is another name for an existing technology (by name or alias). */
+export async function mapMention(db: Database, mention: string, technologyName: string): Promise<MentionApproval> {
+  const normalizedName = normalizeTechName(mention);
+  if (!normalizedName) throw new Error("Mention is empty");
+  const technology = await findTechnology(db, technologyName);
+  if (!technology) throw new Error(`No technology named "${technologyName}"`);
+  return attachMention(db, normalizedName, technology);
+}
+
+/** The mention is a technology we don't track yet: add it, then map the mention to it. */
+export async function createTechnologyFromMention(
+  db: Database,
+  mention: string,
+  options: { name?: string; category?: string | null } = {}
+): Promise<MentionApproval> {
+  const normalizedName = normalizeTechName(mention);
+  if (!normalizedName) throw new Error("Mention is empty");
+
+  let name = options.name?.trim();
+  if (!name) {
+    const queued = (await listUnmatchedTechnologies(db, true)).find((u) => u.normalizedName === normalizedName);
+    name = queued?.name || mention.trim();
+  }
+  const existing = await findTechnology(db, name);
+  if (existing) throw new Error(`"${name}" already resolves to ${existing.name}; map the mention to it instead`);
+
+  const inserted = await db
+    .insert(technologies)
+    .values({ name, category: options.category || null })
+    .returning({ id: technologies.id, name: technologies.name });
+  return attachMention(db, normalizedName, inserted[0]);
+}
+
+/** Not a technology (or not one worth tracking). Future mentions are stored ignored too. */
+export async function ignoreMention(db: Database, mention: string): Promise<number> {
+  const rows = await db
+    .update(technologyMentions)
+    .set({ status: "ignored" })
+    .where(eq(technologyMentions.normalizedName, normalizeTechName(mention)))
+    .returning({ id: technologyMentions.id });
+  if (rows.length === 0) throw new Error(`No mentions of "${mention}" in the queue`);
+  return rows.length;
+}
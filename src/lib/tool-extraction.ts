@@ -0,0 +1,131 @@
+import type Anthropic from "@anthropic-ai/sdk";
+import { validateSchema, type JsonSchema } from "./json-schema";
+
+/**
+ * Structured extraction through a forced tool call. The model must answer by
+ * calling `tool`; its input is validated against the tool's schema, and on
+ * failure the model gets one repair turn listing exactly what was wrong.
+ */
+
+export interface ExtractionTool {
+  name: string;
+  description: string;
+  input_schema: JsonSchema & { type: "object" };
+}
+
+export interface ToolExtractionRequest {
+  model: string;
+  maxTokens: number;
+  prompt: string;
+  tool: ExtractionTool;
+}
+
+export interface ExtractionFailure {
+  /** validation: bad input after the repair turn; no_tool_call: model answered in text */
+  reason: "validation" | "no_tool_call";
+  errors: string[];
+  /** Last tool input (or text) the model sent */
+  rawResponse: unknown;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/** usage covers every request made, repair turn included */
+export type ToolExtraction<T> =
+  | { ok: true; input: T; repaired: boolean; rawResponse: unknown; usage: TokenUsage }
+  | { ok: false; failure: ExtractionFailure; usage: TokenUsage };
+
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return { inputTokens: a.inputTokens + b.inputTokens, outputTokens: a.outputTokens + b.outputTokens };
+}
+
+function usageOf(response: Anthropic.Message): TokenUsage {
+  return { inputTokens: response.usage?.input_tokens ?? 0, outputTokens: response.usage?.output_tokens ?? 0 };
+}
+
+// Enough to show the model every problem without flooding the repair turn
+const MAX_REPORTED_ERRORS = 20;
+
+function toolUse(response: Anthropic.Message, name: string): Anthropic.ToolUseBlock | null {
+  for (const block of response.content) {
+    if (block.type === "tool_use" && block.name === name) return block;
+  }
+  return null;
+}
+
+function responseText(response: Anthropic.Message): string {
+  return response.content.map((b) => (b.type === "text" ? b.text : "")).join("").trim();
+}
+
+export async function runToolExtraction<T>(
+  client: Anthropic,
+  request: ToolExtractionRequest
+): Promise<ToolExtraction<T>> {
+  const { model, maxTokens, prompt, tool } = request;
+  const tools = [{ ...tool, input_schema: tool.input_schema as Anthropic.Tool.InputSchema }];
+  const messages: Anthropic.MessageParam[] = [{ role: "user", content: prompt }];
+
+  const first = await client.messages.create({
+    model,
+    max_tokens: maxTokens,
+    tools,
+    tool_choice: { type: "tool", name: tool.name },
+    messages,
+  });
+
+  const firstUsage = usageOf(first);
+  const call = toolUse(first, tool.name);
+  if (!call) {
+    return {
+      ok: false,
+      failure: { reason: "no_tool_call", errors: [`model did not call ${tool.name}`], rawResponse: responseText(first) },
+      usage: firstUsage,
+    };
+  }
+
+  const errors = validateSchema(tool.input_schema, call.input);
+  if (errors.length === 0) return { ok: true, input: call.input as T, repaired: false, rawResponse: call.input, usage: firstUsage };
+
+  // One targeted repair turn: hand the errors back as a failed tool result
+  const shown = errors.slice(0, MAX_REPORTED_ERRORS);
+  const more = errors.length > shown.length ? `\n(and ${errors.length - shown.length} more)` : "";
+  const repair = await client.messages.create({
+    model,
+    max_tokens: maxTokens,
+    tools,
+    tool_choice: { type: "tool", name: tool.name },
+    messages: [
+      ...messages,
+      { role: "assistant", content: first.content },
+      {
+        role: "user",
+        content: [
+          {
+            type: "tool_result",
+            tool_use_id: call.id,
+            is_error: true,
+            content: `The input failed validation:\n${shown.map((e) => `- ${e}`).join("\n")}${more}\n\nCall ${tool.name} again with the complete, corrected input. Only use the allowed values.`,
+          },
+        ],
+      },
+    ],
+  });
+
+  const usage = addUsage(firstUsage, usageOf(repair));
+  const retry = toolUse(repair, tool.name);
+  if (!retry) {
+    return {
+      ok: false,
+      failure: { reason: "no_tool_call", errors: [`model did not call ${tool.name} on repair`, ...errors], rawResponse: call.input },
+      usage,
+    };
+  }
+  const retryErrors = validateSchema(tool.input_schema, retry.input);
+  if (retryErrors.length > 0) {
+    return { ok: false, failure: { reason: "validation", errors: retryErrors, rawResponse: retry.input }, usage };
+  }
+  return { ok: true, input: retry.input as T, repaired: true, rawResponse: retry.input, usage };
+}
@@ -0,0 +1,114 @@
+/**
+ * Split a "Speaker: text" transcript (see buildTranscriptText) into chunks for
+ * map-reduce extraction. Chunks break between speaker turns, never inside one
+ * unless a single turn is longer than a chunk, and each chunk repeats the last
+ * turns of the previous one so nothing said across a boundary loses context.
+ */
+
+export interface ChunkOptions {
+  /** Upper bound on chunk length in characters */
+  maxChars: number;
+  /** Roughly how much of the previous chunk's tail to repeat */
+  overlapChars: number;
+}
+
+export interface TranscriptChunk {
+  index: number;
+  text: string;
+  /** Line range in the transcript covered by this chunk, overlap included */
+  firstLine: number;
+  lastLine: number;
+}
+
+interface Turn {
+  speaker: string;
+  lines: string[];
+  firstLine: number;
+  chars: number;
+}
+
+function speakerOf(line: string): string {
+  const sep = line.indexOf(": ");
+  return sep > 0 ? line.slice(0, sep) : "";
+}
+
+/** Group consecutive lines by the same speaker into turns. */
+function toTurns(lines: string[]): Turn[] {
+  const turns: Turn[] = [];
+  lines.forEach((line, i) => {
+    const speaker = speakerOf(line);
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === speaker) {
+      last.lines.push(line);
+      last.chars += line.length + 1;
+    } else {
+      turns.push({ speaker, lines: [line], firstLine: i, chars: line.length + 1 });
+    }
+  });
+  return turns;
+}
+
+/** Break a turn longer than maxChars into pieces on line (sentence) boundaries. */
+function splitTurn(turn: Turn, maxChars: number): Turn[] {
+  if (turn.chars <= maxChars) return [turn];
+  const pieces: Turn[] = [];
+  let current: Turn | null = null;
+  turn.lines.forEach((line, i) => {
+    // A single line over the limit is cut into pieces of its own
+    const segments: string[] = [];
+    for (let at = 0; at < line.length; at += maxChars - 1) segments.push(line.slice(at, at + maxChars - 1));
+    for (const segment of segments) {
+      if (!current || current.chars + segment.length + 1 > maxChars) {
+        current = { speaker: turn.speaker, lines: [], firstLine: turn.firstLine + i, chars: 0 };
+        pieces.push(current);
+      }
+      current.lines.push(segment);
+      current.chars += segment.length + 1;
+    }
+  });
+  return pieces;
+}
+
+function lastLineOf(turn: Turn): number {
+  return turn.firstLine + turn.lines.length - 1;
+}
+
+export function chunkTranscript(transcript: string, options: ChunkOptions): TranscriptChunk[] {
+  const { maxChars, overlapChars } = options;
+  const lines = transcript.split("\n").filter((l) => l.trim());
+  const turns = toTurns(lines).flatMap((t) => splitTurn(t, maxChars));
+  if (turns.length === 0) return [];
+
+  const chunks: TranscriptChunk[] = [];
+  let start = 0;
+  while (start < turns.length) {
+    // Fill the chunk with whole turns
+    let end = start;
+    let size = 0;
+    while (end < turns.length && (end === start || size + turns[end].chars <= maxChars)) {
+      size += turns[end].chars;
+      end++;
+    }
+
+    const slice = turns.slice(start, end);
+    chunks.push({
+      index: chunks.length,
+      text: slice.flatMap((t) => t.lines).join("\n"),
+      firstLine: slice[0].firstLine,
+      lastLine: lastLineOf(slice[slice.length - 1]),
+    });
+    if (end >= turns.length) break;
+
+    // Next chunk starts a few turns back, but always moves forward and leaves
+    // room for the turn that didn't fit
+    let next = end;
+    let overlap = 0;
+    const room = Math.min(overlapChars, maxChars - turns[end].chars);
+    while (next - 1 > start && overlap + turns[next - 1].chars <= room) {
+      overlap += turns[next - 1].chars;
+      next--;
+    }
+    start = next;
+  }
+  return chunks;
+}
@@ -0,0 +1,98 @@
+import { asc, eq } from "drizzle-orm";
+import type { Database } from "../db";
+import { transcriptSentences } from "../db/schema";
+import type { CanonicalMeeting, MeetingAttendee, TranscriptSentence } from "./sources/types";
+
+const INSERT_BATCH_SIZE = 500;
+
+type SentenceRow = typeof transcriptSentences.$inferSelect;
+
+/** Flatten speaker turns into the "Speaker: text" transcript the extractor reads. */
+export function buildTranscriptText(
+  sentences: { speaker_name?: string | null; speakerLabel?: string | null; text: string }[]
+): string {
+  return sentences
+    .map((s) => `${s.speaker_name ?? s.speakerLabel ?? "Unknown"}: ${s.text}`)
+    .join("\n");
+}
+
+/** Exact (case-insensitive) match of a speaker label to an attendee's display name. */
+function matchAttendeeEmail(speaker: string, attendees: MeetingAttendee[]): string | null {
+  const label = speaker.trim().toLowerCase();
+  if (!label) return null;
+  const match = attendees.find(
+    (a) =>
+      a.email &&
+      [a.displayName, a.name].some((n) => n && n.trim().toLowerCase() === label)
+  );
+  return match ? match.email.toLowerCase() : null;
+}
+
+/**
+ * Replace every stored sentence for a meeting with the given ones. Pass
+ * `untimed` when the sentences were rebuilt without real timestamps.
+ */
+export async function replaceSentences(
+  db: Database,
+  rawMeetingId: string,
+  sentences: TranscriptSentence[],
+  options: { attendees?: MeetingAttendee[]; untimed?: boolean } = {}
+): Promise<number> {
+  const attendees = options.attendees || [];
+  await db.delete(transcriptSentences).where(eq(transcriptSentences.rawMeetingId, rawMeetingId));
+
+  const rows = sentences.map((s, i) => ({
+    rawMeetingId,
+    sentenceIndex: s.index ?? i,
+    speakerLabel: s.speaker_name || null,
+    speakerId: s.speaker_id != null ? String(s.speaker_id) : null,
+    participantEmail: matchAttendeeEmail(s.speaker_name || "", attendees),
+    text: s.text || "",
+    startTime: options.untimed ? null : s.start_time ?? null,
+    endTime: options.untimed ? null : s.end_time ?? null,
+  }));
+
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    await db.insert(transcriptSentences).values(rows.slice(i, i + INSERT_BATCH_SIZE));
+  }
+  return rows.length;
+}
+
+export async function storeMeetingSentences(
+  db: Database,
+  rawMeetingId: string,
+  meeting: CanonicalMeeting
+): Promise<number> {
+  return replaceSentences(db, rawMeetingId, meeting.sentences, {
+    attendees: meeting.meeting_attendees,
+  });
+}
+
+export async function loadSentences(db: Database, rawMeetingId: string): Promise<SentenceRow[]> {
+  return db
+    .select()
+    .from(transcriptSentences)
+    .where(eq(transcriptSentences.rawMeetingId, rawMeetingId))
+    .orderBy(asc(transcriptSentences.sentenceIndex));
+}
+
+/**
+ * Rebuild speaker turns from a stored "Speaker: text" transcript, for meetings
+ * whose source can no longer be re-fetched. Store these with `untimed`.
+ */
+export function sentencesFromTranscriptText(transcriptText: string): TranscriptSentence[] {
+  return transcriptText
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line, index) => {
+      const sep = line.indexOf(": ");
+      return {
+        index,
+        speaker_name: sep > 0 ? line.slice(0, sep) : "Unknown",
+        speaker_id: null,
+        text: sep > 0 ? line.slice(sep + 2) : line,
+        start_time: 0,
+        end_time: 0,
+      };
+    });
+}
@@ -0,0 +1,48 @@
+import { createHash } from "crypto";
+import { gunzipSync, gzipSync } from "zlib";
+import { eq } from "drizzle-orm";
+import type { Database } from "../db";
+import { transcripts } from "../db/schema";
+
+// Below this gzip saves little and costs a decompress on every read
+const COMPRESS_MIN_BYTES = 2048;
+
+export function transcriptHash(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * Store a transcript once, keyed by the hash of its text, and return the
+ * hash for raw_meetings / calls to reference. Storing the same text again is
+ * a no-op. Empty text is not stored.
+ */
+export async function putTranscript(db: Database, text: string): Promise<string | null> {
+  if (!text) return null;
+  const hash = transcriptHash(text);
+  const plain = Buffer.from(text, "utf-8");
+  const compress = plain.length >= COMPRESS_MIN_BYTES;
+
+  await db
+    .insert(transcripts)
+    .values({
+      hash,
+      encoding: compress ? "gzip" : "plain",
+      content: compress ? gzipSync(plain) : plain,
+      sizeBytes: plain.length,
+    })
+    .onConflictDoNothing();
+  return hash;
+}
+
+export async function getTranscript(db: Database, hash: string | null | undefined): Promise<string | null> {
+  if (!hash) return null;
+  const rows = await db
+    .select({ encoding: transcripts.encoding, content: transcripts.content })
+    .from(transcripts)
+    .where(eq(transcripts.hash, hash))
+    .limit(1);
+  if (rows.length === 0) return null;
+
+  const { encoding, content } = rows[0];
+  return (encoding === "gzip" ? gunzipSync(content) : content).toString("utf-8");
+}
@@ -0,0 +1,109 @@
+/**
+ * Backfill transcript_sentences for meetings ingested before sentences were persisted.
+ * Re-fetches each meeting from its source to recover speaker ids and timestamps;
+ * falls back to splitting the stored transcript text (untimed) when the source
+ * can't be reached or with --no-fetch.
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { sql } from "drizzle-orm";
+import { rawMeetings } from "../db/schema";
+import { getSource } from "../lib/sources";
+import {
+  replaceSentences,
+  sentencesFromTranscriptText,
+  storeMeetingSentences,
+} from "../lib/transcript-sentences";
+import { getTranscript } from "../lib/transcript-store";
+
+const client = postgres(process.env.DATABASE_URL!, {
+  prepare: false,
+  ssl: "require",
+});
+const db = drizzle(client);
+
+const NO_FETCH = process.argv.includes("--no-fetch");
+const REFETCHABLE_SOURCES = ["fireflies", "gong"];
+
+// Delay between source API calls (ms)
+const API_DELAY = 1000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+async function main() {
+  console.log("=== Backfill: transcript_sentences ===\n");
+
+  const missing = await db
+    .select({
+      id: rawMeetings.id,
+      source: rawMeetings.source,
+      externalId: rawMeetings.externalId,
+      title: rawMeetings.title,
+      rawJson: rawMeetings.rawJson,
+      transcriptHash: rawMeetings.transcriptHash,
+    })
+    .from(rawMeetings)
+    .where(
+      sql`NOT EXISTS (SELECT 1 FROM transcript_sentences ts WHERE ts.raw_meeting_id = ${rawMeetings.id})`
+    );
+
+  console.log(`Found ${missing.length} meetings without sentences\n`);
+
+  const stats = { refetched: 0, fromText: 0, empty: 0, errors: 0 };
+
+  for (let i = 0; i < missing.length; i++) {
+    const meeting = missing[i];
+    console.log(`[${i + 1}/${missing.length}] ${meeting.source}:${meeting.externalId} "${meeting.title}"`);
+
+    try {
+      if (!NO_FETCH && REFETCHABLE_SOURCES.includes(meeting.source)) {
+        await sleep(API_DELAY);
+        const fetched = await getSource(meeting.source).fetchMeeting(meeting.externalId);
+        if (fetched && fetched.sentences.length > 0) {
+          const count = await storeMeetingSentences(db, meeting.id, fetched);
+          console.log(`  Re-fetched ${count} sentences`);
+          stats.refetched++;
+          continue;
+        }
+        console.log("  Not available upstream, falling back to stored transcript text");
+      }
+
+      const transcriptText =
+        (await getTranscript(db, meeting.transcriptHash)) || (meeting.rawJson as any)?.transcript_text || "";
+      const sentences = sentencesFromTranscriptText(transcriptText);
+      if (sentences.length === 0) {
+        console.log("  No transcript text stored");
+        stats.empty++;
+        continue;
+      }
+      const count = await replaceSentences(db, meeting.id, sentences, {
+        attendees: (meeting.rawJson as any)?.meeting_attendees || [],
+        untimed: true,
+      });
+      console.log(`  Rebuilt ${count} untimed sentences from stored transcript text`);
+      stats.fromText++;
+    } catch (err) {
+      console.error(`  Error: ${(err as Error).message.slice(0, 120)}`);
+      stats.errors++;
+    }
+  }
+
+  console.log(`\n=== Backfill Complete ===`);
+  console.log(`Re-fetched from source: ${stats.refetched}`);
+  console.log(`Rebuilt from stored text: ${stats.fromText}`);
+  console.log(`No transcript: ${stats.empty}`);
+  console.log(`Errors: ${stats.errors}`);
+
+  await client.end();
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
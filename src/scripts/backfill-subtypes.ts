@@ -0,0 +1,96 @@
+/**
+ * Backfill meeting subtypes (new_business, existing_customer, renewal_upsell,
+ * recruiting, investor) for meetings processed before subtypes existed, or
+ * after changing the rules in src/lib/meeting-subtype.ts. No LLM calls: uses
+ * the stored summary fields, call_type and prior calls per company.
+ *
+ *   npx tsx src/scripts/backfill-subtypes.ts [--only-missing]
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { and, eq, isNotNull, isNull } from "drizzle-orm";
+import { calls, rawMeetings } from "../db/schema";
+import type { Classification } from "../lib/classifier";
+import { countPriorCalls, detectSubtype } from "../lib/meeting-subtype";
+
+const client = postgres(process.env.DATABASE_URL!, {
+  prepare: false,
+  ssl: "require",
+});
+const db = drizzle(client);
+
+const ONLY_MISSING = process.argv.includes("--only-missing");
+
+async function main() {
+  console.log("=== Backfill: meeting subtypes ===\n");
+
+  const meetings = await db
+    .select({
+      id: rawMeetings.id,
+      title: rawMeetings.title,
+      classification: rawMeetings.classification,
+      rawJson: rawMeetings.rawJson,
+      subtype: rawMeetings.subtype,
+    })
+    .from(rawMeetings)
+    .where(
+      and(
+        isNotNull(rawMeetings.classification),
+        isNotNull(rawMeetings.processedAt),
+        isNull(rawMeetings.deletedAt),
+        ONLY_MISSING ? isNull(rawMeetings.subtype) : undefined
+      )
+    )
+    .orderBy(rawMeetings.date);
+
+  console.log(`Found ${meetings.length} meetings\n`);
+
+  const counts: Record<string, number> = {};
+  let changed = 0;
+
+  for (const meeting of meetings) {
+    const rawData = (meeting.rawJson as any) || {};
+    const call = (
+      await db
+        .select({ id: calls.id, companyId: calls.companyId, callType: calls.callType, date: calls.date })
+        .from(calls)
+        .where(eq(calls.rawMeetingId, meeting.id))
+        .limit(1)
+    )[0];
+
+    const priorCalls = call?.companyId ? await countPriorCalls(db, call.companyId, call.date, meeting.id) : 0;
+    const { subtype, reason } = detectSubtype({
+      classification: meeting.classification as Classification,
+      data: rawData,
+      callType: call?.callType ?? null,
+      priorCalls,
+    });
+
+    if (subtype !== meeting.subtype) {
+      console.log(`  "${meeting.title}": ${meeting.subtype ?? "-"} → ${subtype ?? "-"} (${reason})`);
+      changed++;
+    }
+    await db.update(rawMeetings).set({ subtype, subtypeReason: reason }).where(eq(rawMeetings.id, meeting.id));
+    if (call) {
+      await db.update(calls).set({ subtype }).where(eq(calls.id, call.id));
+    }
+    counts[subtype ?? "none"] = (counts[subtype ?? "none"] || 0) + 1;
+  }
+
+  console.log(`\n=== Backfill Complete ===`);
+  console.log(`Changed: ${changed}`);
+  for (const [subtype, count] of Object.entries(counts)) {
+    console.log(`  ${subtype}: ${count}`);
+  }
+
+  await client.end();
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
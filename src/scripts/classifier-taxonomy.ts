@@ -0,0 +1,151 @@
+/**
+ * Inspect and tune the keyword taxonomy the rule classifier scores with.
+ * Changes apply to the next process-calls run; no deploy needed. Check the
+ * effect with `eval-classifier.ts --taxonomy db` before re-queueing meetings.
+ *
+ *   npx tsx src/scripts/classifier-taxonomy.ts list
+ *   npx tsx src/scripts/classifier-taxonomy.ts keyword <classification> "<keyword>" <weight> [--match word|prefix]
+ *   npx tsx src/scripts/classifier-taxonomy.ts remove <classification> "<keyword>"
+ *   npx tsx src/scripts/classifier-taxonomy.ts threshold <classification> <minScore> [--fallback <score>|none]
+ *   npx tsx src/scripts/classifier-taxonomy.ts field <field> <weight>
+ *   npx tsx src/scripts/classifier-taxonomy.ts export <out.json>    Current taxonomy, for eval-classifier --taxonomy
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { and, eq } from "drizzle-orm";
+import { writeFileSync } from "fs";
+import { classifierFieldWeights, classifierKeywords, classifierThresholds } from "../db/schema";
+import { CLASSIFICATIONS, type Classification } from "../lib/classifier";
+import { TAXONOMY_FIELDS, loadTaxonomy, type MatchType, type TaxonomyField } from "../lib/keyword-taxonomy";
+import { argValue, positionalArgs } from "../lib/cli-args";
+
+const client = postgres(process.env.DATABASE_URL!, {
+  prepare: false,
+  ssl: "require",
+});
+const db = drizzle(client);
+
+// Flags that take a value
+const VALUE_FLAGS = ["--match", "--fallback"];
+
+function classificationArg(value: string | undefined): Classification {
+  if (!CLASSIFICATIONS.includes(value as Classification)) {
+    throw new Error(`Classification must be one of ${CLASSIFICATIONS.join(", ")}, got "${value}"`);
+  }
+  return value as Classification;
+}
+
+function numberArg(name: string, value: string | undefined): number {
+  const n = Number(value);
+  if (value === undefined || !Number.isFinite(n)) throw new Error(`${name} must be a number, got "${value}"`);
+  return n;
+}
+
+async function list() {
+  const taxonomy = await loadTaxonomy(db);
+  const stored = await db.select({ id: classifierKeywords.id }).from(classifierKeywords).limit(1);
+  if (stored.length === 0) console.log("(classifier_keywords is empty: showing built-in defaults; run seed.ts)\n");
+
+  for (const cls of CLASSIFICATIONS) {
+    const { minScore, fallbackScore } = taxonomy.thresholds[cls];
+    console.log(`--- ${cls} (min ${minScore}${fallbackScore !== null ? `, fallback ${fallbackScore}` : ""}) ---`);
+    const keywords = taxonomy.keywords
+      .filter((k) => k.classification === cls)
+      .sort((a, b) => b.weight - a.weight || a.keyword.localeCompare(b.keyword));
+    for (const k of keywords) {
+      console.log(`  ${String(k.weight).padStart(5)}  ${k.keyword}${k.matchType === "prefix" ? "*" : ""}`);
+    }
+  }
+
+  console.log("\n--- Field weights ---");
+  for (const field of TAXONOMY_FIELDS) {
+    console.log(`  ${field}: ${taxonomy.fieldWeights[field]}`);
+  }
+}
+
+async function main() {
+  const [command, ...args] = positionalArgs(VALUE_FLAGS);
+
+  switch (command) {
+    case undefined:
+    case "list":
+      await list();
+      break;
+
+    case "keyword": {
+      const classification = classificationArg(args[0]);
+      const keyword = (args[1] || "").trim().toLowerCase();
+      if (!keyword) throw new Error("Keyword is required");
+      const weight = numberArg("Weight", args[2]);
+      const matchType = (argValue("--match") || "word") as MatchType;
+      if (matchType !== "word" && matchType !== "prefix") throw new Error(`--match must be word or prefix`);
+      await db
+        .insert(classifierKeywords)
+        .values({ classification, keyword, weight, matchType })
+        .onConflictDoUpdate({
+          target: [classifierKeywords.classification, classifierKeywords.keyword],
+          set: { weight, matchType },
+        });
+      console.log(`${classification}: "${keyword}" weight ${weight} (${matchType})`);
+      break;
+    }
+
+    case "remove": {
+      const classification = classificationArg(args[0]);
+      const keyword = (args[1] || "").trim().toLowerCase();
+      const removed = await db
+        .delete(classifierKeywords)
+        .where(and(eq(classifierKeywords.classification, classification), eq(classifierKeywords.keyword, keyword)))
+        .returning({ id: classifierKeywords.id });
+      if (removed.length === 0) throw new Error(`No ${classification} keyword "${keyword}"`);
+      console.log(`${classification}: removed "${keyword}"`);
+      break;
+    }
+
+    case "threshold": {
+      const classification = classificationArg(args[0]);
+      const minScore = numberArg("minScore", args[1]);
+      const fallback = argValue("--fallback");
+      const fallbackScore = fallback === undefined || fallback === "none" ? null : numberArg("--fallback", fallback);
+      await db
+        .insert(classifierThresholds)
+        .values({ classification, minScore, fallbackScore })
+        .onConflictDoUpdate({ target: classifierThresholds.classification, set: { minScore, fallbackScore } });
+      console.log(`${classification}: min ${minScore}, fallback ${fallbackScore ?? "none"}`);
+      break;
+    }
+
+    case "field": {
+      const field = args[0] as TaxonomyField;
+      if (!TAXONOMY_FIELDS.includes(field)) throw new Error(`Field must be one of ${TAXONOMY_FIELDS.join(", ")}`);
+      const weight = numberArg("Weight", args[1]);
+      await db
+        .insert(classifierFieldWeights)
+        .values({ field, weight })
+        .onConflictDoUpdate({ target: classifierFieldWeights.field, set: { weight } });
+      console.log(`${field}: weight ${weight}`);
+      break;
+    }
+
+    case "export": {
+      if (!args[0]) throw new Error("Output path is required");
+      writeFileSync(args[0], JSON.stringify(await loadTaxonomy(db), null, 2) + "\n");
+      console.log(`Wrote taxonomy to ${args[0]}`);
+      break;
+    }
+
+    default:
+      throw new Error(`Unknown command "${command}"`);
+  }
+
+  await client.end();
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
@@ -0,0 +1,151 @@
+/**
+ * Company sectors (protocol categories): enrich companies from their calls,
+ * review and correct assignments, and edit the sectors vocabulary.
+ * Enrichment is in src/lib/company-sectors.ts; process-calls re-runs it for a
+ * company whenever it stores a new call for it.
+ *
+ *   npx tsx src/scripts/company-sectors.ts enrich [--force] [--no-llm] [--company "<name>"]   Companies due (new calls, never assigned)
+ *   npx tsx src/scripts/company-sectors.ts list [--sector <key>] [--unassigned]
+ *   npx tsx src/scripts/company-sectors.ts set "<company>" <sectorKey|none>   Manual; enrichment leaves it alone
+ *   npx tsx src/scripts/company-sectors.ts release "<company>"                Back to enrichment
+ *   npx tsx src/scripts/company-sectors.ts sectors                            Vocabulary with company counts
+ *   npx tsx src/scripts/company-sectors.ts add-sector <key> "<Display Name>" [--description "..."] [--keywords "a, b"]
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+import Anthropic from "@anthropic-ai/sdk";
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { and, eq, ilike, isNull } from "drizzle-orm";
+import { companies, sectors } from "../db/schema";
+import { enrichCompanySector, loadSectors, releaseCompanySector, setCompanySector } from "../lib/company-sectors";
+import { toTypeKey } from "../lib/objection-discovery";
+import { argValue, positionalArgs } from "../lib/cli-args";
+
+const client = postgres(process.env.DATABASE_URL!, {
+  prepare: false,
+  ssl: "require",
+});
+const db = drizzle(client);
+
+// Flags that take a value
+const VALUE_FLAGS = ["--company", "--sector", "--description", "--keywords"];
+
+async function companyByName(name: string): Promise<{ id: string; name: string }> {
+  const rows = await db.select({ id: companies.id, name: companies.name }).from(companies).where(ilike(companies.name, name)).limit(1);
+  if (rows.length === 0) throw new Error(`No company named "${name}"`);
+  return rows[0];
+}
+
+async function enrich(force: boolean, useModel: boolean, companyName: string | undefined) {
+  console.log("=== Company sector enrichment ===\n");
+  const anthropic = useModel ? new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY! }) : null;
+  const vocabulary = await loadSectors(db);
+  if (vocabulary.length === 0) throw new Error("sectors is empty; run npx tsx src/scripts/seed.ts first");
+
+  const targets = companyName ? [await companyByName(companyName)] : await db.select({ id: companies.id, name: companies.name }).from(companies);
+  const counts = { assigned: 0, up_to_date: 0, skipped_manual: 0, undecided: 0 };
+  for (const company of targets) {
+    const result = await enrichCompanySector(db, anthropic, company.id, { force, vocabulary });
+    if (result.status === "assigned") counts.assigned++;
+    else if (result.status === "up_to_date") counts.up_to_date++;
+    else if (result.status === "skipped_manual") counts.skipped_manual++;
+    else counts.undecided++;
+
+    if (result.assignment) {
+      const a = result.assignment;
+      console.log(`  ${company.name} → ${a.sectorKey || "none"} (${a.source}, ${a.confidence}) ${a.evidence.slice(0, 120)}`);
+    } else if (result.status === "undecided") {
+      console.log(`  ${company.name}: undecided${useModel ? "" : " (no clear keywords; run without --no-llm)"}`);
+    }
+  }
+
+  console.log(
+    `\nAssigned ${counts.assigned}, up to date ${counts.up_to_date}, manual ${counts.skipped_manual}, undecided ${counts.undecided}`
+  );
+}
+
+async function list(sectorKey: string | undefined, unassignedOnly: boolean) {
+  const rows = await db
+    .select()
+    .from(companies)
+    .where(and(sectorKey ? eq(companies.sector, sectorKey) : undefined, unassignedOnly ? isNull(companies.sector) : undefined))
+    .orderBy(companies.sector, companies.name);
+  console.log(`--- Companies (${rows.length}) ---`);
+  for (const row of rows) {
+    const source = row.sectorSource ? ` [${row.sectorSource}${row.sectorConfidence !== null ? ` ${row.sectorConfidence}` : ""}]` : "";
+    console.log(`  ${row.name} | ${row.sector || "no sector"}${source}`);
+    if (row.sectorEvidence) console.log(`      ${row.sectorEvidence.slice(0, 140)}`);
+  }
+}
+
+async function showSectors() {
+  const rows = await client`
+    SELECT s.key, s.display_name, s.keywords, COUNT(c.id) as companies
+    FROM sectors s LEFT JOIN companies c ON c.sector = s.key
+    GROUP BY s.id
+    ORDER BY s.key
+  `;
+  console.log(`--- Sectors (${rows.length}) ---`);
+  for (const row of rows) {
+    console.log(`  ${row.key} "${row.display_name}" | ${row.companies} companies | ${(row.keywords as string[]).join(", ")}`);
+  }
+}
+
+async function addSector(key: string, displayName: string) {
+  const sectorKey = toTypeKey(key);
+  if (!sectorKey) throw new Error("Sector key is empty");
+  const keywords = (argValue("--keywords") || "")
+    .split(",")
+    .map((k) => k.trim())
+    .filter(Boolean);
+  await db.insert(sectors).values({ key: sectorKey, displayName, description: argValue("--description") || null, keywords });
+  console.log(`Added sector ${sectorKey}. Re-run with: npx tsx src/scripts/company-sectors.ts enrich --force`);
+}
+
+async function main() {
+  const [command, ...args] = positionalArgs(VALUE_FLAGS);
+
+  switch (command) {
+    case "enrich":
+      await enrich(process.argv.includes("--force"), !process.argv.includes("--no-llm"), argValue("--company"));
+      break;
+    case undefined:
+    case "list":
+      await list(argValue("--sector"), process.argv.includes("--unassigned"));
+      break;
+    case "set": {
+      if (!args[0] || !args[1]) throw new Error('set needs a company and a sector key (or none), e.g. set "Acme" dex');
+      const company = await companyByName(args[0]);
+      const sectorKey = args[1] === "none" ? null : args[1];
+      await setCompanySector(db, company.id, sectorKey);
+      console.log(`${company.name} → ${sectorKey || "none"} (manual)`);
+      break;
+    }
+    case "release": {
+      if (!args[0]) throw new Error("release needs a company");
+      const company = await companyByName(args[0]);
+      await releaseCompanySector(db, company.id);
+      console.log(`${company.name} is back under enrichment; run enrich to reassign`);
+      break;
+    }
+    case "sectors":
+      await showSectors();
+      break;
+    case "add-sector":
+      if (!args[0] || !args[1]) throw new Error('add-sector needs a key and a display name, e.g. add-sector launchpad "Launchpad"');
+      await addSector(args[0], args[1]);
+      break;
+    default:
+      throw new Error(`Unknown command "${command}"`);
+  }
+
+  await client.end();
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
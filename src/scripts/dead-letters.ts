@@ -0,0 +1,88 @@
+/**
+ * Review and retry extractions that failed validation (after the repair turn)
+ * or errored. process-calls resolves a dead letter once the meeting extracts.
+ *
+ *   npx tsx src/scripts/dead-letters.ts list [--all]        Open dead letters (--all includes resolved)
+ *   npx tsx src/scripts/dead-letters.ts show <rawMeetingId>  Errors and the model's last response
+ *   npx tsx src/scripts/dead-letters.ts requeue <rawMeetingId>
+ *   npx tsx src/scripts/dead-letters.ts requeue --all       Queue every open dead letter for process-calls
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { requeueDeadLetters } from "../lib/dead-letters";
+import { positionalArgs } from "../lib/cli-args";
+
+const client = postgres(process.env.DATABASE_URL!, {
+  prepare: false,
+  ssl: "require",
+});
+const db = drizzle(client);
+
+async function list(includeResolved: boolean) {
+  const rows = await client`
+    SELECT dl.raw_meeting_id, dl.extractor, dl.reason, dl.errors, dl.attempts, dl.updated_at, dl.resolved_at, rm.title
+    FROM extraction_dead_letters dl
+    JOIN raw_meetings rm ON rm.id = dl.raw_meeting_id
+    WHERE ${includeResolved} OR dl.resolved_at IS NULL
+    ORDER BY dl.updated_at DESC
+  `;
+  console.log(`--- Dead letters (${rows.length}${includeResolved ? "" : " open"}) ---`);
+  for (const row of rows) {
+    const when = new Date(row.updated_at).toISOString().replace("T", " ").slice(0, 16);
+    const status = row.resolved_at ? " [resolved]" : "";
+    console.log(`  ${when} | ${row.raw_meeting_id} "${row.title}" | ${row.extractor} ${row.reason} x${row.attempts}${status}`);
+    const errors: string[] = row.errors || [];
+    for (const e of errors.slice(0, 3)) console.log(`      ${e.slice(0, 160)}`);
+    if (errors.length > 3) console.log(`      ... ${errors.length - 3} more`);
+  }
+}
+
+async function show(rawMeetingId: string) {
+  const rows = await client`
+    SELECT dl.*, rm.title FROM extraction_dead_letters dl
+    JOIN raw_meetings rm ON rm.id = dl.raw_meeting_id
+    WHERE dl.raw_meeting_id = ${rawMeetingId}
+  `;
+  if (rows.length === 0) throw new Error(`No dead letter for ${rawMeetingId}`);
+  for (const row of rows) {
+    console.log(`=== ${row.extractor}: "${row.title}" (${row.reason}, ${row.attempts} attempt(s)${row.resolved_at ? ", resolved" : ""}) ===`);
+    console.log("\nErrors:");
+    for (const e of row.errors || []) console.log(`  - ${e}`);
+    console.log("\nLast response:");
+    console.log(JSON.stringify(row.raw_response, null, 2));
+  }
+}
+
+async function main() {
+  const [command, ...args] = positionalArgs([]);
+
+  switch (command) {
+    case undefined:
+    case "list":
+      await list(process.argv.includes("--all"));
+      break;
+    case "show":
+      if (!args[0]) throw new Error("show needs a rawMeetingId");
+      await show(args[0]);
+      break;
+    case "requeue": {
+      if (!args[0] && !process.argv.includes("--all")) throw new Error("requeue needs a rawMeetingId or --all");
+      const ids = await requeueDeadLetters(db, args[0]);
+      console.log(`Queued ${ids.length} meeting(s) for process-calls`);
+      break;
+    }
+    default:
+      throw new Error(`Unknown command "${command}"`);
+  }
+
+  await client.end();
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
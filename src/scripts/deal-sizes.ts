@@ -0,0 +1,166 @@
+/**
+ * Structured deal sizes: backfill the parsed columns on calls, review the
+ * ones flagged, and total the pipeline. Parsing is in src/lib/deal-size.ts.
+ *
+ *   npx tsx src/scripts/deal-sizes.ts backfill [--all] [--no-llm]   Parse calls not parsed yet (--all: re-parse all but manual)
+ *   npx tsx src/scripts/deal-sizes.ts review [--limit N]            Flagged deal sizes
+ *   npx tsx src/scripts/deal-sizes.ts set <callId> <min> [max] [--currency USD] [--unit one_off|monthly|annual]
+ *   npx tsx src/scripts/deal-sizes.ts set <callId> none              The text has no amount
+ *   npx tsx src/scripts/deal-sizes.ts summary                        Pipeline totals by currency and unit
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+import Anthropic from "@anthropic-ai/sdk";
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { and, desc, eq, isNotNull, isNull, ne, or } from "drizzle-orm";
+import { calls, companies } from "../db/schema";
+import {
+  applyDealSize,
+  DEAL_CURRENCIES,
+  DEAL_UNITS,
+  formatDealSize,
+  setDealSizeManually,
+  type DealCurrency,
+  type DealUnit,
+} from "../lib/deal-size";
+import { argValue, positionalArgs } from "../lib/cli-args";
+
+const client = postgres(process.env.DATABASE_URL!, {
+  prepare: false,
+  ssl: "require",
+});
+const db = drizzle(client);
+
+// Flags that take a value
+const VALUE_FLAGS = ["--limit", "--currency", "--unit"];
+
+async function backfill(all: boolean, useModel: boolean) {
+  console.log("=== Backfill: structured deal sizes ===\n");
+  const anthropic = useModel ? new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY! }) : null;
+
+  const rows = await db
+    .select({ id: calls.id, dealSize: calls.dealSize })
+    .from(calls)
+    .where(
+      and(
+        isNotNull(calls.dealSize),
+        ne(calls.dealSize, ""),
+        // Reviewers' readings are never overwritten
+        all ? or(isNull(calls.dealSizeSource), ne(calls.dealSizeSource, "manual")) : isNull(calls.dealSizeSource)
+      )
+    );
+  console.log(`${rows.length} call(s) to parse${useModel ? "" : " (parser only)"}\n`);
+
+  const counts = { parser: 0, llm: 0, flagged: 0 };
+  for (const row of rows) {
+    const resolution = await applyDealSize(db, anthropic, row.id, row.dealSize);
+    if (!resolution) continue;
+    counts[resolution.source]++;
+    if (resolution.needsReview) counts.flagged++;
+    const reading = resolution.parsed ? formatDealSize(resolution.parsed) : "no amount";
+    console.log(`  "${row.dealSize}" → ${reading} (${resolution.source}${resolution.needsReview ? ", flagged" : ""})`);
+  }
+
+  console.log(`\nParsed ${counts.parser} by rule, ${counts.llm} by model; ${counts.flagged} flagged for review`);
+}
+
+async function review(limit: number) {
+  const rows = await db
+    .select({
+      id: calls.id,
+      dealSize: calls.dealSize,
+      min: calls.dealSizeMin,
+      max: calls.dealSizeMax,
+      currency: calls.dealSizeCurrency,
+      unit: calls.dealSizeUnit,
+      confidence: calls.dealSizeConfidence,
+      company: companies.name,
+    })
+    .from(calls)
+    .leftJoin(companies, eq(companies.id, calls.companyId))
+    .where(eq(calls.dealSizeNeedsReview, true))
+    .orderBy(desc(calls.date))
+    .limit(limit);
+  console.log(`--- Deal sizes to review (${rows.length}${rows.length === limit ? "+" : ""}) ---`);
+  for (const row of rows) {
+    const reading =
+      row.currency && row.unit
+        ? `${formatDealSize({ min: row.min, max: row.max, currency: row.currency as DealCurrency, unit: row.unit as DealUnit })}, confidence ${row.confidence}`
+        : "no amount";
+    console.log(`  ${row.id} | ${row.company || "?"} | "${row.dealSize}" → ${reading}`);
+  }
+  if (rows.length > 0) console.log(`\nFix with: npx tsx src/scripts/deal-sizes.ts set <callId> <min> [max] | none`);
+}
+
+async function set(callId: string, args: string[]) {
+  if (args[0] === "none") {
+    await setDealSizeManually(db, callId, null);
+    console.log(`Call ${callId}: no amount`);
+    return;
+  }
+  const min = Number(args[0]);
+  const max = args[1] !== undefined ? Number(args[1]) : min;
+  if (!Number.isFinite(min) || !Number.isFinite(max)) throw new Error("min and max must be numbers, e.g. set <callId> 50000 80000");
+
+  const currency = (argValue("--currency") || "USD").toUpperCase() as DealCurrency;
+  if (!DEAL_CURRENCIES.includes(currency)) throw new Error(`--currency must be one of ${DEAL_CURRENCIES.join(", ")}`);
+  const unit = (argValue("--unit") || "one_off") as DealUnit;
+  if (!DEAL_UNITS.includes(unit)) throw new Error(`--unit must be one of ${DEAL_UNITS.join(", ")}`);
+
+  const value = { min: Math.min(min, max), max: Math.max(min, max), currency, unit };
+  await setDealSizeManually(db, callId, value);
+  console.log(`Call ${callId}: ${formatDealSize(value)}`);
+}
+
+async function summary() {
+  const rows = await client`
+    SELECT deal_size_currency as currency, deal_size_unit as unit, COUNT(*) as calls,
+           SUM(COALESCE(deal_size_min, deal_size_max)) as low, SUM(COALESCE(deal_size_max, deal_size_min)) as high
+    FROM calls
+    WHERE deal_size_currency IS NOT NULL AND deal_size_needs_review = false
+    GROUP BY 1, 2
+    ORDER BY 1, 2
+  `;
+  console.log("--- Pipeline by currency and unit (reviewed or confident readings) ---");
+  for (const row of rows) {
+    console.log(`  ${row.currency} ${row.unit}: ${row.calls} calls, ${Number(row.low).toLocaleString()} - ${Number(row.high).toLocaleString()}`);
+  }
+  const flagged = await client`SELECT COUNT(*) as count FROM calls WHERE deal_size_needs_review = true`;
+  const unparsed = await client`
+    SELECT COUNT(*) as count FROM calls WHERE deal_size IS NOT NULL AND deal_size <> '' AND deal_size_source IS NULL
+  `;
+  console.log(`  (${flagged[0].count} flagged, ${unparsed[0].count} not parsed yet)`);
+}
+
+async function main() {
+  const [command, ...args] = positionalArgs(VALUE_FLAGS);
+
+  switch (command) {
+    case "backfill":
+      await backfill(process.argv.includes("--all"), !process.argv.includes("--no-llm"));
+      break;
+    case undefined:
+    case "review":
+      await review(Number(argValue("--limit") || 50));
+      break;
+    case "set":
+      if (!args[0] || !args[1]) throw new Error("set needs a callId and an amount (or none)");
+      await set(args[0], args.slice(1));
+      break;
+    case "summary":
+      await summary();
+      break;
+    default:
+      throw new Error(`Unknown command "${command}"`);
+  }
+
+  await client.end();
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
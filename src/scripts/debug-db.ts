@@ -1,13 +1,22 @@
+/**
+ * Print a report of what's in the database.
+ *
+ *   npx tsx src/scripts/debug-db.ts [--subtype new_business|existing_customer|renewal_upsell|...]
+ *     --subtype limits the sample calls and objection counts to calls of that subtype
+ */
 import dotenv from "dotenv";
 dotenv.config({ path: ".env.local" });
 
 import postgres from "postgres";
+import { argValue } from "../lib/cli-args";
 
 const client = postgres(process.env.DATABASE_URL!, {
   prepare: false,
   ssl: "require",
 });
 
+const SUBTYPE = argValue("--subtype");
+
 const TABLES = [
   "raw_meetings",
   "calls",
@@ -25,6 +34,24 @@ const TABLES = [
   "key_quotes",
   "counter_responses",
   "call_embeddings",
+  "sync_state",
+  "transcript_sentences",
+  "meeting_speakers",
+  "team_member_aliases",
+  "transcripts",
+  "classification_overrides",
+  "classifier_keywords",
+  "classifier_thresholds",
+  "classifier_field_weights",
+  "partner_meetings",
+  "partner_meeting_action_items",
+  "partner_meeting_attendees",
+  "extraction_dead_letters",
+  "extraction_runs",
+  "objection_type_proposals",
+  "technology_aliases",
+  "technology_mentions",
+  "sectors",
 ];
 
 async function main() {
@@ -41,6 +68,36 @@ async function main() {
     }
   }
 
+  // Source breakdown
+  console.log("\n--- Meetings by Source ---");
+  try {
+    const sources = await client.unsafe(
+      `SELECT source, COUNT(*) as count,
+              COUNT(*) FILTER (WHERE deleted_at IS NOT NULL) as deleted,
+              COUNT(*) FILTER (WHERE processed_at IS NULL AND deleted_at IS NULL) as queued
+       FROM raw_meetings GROUP BY source ORDER BY count DESC`
+    );
+    for (const row of sources) {
+      console.log(`  ${row.source}: ${row.count} (queued: ${row.queued}, tombstoned: ${row.deleted})`);
+    }
+  } catch (err) {
+    console.log(`  Error: ${(err as Error).message.slice(0, 80)}`);
+  }
+
+  // Transcript store footprint
+  console.log("\n--- Transcript Store ---");
+  try {
+    const store = await client.unsafe(
+      `SELECT encoding, COUNT(*) as count, SUM(size_bytes) as plain_bytes, SUM(octet_length(content)) as stored_bytes
+       FROM transcripts GROUP BY encoding`
+    );
+    for (const row of store) {
+      console.log(`  ${row.encoding}: ${row.count} transcripts | ${Math.round(row.plain_bytes / 1024)} KB text → ${Math.round(row.stored_bytes / 1024)} KB stored`);
+    }
+  } catch (err) {
+    console.log(`  Error: ${(err as Error).message.slice(0, 80)}`);
+  }
+
   // Classification breakdown
   console.log("\n--- Classification Breakdown ---");
   try {
@@ -54,6 +111,174 @@ async function main() {
     console.log(`  Error: ${(err as Error).message.slice(0, 80)}`);
   }
 
+  // How each label was reached, and the ones worth a second look
+  console.log("\n--- Classification Verdicts ---");
+  try {
+    const verdicts = await client.unsafe(
+      `SELECT classification,
+              classification_verdict->>'method' as method,
+              classification_verdict->>'rule' as rule,
+              classification_verdict->>'confidence' as confidence,
+              COUNT(*) as count
+       FROM raw_meetings
+       WHERE classification_verdict IS NOT NULL
+       GROUP BY 1, 2, 3, 4
+       ORDER BY count DESC`
+    );
+    for (const row of verdicts) {
+      console.log(`  ${row.classification} | ${row.method}: ${row.rule} | ${row.confidence}: ${row.count}`);
+    }
+
+    const lowConfidence = await client.unsafe(
+      `SELECT id, title, classification,
+              classification_verdict->>'rule' as rule,
+              classification_verdict->>'llmConfidence' as llm_confidence,
+              COALESCE(classification_verdict->'matchedKeywords'->'sales_call',
+                       classification_verdict->'matchedKeywords'->'sales') as sales_keywords
+       FROM raw_meetings
+       WHERE classification_verdict->>'confidence' = 'low' AND deleted_at IS NULL
+       ORDER BY date DESC NULLS LAST
+       LIMIT 20`
+    );
+    console.log(`\n  Low confidence (latest ${lowConfidence.length}):`);
+    for (const row of lowConfidence) {
+      const evidence = row.llm_confidence ? `llm ${row.llm_confidence}` : `sales keywords: ${(row.sales_keywords || []).join(", ") || "none"}`;
+      console.log(`  ${row.id} | ${row.classification} [${row.rule}] | ${evidence} | ${row.title?.slice(0, 60)}`);
+    }
+  } catch (err) {
+    console.log(`  Error: ${(err as Error).message.slice(0, 80)}`);
+  }
+
+  // Light extraction for partner_call / other meetings
+  console.log("\n--- Partner Meetings ---");
+  try {
+    const partners = await client.unsafe(
+      `SELECT pm.relationship_type, COUNT(*) as count, COUNT(DISTINCT pm.company_id) as companies
+       FROM partner_meetings pm
+       GROUP BY 1
+       ORDER BY count DESC`
+    );
+    for (const row of partners) {
+      console.log(`  ${row.relationship_type}: ${row.count} meetings, ${row.companies} companies`);
+    }
+    const missing = await client.unsafe(
+      `SELECT COUNT(*) as count FROM raw_meetings rm
+       WHERE rm.classification IN ('partner_call', 'other') AND rm.processed_at IS NOT NULL
+         AND rm.deleted_at IS NULL
+         AND NOT EXISTS (SELECT 1 FROM partner_meetings pm WHERE pm.raw_meeting_id = rm.id)`
+    );
+    console.log(`  Processed without light extraction: ${missing[0].count} (process-calls.ts --backfill-partner)`);
+  } catch (err) {
+    console.log(`  Error: ${(err as Error).message.slice(0, 80)}`);
+  }
+
+  // Long transcripts are extracted map-reduce instead of truncated
+  console.log("\n--- Extraction Strategy ---");
+  try {
+    const strategies = await client.unsafe(
+      `SELECT COALESCE(extraction_strategy, 'unrecorded') as strategy, COUNT(*) as count,
+              ROUND(AVG(extraction_chunks), 1) as avg_chunks
+       FROM calls
+       GROUP BY 1
+       ORDER BY count DESC`
+    );
+    for (const row of strategies) {
+      console.log(`  ${row.strategy}: ${row.count} calls${row.avg_chunks ? `, avg ${row.avg_chunks} chunks` : ""}`);
+    }
+  } catch (err) {
+    console.log(`  Error: ${(err as Error).message.slice(0, 80)}`);
+  }
+
+  // How many extracted quotes were found in the transcript
+  console.log("\n--- Quote Grounding ---");
+  try {
+    const grounding = await client.unsafe(
+      `SELECT kind, COUNT(*) FILTER (WHERE verified) as verified, COUNT(*) FILTER (WHERE NOT verified) as unverified,
+              COUNT(*) FILTER (WHERE verified IS NULL) as unchecked
+       FROM (
+         SELECT 'call_objections' as kind, verified FROM call_objections
+         UNION ALL SELECT 'key_quotes', verified FROM key_quotes
+         UNION ALL SELECT 'counter_responses', verified FROM counter_responses
+       ) q
+       GROUP BY kind`
+    );
+    for (const row of grounding) {
+      console.log(`  ${row.kind}: ${row.verified} verified, ${row.unverified} unverified, ${row.unchecked} unchecked`);
+    }
+  } catch (err) {
+    console.log(`  Error: ${(err as Error).message.slice(0, 80)}`);
+  }
+
+  // Which model extracted each call, and why the escalated ones were escalated
+  console.log("\n--- Extraction Models ---");
+  try {
+    const models = await client.unsafe(
+      `SELECT COALESCE(extraction_model, 'unrecorded') as model, COALESCE(escalation_reason, '-') as reason, COUNT(*) as count
+       FROM calls
+       GROUP BY 1, 2
+       ORDER BY count DESC`
+    );
+    for (const row of models) {
+      console.log(`  ${row.model} (${row.reason}): ${row.count} calls`);
+    }
+  } catch (err) {
+    console.log(`  Error: ${(err as Error).message.slice(0, 80)}`);
+  }
+
+  // How deal_size text was parsed (src/scripts/deal-sizes.ts)
+  console.log("\n--- Deal Sizes ---");
+  try {
+    const deals = await client.unsafe(
+      `SELECT COALESCE(deal_size_source, 'unparsed') as source, COUNT(*) FILTER (WHERE deal_size_needs_review) as flagged, COUNT(*) as count
+       FROM calls
+       WHERE deal_size IS NOT NULL AND deal_size <> ''
+       GROUP BY 1
+       ORDER BY count DESC`
+    );
+    for (const row of deals) {
+      console.log(`  ${row.source}: ${row.count} calls, ${row.flagged} flagged`);
+    }
+    if (deals.length === 0) console.log("  None");
+  } catch (err) {
+    console.log(`  Error: ${(err as Error).message.slice(0, 80)}`);
+  }
+
+  // tech_stack names waiting to be mapped (src/scripts/technologies.ts)
+  console.log("\n--- Unmatched Technologies (top 10) ---");
+  try {
+    const mentions = await client.unsafe(
+      `SELECT normalized_name, COUNT(*) as calls
+       FROM technology_mentions
+       WHERE status = 'pending'
+       GROUP BY 1
+       ORDER BY calls DESC
+       LIMIT 10`
+    );
+    for (const row of mentions) {
+      console.log(`  ${row.normalized_name}: ${row.calls} calls`);
+    }
+    if (mentions.length === 0) console.log("  None");
+  } catch (err) {
+    console.log(`  Error: ${(err as Error).message.slice(0, 80)}`);
+  }
+
+  // Extractions that failed validation or errored
+  console.log("\n--- Extraction Dead Letters ---");
+  try {
+    const letters = await client.unsafe(
+      `SELECT extractor, reason, COUNT(*) FILTER (WHERE resolved_at IS NULL) as open, COUNT(*) as total
+       FROM extraction_dead_letters
+       GROUP BY 1, 2
+       ORDER BY open DESC`
+    );
+    for (const row of letters) {
+      console.log(`  ${row.extractor} ${row.reason}: ${row.open} open, ${row.total} total`);
+    }
+    if (letters.length === 0) console.log("  None");
+  } catch (err) {
+    console.log(`  Error: ${(err as Error).message.slice(0, 80)}`);
+  }
+
   // Processed vs unprocessed
   console.log("\n--- Processing Status ---");
   try {
@@ -69,33 +294,94 @@ async function main() {
     console.log(`  Error: ${(err as Error).message.slice(0, 80)}`);
   }
 
+  // Sync watermarks
+  console.log("\n--- Sync State ---");
+  try {
+    const states = await client.unsafe(
+      `SELECT source, status, mode, last_synced_date, last_synced_at, cursor FROM sync_state ORDER BY source`
+    );
+    for (const row of states) {
+      const watermark = row.last_synced_date ? new Date(row.last_synced_date).toISOString() : "never";
+      console.log(`  ${row.source}: ${row.status}${row.mode ? ` (${row.mode}, cursor=${row.cursor ?? "start"})` : ""} | watermark ${watermark}`);
+    }
+  } catch (err) {
+    console.log(`  Error: ${(err as Error).message.slice(0, 80)}`);
+  }
+
+  // Speaker resolution
+  console.log("\n--- Speaker Resolution ---");
+  try {
+    const confidence = await client.unsafe(
+      `SELECT confidence, COUNT(*) as count FROM meeting_speakers GROUP BY confidence ORDER BY count DESC`
+    );
+    for (const row of confidence) {
+      console.log(`  ${row.confidence}: ${row.count}`);
+    }
+  } catch (err) {
+    console.log(`  Error: ${(err as Error).message.slice(0, 80)}`);
+  }
+
+  // Subtypes: outcomes per subtype, so new business isn't mixed with renewals
+  console.log("\n--- Calls by Subtype ---");
+  try {
+    const subtypes = await client.unsafe(
+      `SELECT COALESCE(subtype, 'unset') as subtype, COUNT(*) as count,
+              COUNT(*) FILTER (WHERE call_outcome IN ('positive', 'proposal_sent')) as positive,
+              COUNT(*) FILTER (WHERE call_outcome IN ('negative', 'declined')) as negative
+       FROM calls
+       GROUP BY 1
+       ORDER BY count DESC`
+    );
+    for (const row of subtypes) {
+      console.log(`  ${row.subtype}: ${row.count} calls (${row.positive} positive, ${row.negative} negative)`);
+    }
+    const other = await client.unsafe(
+      `SELECT classification, subtype, COUNT(*) as count FROM raw_meetings
+       WHERE subtype IS NOT NULL AND classification <> 'sales_call' AND deleted_at IS NULL
+       GROUP BY 1, 2`
+    );
+    for (const row of other) {
+      console.log(`  ${row.classification} / ${row.subtype}: ${row.count} meetings`);
+    }
+  } catch (err) {
+    console.log(`  Error: ${(err as Error).message.slice(0, 80)}`);
+  }
+
+  const subtypeFilter = SUBTYPE ? "WHERE c.subtype = $1" : "";
+  const subtypeParams = SUBTYPE ? [SUBTYPE] : [];
+  const subtypeLabel = SUBTYPE ? ` [subtype ${SUBTYPE}]` : "";
+
   // Sample calls
-  console.log("\n--- Sample Calls (latest 5) ---");
+  console.log(`\n--- Sample Calls (latest 5)${subtypeLabel} ---`);
   try {
     const sampleCalls = await client.unsafe(
-      `SELECT c.id, c.call_type, c.offering_pitched, c.call_outcome, c.call_quality_score, c.date,
+      `SELECT c.id, c.call_type, c.subtype, c.offering_pitched, c.call_outcome, c.call_quality_score, c.date,
               co.name as company_name
        FROM calls c
        LEFT JOIN companies co ON c.company_id = co.id
+       ${subtypeFilter}
        ORDER BY c.date DESC NULLS LAST
-       LIMIT 5`
+       LIMIT 5`,
+      subtypeParams
     );
     for (const row of sampleCalls) {
-      console.log(`  ${row.company_name || "Unknown"} | ${row.call_type} | ${row.offering_pitched} | ${row.call_outcome} | Score: ${row.call_quality_score} | ${row.date ? new Date(row.date).toISOString().split("T")[0] : "no date"}`);
+      console.log(`  ${row.company_name || "Unknown"} | ${row.call_type} | ${row.subtype || "-"} | ${row.offering_pitched} | ${row.call_outcome} | Score: ${row.call_quality_score} | ${row.date ? new Date(row.date).toISOString().split("T")[0] : "no date"}`);
     }
   } catch (err) {
     console.log(`  Error: ${(err as Error).message.slice(0, 80)}`);
   }
 
   // Sample objections
-  console.log("\n--- Objection Counts ---");
+  console.log(`\n--- Objection Counts${subtypeLabel} ---`);
   try {
     const objCounts = await client.unsafe(
-      `SELECT o.type_key, o.display_name, COUNT(co.id) as usage_count
+      `SELECT o.type_key, o.display_name, COUNT(c.id) as usage_count
        FROM objections o
        LEFT JOIN call_objections co ON o.id = co.objection_id
+       LEFT JOIN calls c ON c.id = co.call_id ${SUBTYPE ? "AND c.subtype = $1" : ""}
        GROUP BY o.id, o.type_key, o.display_name
-       ORDER BY usage_count DESC`
+       ORDER BY usage_count DESC`,
+      subtypeParams
     );
     for (const row of objCounts) {
       console.log(`  ${row.type_key}: ${row.usage_count} occurrences`);
@@ -108,15 +394,16 @@ async function main() {
   console.log("\n--- Companies (all) ---");
   try {
     const allCompanies = await client.unsafe(
-      `SELECT c.name, c.sector, COUNT(ca.id) as call_count
+      `SELECT c.name, c.sector, c.sector_source, COUNT(ca.id) as call_count
        FROM companies c
        LEFT JOIN calls ca ON c.id = ca.company_id
-       GROUP BY c.id, c.name, c.sector
+       GROUP BY c.id, c.name, c.sector, c.sector_source
        ORDER BY call_count DESC
        LIMIT 20`
     );
     for (const row of allCompanies) {
-      console.log(`  ${row.name} | ${row.sector || "no sector"} | ${row.call_count} calls`);
+      const source = row.sector_source ? ` (${row.sector_source})` : "";
+      console.log(`  ${row.name} | ${row.sector || "no sector"}${source} | ${row.call_count} calls`);
     }
   } catch (err) {
     console.log(`  Error: ${(err as Error).message.slice(0, 80)}`);
@@ -0,0 +1,222 @@
+/**
+ * Measure classifier accuracy against a hand-labelled gold set.
+ *
+ *   npx tsx src/scripts/eval-classifier.ts [gold.json] [--mode rules|llm|combined] [--live] [--min-accuracy 0.8] [--taxonomy db|<file.json>]
+ *     Runs classifyByRules, classifyByLLM and classifyMeeting (or just --mode)
+ *     and prints per-class precision/recall, a confusion matrix and the misses.
+ *     Offline by default: the LLM is a stub replaying each entry's llm_label.
+ *     --live calls Anthropic instead. --min-accuracy exits 1 if the combined
+ *     (or only) run scores below it, for CI.
+ *     --taxonomy scores keywords with the tuned taxonomy from the database, or
+ *     a JSON file (see classifier-taxonomy.ts export), instead of the defaults.
+ *
+ *   npx tsx src/scripts/eval-classifier.ts --export <out.json> [--limit 200]
+ *     Dump stored meetings as a gold-set template, labelled with their current
+ *     classification. Review and correct the labels by hand before using it.
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+import Anthropic from "@anthropic-ai/sdk";
+import { readFileSync, writeFileSync } from "fs";
+import { createStubAnthropic } from "../lib/anthropic-stub";
+import {
+  CLASSIFICATIONS,
+  classifyByLLM,
+  classifyByRules,
+  classifyMeeting,
+  type Classification,
+  type ClassificationVerdict,
+} from "../lib/classifier";
+import {
+  scorePredictions,
+  type EvalMode,
+  type EvalPrediction,
+  type EvalReport,
+  type GoldMeeting,
+} from "../lib/classifier-eval";
+import { DEFAULT_TAXONOMY, type KeywordTaxonomy } from "../lib/keyword-taxonomy";
+import { argValue, positionalArgs } from "../lib/cli-args";
+
+const DEFAULT_GOLD = "fixtures/classifier/gold.json";
+const LIVE = process.argv.includes("--live");
+
+// Flags that take a value
+const VALUE_FLAGS = ["--export", "--limit", "--taxonomy", "--mode", "--min-accuracy"];
+
+// Delay between Claude API calls in --live mode (ms)
+const API_DELAY = 500;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+function loadGold(path: string): GoldMeeting[] {
+  const gold: GoldMeeting[] = JSON.parse(readFileSync(path, "utf-8"));
+  for (const g of gold) {
+    if (!CLASSIFICATIONS.includes(g.label)) {
+      throw new Error(`${path}: ${g.id} has unknown label "${g.label}"`);
+    }
+  }
+  return gold;
+}
+
+function llmFor(entry: GoldMeeting, live: Anthropic | null): Anthropic {
+  if (live) return live;
+  return createStubAnthropic(() => entry.llm_label || "other");
+}
+
+async function loadEvalTaxonomy(source: string | undefined): Promise<KeywordTaxonomy> {
+  if (!source) return DEFAULT_TAXONOMY;
+  if (source !== "db") {
+    return { ...DEFAULT_TAXONOMY, ...JSON.parse(readFileSync(source, "utf-8")) };
+  }
+  const { drizzle } = await import("drizzle-orm/postgres-js");
+  const postgres = (await import("postgres")).default;
+  const { loadTaxonomy } = await import("../lib/keyword-taxonomy");
+  const client = postgres(process.env.DATABASE_URL!, { prepare: false, ssl: "require" });
+  const taxonomy = await loadTaxonomy(drizzle(client));
+  await client.end();
+  return taxonomy;
+}
+
+async function runMode(
+  mode: EvalMode,
+  gold: GoldMeeting[],
+  live: Anthropic | null,
+  taxonomy: KeywordTaxonomy
+): Promise<EvalReport> {
+  const predictions: EvalPrediction[] = [];
+  for (const entry of gold) {
+    let verdict: ClassificationVerdict | null;
+    if (mode === "rules") {
+      verdict = classifyByRules(entry.meeting, taxonomy);
+    } else {
+      if (live) await sleep(API_DELAY);
+      verdict = mode === "llm"
+        ? await classifyByLLM(llmFor(entry, live), entry.meeting, taxonomy)
+        : await classifyMeeting(entry.meeting, llmFor(entry, live), taxonomy);
+    }
+    predictions.push({
+      id: entry.id,
+      title: entry.meeting.title || "(untitled)",
+      expected: entry.label,
+      predicted: verdict?.classification ?? null,
+      rule: verdict?.rule ?? null,
+    });
+  }
+  return scorePredictions(mode, predictions);
+}
+
+function pct(value: number | null): string {
+  return value === null ? "   -" : `${Math.round(value * 100)}%`.padStart(4);
+}
+
+function printReport(report: EvalReport) {
+  console.log(`\n=== ${report.mode} ===`);
+  console.log(`Accuracy: ${pct(report.accuracy)} (${report.correct}/${report.total})${report.mode === "rules" ? `, abstained: ${report.abstained}` : ""}`);
+
+  console.log("\n  class          precision  recall  support  predicted");
+  for (const cls of CLASSIFICATIONS) {
+    const m = report.perClass[cls];
+    console.log(`  ${cls.padEnd(14)} ${pct(m.precision).padStart(9)}  ${pct(m.recall).padStart(6)}  ${String(m.support).padStart(7)}  ${String(m.predicted).padStart(9)}`);
+  }
+
+  const columns = [...CLASSIFICATIONS, ...(report.mode === "rules" ? ["abstain" as const] : [])];
+  console.log("\n  expected \\ predicted " + columns.map((c) => c.slice(0, 9).padStart(10)).join(""));
+  for (const expected of CLASSIFICATIONS) {
+    const row = columns.map((c) => String(report.confusion[expected][c]).padStart(10)).join("");
+    console.log(`  ${expected.padEnd(20)} ${row}`);
+  }
+
+  if (report.misclassified.length > 0) {
+    console.log("\n  Misclassified:");
+    for (const m of report.misclassified) {
+      console.log(`    ${m.id} "${m.title}": expected ${m.expected}, got ${m.predicted ?? "(abstain)"}${m.rule ? ` [${m.rule}]` : ""}`);
+    }
+  }
+}
+
+async function exportGold(outPath: string) {
+  const { drizzle } = await import("drizzle-orm/postgres-js");
+  const postgres = (await import("postgres")).default;
+  const { isNull } = await import("drizzle-orm");
+  const { rawMeetings } = await import("../db/schema");
+  const { getTranscript } = await import("../lib/transcript-store");
+
+  const client = postgres(process.env.DATABASE_URL!, { prepare: false, ssl: "require" });
+  const db = drizzle(client);
+  const limit = Number(argValue("--limit") || 200);
+
+  const rows = await db
+    .select()
+    .from(rawMeetings)
+    .where(isNull(rawMeetings.deletedAt))
+    .limit(limit);
+
+  const gold: GoldMeeting[] = [];
+  for (const row of rows) {
+    const raw = (row.rawJson as any) || {};
+    const text = (await getTranscript(db, row.transcriptHash)) || raw.transcript_text || "";
+    gold.push({
+      id: `${row.source}:${row.externalId}`,
+      label: (row.classification as Classification) || "other",
+      notes: "label copied from current classification; review by hand",
+      meeting: {
+        title: raw.title ?? row.title ?? undefined,
+        participants: raw.participants,
+        meeting_attendees: raw.meeting_attendees,
+        host_email: raw.host_email ?? undefined,
+        organizer_email: raw.organizer_email ?? undefined,
+        summary: raw.summary,
+        // The LLM classifier only reads the first 500 words
+        transcript_text: text.split(/\s+/).slice(0, 500).join(" "),
+      },
+    });
+  }
+
+  writeFileSync(outPath, JSON.stringify(gold, null, 2) + "\n");
+  console.log(`Wrote ${gold.length} meetings to ${outPath}`);
+  await client.end();
+}
+
+async function main() {
+  const exportPath = argValue("--export");
+  if (exportPath) {
+    await exportGold(exportPath);
+    process.exit(0);
+  }
+
+  const positional = positionalArgs(VALUE_FLAGS);
+  const goldPath = positional[0] || DEFAULT_GOLD;
+  const gold = loadGold(goldPath);
+  const live = LIVE ? new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY! }) : null;
+  const taxonomySource = argValue("--taxonomy");
+  const taxonomy = await loadEvalTaxonomy(taxonomySource);
+
+  console.log(`=== Classifier Eval: ${gold.length} gold meetings from ${goldPath} (${LIVE ? "live LLM" : "stubbed LLM"}, ${taxonomySource ? `taxonomy ${taxonomySource}` : "default taxonomy"}) ===`);
+  if (!LIVE) {
+    const missing = gold.filter((g) => !g.llm_label).length;
+    if (missing > 0) console.log(`  ${missing} entries have no llm_label; the stub answers "other" for them`);
+  }
+
+  const onlyMode = argValue("--mode") as EvalMode | undefined;
+  const modes: EvalMode[] = onlyMode ? [onlyMode] : ["rules", "llm", "combined"];
+  let last: EvalReport | null = null;
+  for (const mode of modes) {
+    last = await runMode(mode, gold, live, taxonomy);
+    printReport(last);
+  }
+
+  const minAccuracy = argValue("--min-accuracy");
+  if (minAccuracy && last && last.accuracy < Number(minAccuracy)) {
+    console.error(`\n${last.mode} accuracy ${pct(last.accuracy).trim()} is below --min-accuracy ${minAccuracy}`);
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
@@ -0,0 +1,66 @@
+/**
+ * Local stand-in for the Fireflies GraphQL API, serving transcripts from JSON fixtures.
+ *
+ *   npx tsx src/scripts/fake-fireflies.ts [fixturesDir] [--fail 429,503]
+ *     Serve fixtures on http://localhost:4010/graphql. Point FIREFLIES_API_URL at it.
+ *     --fail answers the first requests with the given statuses (429s carry
+ *     Retry-After: 1) to exercise client retries. Fixtures with a null
+ *     sentences/summary/title/date get a GraphQL error on that path, the way
+ *     the real API reports a partially failed transcript.
+ *
+ *   npx tsx src/scripts/fake-fireflies.ts --webhook <meetingId>
+ *     Send a signed "Transcription completed" webhook to WEBHOOK_URL
+ *     (default http://localhost:3000/api/webhooks/fireflies).
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+import { createHmac } from "crypto";
+import { createFakeFireflies, loadFixtures } from "../lib/fake-fireflies-server";
+import { TRANSCRIPTION_COMPLETED } from "../lib/sources/fireflies";
+import { argValue, positionalArgs } from "../lib/cli-args";
+
+const PORT = Number(process.env.FAKE_FIREFLIES_PORT || 4010);
+const WEBHOOK_URL = process.env.WEBHOOK_URL || "http://localhost:3000/api/webhooks/fireflies";
+
+function serve(dir: string) {
+  const transcripts = loadFixtures(dir);
+  console.log(`Loaded ${transcripts.length} fixture transcripts from ${dir}`);
+  const failures = (argValue("--fail") || "")
+    .split(",")
+    .filter(Boolean)
+    .map((s) => {
+      const status = Number(s);
+      return { status, headers: status === 429 ? { "Retry-After": "1" } : undefined };
+    });
+
+  const { server } = createFakeFireflies(transcripts, { failures, log: console.log });
+  server.listen(PORT, () => {
+    console.log(`Fake Fireflies listening on http://localhost:${PORT}/graphql`);
+  });
+}
+
+async function sendWebhook(meetingId: string) {
+  const body = JSON.stringify({ meetingId, eventType: TRANSCRIPTION_COMPLETED });
+  const signature = createHmac("sha256", process.env.FIREFLIES_WEBHOOK_SECRET || "")
+    .update(body)
+    .digest("hex");
+
+  const response = await fetch(WEBHOOK_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "x-hub-signature": signature },
+    body,
+  });
+  console.log(`${response.status} ${await response.text()}`);
+}
+
+const webhookMeetingId = argValue("--webhook");
+if (webhookMeetingId !== undefined) {
+  sendWebhook(webhookMeetingId).catch((err) => {
+    console.error("Webhook failed:", err);
+    process.exit(1);
+  });
+} else {
+  const dir = positionalArgs(["--fail"])[0] || "fixtures/fireflies";
+  serve(dir);
+}
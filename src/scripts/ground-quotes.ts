@@ -0,0 +1,108 @@
+/**
+ * Check objection quotes, key quotes and counter-responses against the
+ * transcript, for calls extracted before grounding existed or after changing
+ * the matcher in src/lib/quote-grounding.ts. No LLM calls.
+ *
+ *   npx tsx src/scripts/ground-quotes.ts [--only-missing] [--call <callId>]
+ *   npx tsx src/scripts/ground-quotes.ts --unverified [--limit N]   List unverified quotes
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { and, eq, isNotNull, isNull, sql } from "drizzle-orm";
+import { calls, rawMeetings } from "../db/schema";
+import { groundCallQuotes, GROUNDING_THRESHOLD } from "../lib/quote-grounding";
+import { argValue } from "../lib/cli-args";
+
+const client = postgres(process.env.DATABASE_URL!, {
+  prepare: false,
+  ssl: "require",
+});
+const db = drizzle(client);
+
+const ONLY_MISSING = process.argv.includes("--only-missing");
+
+async function listUnverified(limit: number) {
+  const rows = await client`
+    SELECT kind, quote, grounding_score, title FROM (
+      SELECT 'objection' as kind, co.quote, co.grounding_score, rm.title, c.date
+      FROM call_objections co JOIN calls c ON c.id = co.call_id JOIN raw_meetings rm ON rm.id = c.raw_meeting_id
+      WHERE co.verified = false
+      UNION ALL
+      SELECT 'key_quote', kq.quote_text, kq.grounding_score, rm.title, c.date
+      FROM key_quotes kq JOIN calls c ON c.id = kq.call_id JOIN raw_meetings rm ON rm.id = c.raw_meeting_id
+      WHERE kq.verified = false
+      UNION ALL
+      SELECT 'counter', cr.response_text, cr.grounding_score, rm.title, c.date
+      FROM counter_responses cr JOIN calls c ON c.id = cr.call_id JOIN raw_meetings rm ON rm.id = c.raw_meeting_id
+      WHERE cr.verified = false
+    ) q
+    ORDER BY date DESC NULLS LAST
+    LIMIT ${limit}
+  `;
+  console.log(`--- Unverified quotes (score < ${GROUNDING_THRESHOLD}, newest first) ---`);
+  for (const row of rows) {
+    console.log(`  [${row.kind}] ${Number(row.grounding_score).toFixed(2)} "${(row.quote || "").slice(0, 120)}" — ${row.title}`);
+  }
+}
+
+async function main() {
+  if (process.argv.includes("--unverified")) {
+    await listUnverified(Number(argValue("--limit") || 50));
+    await client.end();
+    process.exit(0);
+  }
+
+  console.log("=== Backfill: quote grounding ===\n");
+
+  const callId = argValue("--call");
+  const rows = await db
+    .select({ id: calls.id, rawMeetingId: calls.rawMeetingId, transcriptHash: calls.transcriptHash, title: rawMeetings.title })
+    .from(calls)
+    .innerJoin(rawMeetings, eq(rawMeetings.id, calls.rawMeetingId))
+    .where(
+      and(
+        isNotNull(calls.rawMeetingId),
+        isNull(rawMeetings.deletedAt),
+        callId ? eq(calls.id, callId) : undefined,
+        // A call counts as grounded once any of its quotes has a score
+        ONLY_MISSING
+          ? sql`NOT EXISTS (
+              SELECT 1 FROM call_objections co WHERE co.call_id = ${calls.id} AND co.grounding_score IS NOT NULL
+              UNION ALL SELECT 1 FROM key_quotes kq WHERE kq.call_id = ${calls.id} AND kq.grounding_score IS NOT NULL
+              UNION ALL SELECT 1 FROM counter_responses cr WHERE cr.call_id = ${calls.id} AND cr.grounding_score IS NOT NULL
+            )`
+          : undefined
+      )
+    );
+
+  console.log(`Found ${rows.length} calls\n`);
+  const totals = { checked: 0, verified: 0, noTranscript: 0 };
+
+  for (const row of rows) {
+    const summary = await groundCallQuotes(db, { id: row.id, rawMeetingId: row.rawMeetingId!, transcriptHash: row.transcriptHash });
+    if (summary.checked === 0) {
+      totals.noTranscript++;
+      continue;
+    }
+    totals.checked += summary.checked;
+    totals.verified += summary.verified;
+    if (summary.verified < summary.checked) {
+      console.log(`  "${row.title}": ${summary.verified}/${summary.checked} verified`);
+    }
+  }
+
+  console.log(`\n=== Backfill Complete ===`);
+  console.log(`Quotes checked: ${totals.checked}, verified: ${totals.verified}, unverified: ${totals.checked - totals.verified}`);
+  console.log(`Calls without transcript or quotes: ${totals.noTranscript}`);
+
+  await client.end();
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
@@ -0,0 +1,105 @@
+/**
+ * Import transcript files from disk into raw_meetings (WebVTT, SRT, speaker-labelled
+ * TXT, Fireflies JSON). Attendee emails, title and date can be supplied in an
+ * optional `<file>.meta.json` sidecar. Imported rows are picked up by process-calls.ts.
+ * A meeting is keyed by the sidecar `id`, else by its file's path under the
+ * import root (--root, else TRANSCRIPT_IMPORT_ROOT, else the working directory),
+ * so keep the root the same between imports to update earlier ones.
+ *
+ *   npx tsx src/scripts/import-transcripts.ts <file-or-dir>... [--root <dir>] [--dry-run]
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+import { readdirSync, statSync } from "fs";
+import path from "path";
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { storeMeeting } from "../lib/ingest";
+import { SUPPORTED_EXTENSIONS, parseTranscriptFile } from "../lib/sources/files";
+import { argValue, positionalArgs } from "../lib/cli-args";
+
+const client = postgres(process.env.DATABASE_URL!, {
+  prepare: false,
+  ssl: "require",
+});
+const db = drizzle(client);
+
+const DRY_RUN = process.argv.includes("--dry-run");
+const ROOT = path.resolve(argValue("--root") || process.env.TRANSCRIPT_IMPORT_ROOT || ".");
+
+function collectFiles(target: string): string[] {
+  if (statSync(target).isDirectory()) {
+    return readdirSync(target).flatMap((entry) => collectFiles(path.join(target, entry)));
+  }
+  if (target.endsWith(".meta.json")) return [];
+  return SUPPORTED_EXTENSIONS.includes(path.extname(target).toLowerCase()) ? [target] : [];
+}
+
+async function main() {
+  const targets = positionalArgs(["--root"]);
+  if (targets.length === 0) {
+    console.error("Usage: npx tsx src/scripts/import-transcripts.ts <file-or-dir>... [--root <dir>] [--dry-run]");
+    process.exit(1);
+  }
+
+  console.log(`=== Transcript File Import${DRY_RUN ? " (dry run)" : ""} ===`);
+  console.log(`Import root: ${ROOT}\n`);
+
+  const files = targets.flatMap(collectFiles);
+  console.log(`Found ${files.length} transcript files\n`);
+
+  const stats = { new: 0, updated: 0, restored: 0, unchanged: 0, duplicates: 0, errors: 0 };
+  // external_id → first file with it; a second file would overwrite the first's meeting
+  const seen = new Map<string, string>();
+
+  for (const file of files) {
+    try {
+      const meeting = parseTranscriptFile(file, ROOT);
+      const speakers = new Set(meeting.sentences.map((s) => s.speaker_name));
+      const date = meeting.date ? new Date(meeting.date).toISOString().split("T")[0] : "no date";
+      console.log(`${file}`);
+      console.log(`  ${meeting.source}:${meeting.external_id} | ${date} | ${meeting.sentences.length} turns | speakers: ${Array.from(speakers).join(", ")}`);
+
+      const firstFile = seen.get(meeting.external_id);
+      if (firstFile) {
+        console.error(`  Skipped: same id as ${firstFile} (give one of them a sidecar id)`);
+        stats.duplicates++;
+        continue;
+      }
+      seen.set(meeting.external_id, file);
+
+      if (meeting.sentences.length === 0) {
+        console.warn("  Warning: no speaker turns parsed");
+      }
+      if (meeting.participants.length === 0) {
+        console.warn("  Warning: no attendee emails (add a .meta.json sidecar); classification will rely on content only");
+      }
+
+      if (!DRY_RUN) {
+        const { result, changedFields } = await storeMeeting(db, meeting);
+        stats[result]++;
+        console.log(`  → ${result}${changedFields.length ? ` (${changedFields.join(", ")})` : ""}`);
+      }
+    } catch (err) {
+      console.error(`  Error importing ${file}: ${(err as Error).message.slice(0, 120)}`);
+      stats.errors++;
+    }
+  }
+
+  console.log(`\n--- Import Results ---`);
+  console.log(`New: ${stats.new}`);
+  console.log(`Updated: ${stats.updated}`);
+  console.log(`Restored: ${stats.restored}`);
+  console.log(`Unchanged: ${stats.unchanged}`);
+  console.log(`Duplicate ids: ${stats.duplicates}`);
+  console.log(`Errors: ${stats.errors}`);
+
+  await client.end();
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
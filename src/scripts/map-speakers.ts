@@ -0,0 +1,178 @@
+/**
+ * Review and fix transcript speaker → person mappings.
+ *
+ *   npx tsx src/scripts/map-speakers.ts                       List unresolved / low-confidence speakers
+ *   npx tsx src/scripts/map-speakers.ts resolve               Re-run automatic resolution for every meeting
+ *   npx tsx src/scripts/map-speakers.ts set <rawMeetingId> "<label>" --email <email>
+ *   npx tsx src/scripts/map-speakers.ts set <rawMeetingId> "<label>" --prospect <prospectContactId>
+ *   npx tsx src/scripts/map-speakers.ts alias <teamMemberEmail> "<alias>"
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { eq, sql } from "drizzle-orm";
+import {
+  callProspectContacts,
+  calls,
+  meetingSpeakers,
+  prospectContacts,
+  teamMemberAliases,
+  teamMembers,
+} from "../db/schema";
+import { loadRoster, resolveMeetingSpeakers, syncSentenceEmails } from "../lib/speakers";
+import { argValue, positionalArgs } from "../lib/cli-args";
+
+const client = postgres(process.env.DATABASE_URL!, {
+  prepare: false,
+  ssl: "require",
+});
+const db = drizzle(client);
+
+// Flags that take a value
+const VALUE_FLAGS = ["--email", "--prospect"];
+
+async function listUnresolved() {
+  const rows = await client.unsafe(
+    `SELECT ms.speaker_label, ms.confidence, ms.method, COUNT(*) as meetings,
+            MIN(rm.id::text) as example_meeting_id, MIN(rm.title) as example_title
+     FROM meeting_speakers ms
+     JOIN raw_meetings rm ON rm.id = ms.raw_meeting_id
+     WHERE ms.confidence IN ('none', 'low')
+     GROUP BY ms.speaker_label, ms.confidence, ms.method
+     ORDER BY meetings DESC, ms.speaker_label`
+  );
+
+  console.log(`--- Unresolved / low-confidence speakers (${rows.length}) ---`);
+  for (const row of rows) {
+    console.log(`  "${row.speaker_label}" | ${row.confidence} (${row.method}) | ${row.meetings} meetings | e.g. ${row.example_meeting_id} "${row.example_title}"`);
+  }
+}
+
+async function resolveAll() {
+  const meetings = await client.unsafe(
+    `SELECT DISTINCT raw_meeting_id FROM transcript_sentences`
+  );
+  const roster = await loadRoster(db);
+  console.log(`Resolving speakers for ${meetings.length} meetings\n`);
+
+  const totals = { high: 0, medium: 0, low: 0, none: 0 };
+  for (const { raw_meeting_id: rawMeetingId } of meetings) {
+    const prospects = await db
+      .select({ id: prospectContacts.id, name: prospectContacts.name })
+      .from(calls)
+      .innerJoin(callProspectContacts, eq(callProspectContacts.callId, calls.id))
+      .innerJoin(prospectContacts, eq(prospectContacts.id, callProspectContacts.prospectContactId))
+      .where(eq(calls.rawMeetingId, rawMeetingId));
+
+    const resolutions = await resolveMeetingSpeakers(db, rawMeetingId, { prospects, roster });
+    for (const r of resolutions) totals[r.confidence]++;
+  }
+
+  console.log("--- Speaker confidence ---");
+  for (const [level, count] of Object.entries(totals)) {
+    console.log(`  ${level}: ${count}`);
+  }
+}
+
+async function setMapping(rawMeetingId: string, label: string) {
+  const email = argValue("--email")?.trim().toLowerCase();
+  const prospectId = argValue("--prospect");
+  if (!email && !prospectId) {
+    throw new Error("set needs --email <email> or --prospect <prospectContactId>");
+  }
+
+  let teamMemberId: string | null = null;
+  let resolvedName: string | null = null;
+  if (email) {
+    const member = await db
+      .select({ id: teamMembers.id, name: teamMembers.name })
+      .from(teamMembers)
+      .where(eq(teamMembers.email, email))
+      .limit(1);
+    teamMemberId = member[0]?.id ?? null;
+    resolvedName = member[0]?.name ?? null;
+  }
+  if (prospectId) {
+    const prospect = await db
+      .select({ name: prospectContacts.name })
+      .from(prospectContacts)
+      .where(eq(prospectContacts.id, prospectId))
+      .limit(1);
+    if (prospect.length === 0) throw new Error(`No prospect contact ${prospectId}`);
+    resolvedName = prospect[0].name;
+  }
+
+  const fields = {
+    teamMemberId,
+    prospectContactId: prospectId || null,
+    email: email || null,
+    resolvedName,
+    method: "manual",
+    confidence: "high",
+  };
+  await db
+    .insert(meetingSpeakers)
+    .values({ rawMeetingId, speakerLabel: label, ...fields })
+    .onConflictDoUpdate({
+      target: [meetingSpeakers.rawMeetingId, meetingSpeakers.speakerLabel],
+      set: { ...fields, updatedAt: new Date() },
+    });
+  await syncSentenceEmails(db, rawMeetingId);
+
+  console.log(`Mapped "${label}" in ${rawMeetingId} → ${resolvedName || email || prospectId}`);
+}
+
+async function addAlias(email: string, alias: string) {
+  const member = await db
+    .select({ id: teamMembers.id, name: teamMembers.name })
+    .from(teamMembers)
+    .where(eq(teamMembers.email, email.trim().toLowerCase()))
+    .limit(1);
+  if (member.length === 0) throw new Error(`No team member with email ${email}`);
+
+  await db
+    .insert(teamMemberAliases)
+    .values({ teamMemberId: member[0].id, alias: alias.trim().toLowerCase() })
+    .onConflictDoUpdate({
+      target: teamMemberAliases.alias,
+      set: { teamMemberId: member[0].id },
+    });
+
+  const affected = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(meetingSpeakers)
+    .where(sql`lower(${meetingSpeakers.speakerLabel}) = ${alias.trim().toLowerCase()}`);
+  console.log(`Alias "${alias}" → ${member[0].name}. ${affected[0].count} existing speaker rows match; run "resolve" to apply.`);
+}
+
+async function main() {
+  const [command, ...args] = positionalArgs(VALUE_FLAGS);
+
+  switch (command) {
+    case undefined:
+    case "list":
+      await listUnresolved();
+      break;
+    case "resolve":
+      await resolveAll();
+      break;
+    case "set":
+      await setMapping(args[0], args[1]);
+      break;
+    case "alias":
+      await addAlias(args[0], args[1]);
+      break;
+    default:
+      throw new Error(`Unknown command "${command}"`);
+  }
+
+  await client.end();
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
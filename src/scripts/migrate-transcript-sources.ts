@@ -0,0 +1,73 @@
+/**
+ * Migration: key raw_meetings by (source, external_id) instead of fireflies_id.
+ * Run once BEFORE `drizzle-kit push`, otherwise push drops fireflies_id and its data.
+ * Safe to re-run.
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+import postgres from "postgres";
+
+const client = postgres(process.env.DATABASE_URL!, {
+  prepare: false,
+  ssl: "require",
+});
+
+async function columnExists(table: string, column: string): Promise<boolean> {
+  const result = await client`
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = ${table} AND column_name = ${column}
+  `;
+  return result.length > 0;
+}
+
+async function main() {
+  console.log("=== Migrate: raw_meetings source + external_id ===\n");
+
+  if (await columnExists("raw_meetings", "fireflies_id")) {
+    await client.unsafe(`ALTER TABLE raw_meetings RENAME COLUMN fireflies_id TO external_id`);
+    await client.unsafe(`ALTER TABLE raw_meetings DROP CONSTRAINT IF EXISTS raw_meetings_fireflies_id_unique`);
+    console.log("  Renamed fireflies_id → external_id");
+  }
+
+  if (!(await columnExists("raw_meetings", "source"))) {
+    await client.unsafe(
+      `ALTER TABLE raw_meetings ADD COLUMN source varchar(50) NOT NULL DEFAULT 'fireflies'`
+    );
+    console.log("  Added source column (existing rows → fireflies)");
+  }
+
+  await client.unsafe(`
+    DO $$ BEGIN
+      ALTER TABLE raw_meetings
+        ADD CONSTRAINT raw_meetings_source_external_id_unique UNIQUE (source, external_id);
+    EXCEPTION WHEN duplicate_object OR duplicate_table THEN NULL;
+    END $$
+  `);
+  console.log("  Ensured (source, external_id) unique constraint");
+
+  if (await columnExists("sync_state", "cursor_skip")) {
+    await client.unsafe(`ALTER TABLE sync_state RENAME COLUMN cursor_skip TO cursor`);
+    await client.unsafe(`
+      ALTER TABLE sync_state
+        ALTER COLUMN cursor DROP NOT NULL,
+        ALTER COLUMN cursor DROP DEFAULT,
+        ALTER COLUMN cursor TYPE varchar(500) USING NULLIF(cursor, 0)::text
+    `);
+    console.log("  Converted sync_state.cursor_skip → cursor");
+  }
+
+  const counts = await client`SELECT source, COUNT(*) as count FROM raw_meetings GROUP BY source`;
+  console.log("\n--- raw_meetings by source ---");
+  for (const row of counts) {
+    console.log(`  ${row.source}: ${row.count}`);
+  }
+
+  await client.end();
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
@@ -0,0 +1,125 @@
+/**
+ * Migration: move transcript text out of raw_meetings.raw_json and
+ * calls.transcript_text into the deduplicated transcripts table.
+ * Run once BEFORE `drizzle-kit push`, otherwise push drops calls.transcript_text
+ * and its data. Safe to re-run; resumes where an interrupted run stopped.
+ *
+ *   npx tsx src/scripts/migrate-transcript-store.ts [--prune]
+ *     --prune also deletes transcripts no meeting or call references any more
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { putTranscript } from "../lib/transcript-store";
+
+const client = postgres(process.env.DATABASE_URL!, {
+  prepare: false,
+  ssl: "require",
+});
+const db = drizzle(client);
+
+const BATCH_SIZE = 100;
+const PRUNE = process.argv.includes("--prune");
+
+async function columnExists(table: string, column: string): Promise<boolean> {
+  const result = await client`
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = ${table} AND column_name = ${column}
+  `;
+  return result.length > 0;
+}
+
+async function main() {
+  console.log("=== Migrate: transcripts store ===\n");
+
+  await client.unsafe(`
+    CREATE TABLE IF NOT EXISTS transcripts (
+      hash varchar(64) PRIMARY KEY,
+      encoding varchar(10) NOT NULL,
+      content bytea NOT NULL,
+      size_bytes integer NOT NULL,
+      created_at timestamp NOT NULL DEFAULT now()
+    )
+  `);
+  await client.unsafe(`ALTER TABLE raw_meetings ADD COLUMN IF NOT EXISTS transcript_hash varchar(64)`);
+  await client.unsafe(`ALTER TABLE calls ADD COLUMN IF NOT EXISTS transcript_hash varchar(64)`);
+  console.log("  Ensured transcripts table and transcript_hash columns");
+
+  // raw_meetings: text inlined in raw_json
+  let meetings = 0;
+  while (true) {
+    const batch = await client`
+      SELECT id, raw_json->>'transcript_text' as text FROM raw_meetings
+      WHERE raw_json ? 'transcript_text'
+      LIMIT ${BATCH_SIZE}
+    `;
+    if (batch.length === 0) break;
+
+    for (const row of batch) {
+      const hash = await putTranscript(db, row.text || "");
+      await client`
+        UPDATE raw_meetings
+        SET transcript_hash = COALESCE(transcript_hash, ${hash}), raw_json = raw_json - 'transcript_text'
+        WHERE id = ${row.id}
+      `;
+      meetings++;
+    }
+    console.log(`  raw_meetings migrated: ${meetings}`);
+  }
+
+  // calls: full copy in transcript_text
+  let callCount = 0;
+  if (await columnExists("calls", "transcript_text")) {
+    while (true) {
+      const batch = await client`
+        SELECT id, transcript_text FROM calls
+        WHERE transcript_text IS NOT NULL
+        LIMIT ${BATCH_SIZE}
+      `;
+      if (batch.length === 0) break;
+
+      for (const row of batch) {
+        const hash = await putTranscript(db, row.transcript_text);
+        await client`
+          UPDATE calls SET transcript_hash = COALESCE(transcript_hash, ${hash}), transcript_text = NULL
+          WHERE id = ${row.id}
+        `;
+        callCount++;
+      }
+      console.log(`  calls migrated: ${callCount}`);
+    }
+    await client.unsafe(`ALTER TABLE calls DROP COLUMN transcript_text`);
+    console.log("  Dropped calls.transcript_text");
+  }
+
+  if (PRUNE) {
+    const pruned = await client`
+      DELETE FROM transcripts t
+      WHERE NOT EXISTS (SELECT 1 FROM raw_meetings rm WHERE rm.transcript_hash = t.hash)
+        AND NOT EXISTS (SELECT 1 FROM calls c WHERE c.transcript_hash = t.hash)
+      RETURNING hash
+    `;
+    console.log(`  Pruned ${pruned.length} unreferenced transcripts`);
+  }
+
+  const stats = await client`
+    SELECT COUNT(*) as count,
+           COALESCE(SUM(size_bytes), 0) as plain_bytes,
+           COALESCE(SUM(octet_length(content)), 0) as stored_bytes
+    FROM transcripts
+  `;
+  const { count, plain_bytes, stored_bytes } = stats[0];
+  console.log(`\n--- transcripts ---`);
+  console.log(`  Rows: ${count}`);
+  console.log(`  Text: ${Math.round(Number(plain_bytes) / 1024)} KB, stored: ${Math.round(Number(stored_bytes) / 1024)} KB`);
+
+  await client.end();
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
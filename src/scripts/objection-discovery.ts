@@ -0,0 +1,182 @@
+/**
+ * Propose new objection types from the "other" pile, and review them.
+ * `discover` clusters call_objections tagged "other", asks the model to name
+ * each cluster, and replaces the pending proposals. `approve` adds the type
+ * to the objections table (so the next extraction offers it) and moves the
+ * cluster's rows over, plus "other" rows at least --threshold (default 0.35)
+ * similar to them; --dry-run lists those rows without changing anything.
+ *
+ *   npx tsx src/scripts/objection-discovery.ts discover [--min-size 3] [--threshold 0.15]
+ *   npx tsx src/scripts/objection-discovery.ts list [--all]
+ *   npx tsx src/scripts/objection-discovery.ts show <proposalId>
+ *   npx tsx src/scripts/objection-discovery.ts approve <proposalId> [--key k] [--name "Display Name"] [--description "..."] [--threshold 0.35]
+ *   npx tsx src/scripts/objection-discovery.ts approve <proposalId> --dry-run [--threshold 0.35]
+ *   npx tsx src/scripts/objection-discovery.ts reject <proposalId>
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+import Anthropic from "@anthropic-ai/sdk";
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { desc, eq } from "drizzle-orm";
+import { objectionTypeProposals } from "../db/schema";
+import {
+  approveProposal,
+  BACKFILL_THRESHOLD,
+  clusterObjections,
+  DEFAULT_CLUSTER_OPTIONS,
+  loadObjectionTypes,
+  loadOtherObjections,
+  planBackfill,
+  proposeObjectionType,
+  rejectProposal,
+  type ClusterOptions,
+} from "../lib/objection-discovery";
+import { argValue, positionalArgs } from "../lib/cli-args";
+
+const client = postgres(process.env.DATABASE_URL!, {
+  prepare: false,
+  ssl: "require",
+});
+const db = drizzle(client);
+
+// Quotes kept on a proposal for review
+const EXAMPLE_QUOTES = 5;
+
+// Flags that take a value
+const VALUE_FLAGS = ["--min-size", "--threshold", "--key", "--name", "--description"];
+
+function clusterOptions(): ClusterOptions {
+  return {
+    minSize: Number(argValue("--min-size") || DEFAULT_CLUSTER_OPTIONS.minSize),
+    threshold: Number(argValue("--threshold") || DEFAULT_CLUSTER_OPTIONS.threshold),
+  };
+}
+
+async function discover() {
+  const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY! });
+  const options = clusterOptions();
+  const others = await loadOtherObjections(db);
+  const clusters = clusterObjections(others, options);
+  console.log(`${others.length} "other" objections → ${clusters.length} cluster(s) of ${options.minSize}+\n`);
+
+  const existing = await loadObjectionTypes(db);
+  const proposals: (typeof objectionTypeProposals.$inferInsert)[] = [];
+  for (const cluster of clusters) {
+    const extraction = await proposeObjectionType(anthropic, cluster, existing);
+    const terms = cluster.topTerms.join(", ");
+    if (!extraction.ok) {
+      console.log(`  [${cluster.members.length}] ${terms}: naming failed (${extraction.failure.errors.slice(0, 2).join("; ")})`);
+      continue;
+    }
+    const proposal = extraction.input;
+    if (!proposal.coherent || proposal.same_as_existing) {
+      const why = proposal.same_as_existing ? `belongs to ${proposal.same_as_existing}` : "not one concern";
+      console.log(`  [${cluster.members.length}] ${terms}: skipped (${why})`);
+      continue;
+    }
+    console.log(`  [${cluster.members.length}] ${proposal.type_key}: ${proposal.display_name} — ${proposal.description}`);
+    proposals.push({
+      typeKey: proposal.type_key,
+      displayName: proposal.display_name,
+      description: proposal.description,
+      exampleQuotes: cluster.members.slice(0, EXAMPLE_QUOTES).map((m) => m.quote),
+      callObjectionIds: cluster.members.map((m) => m.id),
+      topTerms: cluster.topTerms,
+    });
+  }
+
+  // A fresh run supersedes earlier proposals nobody reviewed
+  await db.delete(objectionTypeProposals).where(eq(objectionTypeProposals.status, "pending"));
+  if (proposals.length > 0) await db.insert(objectionTypeProposals).values(proposals);
+  console.log(`\nStored ${proposals.length} pending proposal(s). Review with: npx tsx src/scripts/objection-discovery.ts list`);
+}
+
+async function list(includeReviewed: boolean) {
+  const rows = await db.select().from(objectionTypeProposals).orderBy(desc(objectionTypeProposals.createdAt));
+  const shown = rows.filter((r) => includeReviewed || r.status === "pending");
+  console.log(`--- Objection type proposals (${shown.length}${includeReviewed ? "" : " pending"}) ---`);
+  for (const row of shown) {
+    const status = row.status === "pending" ? "" : ` [${row.status}]`;
+    console.log(`  ${row.id} | ${row.typeKey} "${row.displayName}" | ${row.callObjectionIds.length} objections${status}`);
+    console.log(`      ${row.description || ""}`);
+    for (const quote of row.exampleQuotes.slice(0, 2)) console.log(`      "${quote.slice(0, 140)}"`);
+  }
+}
+
+async function show(id: string) {
+  const row = (await db.select().from(objectionTypeProposals).where(eq(objectionTypeProposals.id, id)).limit(1))[0];
+  if (!row) throw new Error(`No proposal ${id}`);
+  console.log(`=== ${row.typeKey}: ${row.displayName} (${row.status}) ===`);
+  console.log(`${row.description || ""}\n`);
+  console.log(`Objections in cluster: ${row.callObjectionIds.length}`);
+  console.log(`Frequent terms: ${row.topTerms.join(", ")}\n`);
+  console.log("Example quotes:");
+  for (const quote of row.exampleQuotes) console.log(`  - "${quote}"`);
+}
+
+async function previewApproval(id: string, threshold: number) {
+  const row = (await db.select().from(objectionTypeProposals).where(eq(objectionTypeProposals.id, id)).limit(1))[0];
+  if (!row) throw new Error(`No proposal ${id}`);
+  const plan = await planBackfill(db, row.callObjectionIds, threshold);
+  const nearby = plan.matches.filter((m) => m.score !== null).length;
+  console.log(`=== Dry run: approving ${row.typeKey} would move ${plan.matches.length} objection(s) ===`);
+  console.log(`  ${plan.matches.length - nearby} from the cluster, ${nearby} at similarity ${threshold}+`);
+  console.log(`  Counter-responses would follow on ${plan.counterResponseCallIds.length} call(s)\n`);
+  for (const match of plan.matches) {
+    const why = match.score === null ? "cluster" : `${match.score}`;
+    console.log(`  ${match.id} | call ${match.callId} | ${why} | "${match.quote.slice(0, 120)}"`);
+  }
+}
+
+async function main() {
+  const [command, ...args] = positionalArgs(VALUE_FLAGS);
+
+  switch (command) {
+    case "discover":
+      await discover();
+      break;
+    case undefined:
+    case "list":
+      await list(process.argv.includes("--all"));
+      break;
+    case "show":
+      if (!args[0]) throw new Error("show needs a proposalId");
+      await show(args[0]);
+      break;
+    case "approve": {
+      if (!args[0]) throw new Error("approve needs a proposalId");
+      const threshold = Number(argValue("--threshold") || BACKFILL_THRESHOLD);
+      if (process.argv.includes("--dry-run")) {
+        await previewApproval(args[0], threshold);
+        break;
+      }
+      const result = await approveProposal(
+        db,
+        args[0],
+        { typeKey: argValue("--key"), displayName: argValue("--name"), description: argValue("--description") },
+        threshold
+      );
+      console.log(`Added objection type ${result.typeKey}`);
+      console.log(`  Backfilled ${result.backfilled} objection(s) and ${result.counterResponsesMoved} counter-response(s) from "other"`);
+      console.log(`  process-calls and re-extract offer it from the next run`);
+      break;
+    }
+    case "reject":
+      if (!args[0]) throw new Error("reject needs a proposalId");
+      await rejectProposal(db, args[0]);
+      console.log(`Rejected ${args[0]}`);
+      break;
+    default:
+      throw new Error(`Unknown command "${command}"`);
+  }
+
+  await client.end();
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
@@ -0,0 +1,107 @@
+/**
+ * Manually correct meeting classifications. process-calls honours overrides:
+ * a relabelled meeting loses what was extracted under its old label now and,
+ * unless moved to internal, is extracted again on the next run.
+ *
+ *   npx tsx src/scripts/override-classification.ts set <rawMeetingId> <classification> --reason "<why>" [--by <name>]
+ *   npx tsx src/scripts/override-classification.ts clear <rawMeetingId> --reason "<why>" [--by <name>]
+ *   npx tsx src/scripts/override-classification.ts list                 Meetings with an override in force
+ *   npx tsx src/scripts/override-classification.ts history [rawMeetingId]
+ *
+ * --by defaults to $USER.
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import type { Classification } from "../lib/classifier";
+import { setClassificationOverride, type OverrideResult } from "../lib/classification-overrides";
+import { argValue, positionalArgs } from "../lib/cli-args";
+
+const client = postgres(process.env.DATABASE_URL!, {
+  prepare: false,
+  ssl: "require",
+});
+const db = drizzle(client);
+
+// Flags that take a value
+const VALUE_FLAGS = ["--reason", "--by"];
+
+function change() {
+  const reason = argValue("--reason");
+  if (!reason) throw new Error(`--reason "<why>" is required`);
+  return { by: argValue("--by") || process.env.USER || "", reason };
+}
+
+function report(rawMeetingId: string, result: OverrideResult) {
+  console.log(`${rawMeetingId}: ${result.previous ?? "(unclassified)"} → ${result.override ?? "(classifier decides)"}`);
+  if (result.callsRemoved > 0) console.log(`  Removed ${result.callsRemoved} extracted call(s)/partner meeting(s) and their details`);
+  if (result.requeued) console.log("  Queued for process-calls");
+}
+
+async function listOverrides() {
+  const rows = await client`
+    SELECT rm.id, rm.title, rm.date, rm.classification_override,
+           co.changed_by, co.reason, co.created_at
+    FROM raw_meetings rm
+    LEFT JOIN LATERAL (
+      SELECT changed_by, reason, created_at FROM classification_overrides
+      WHERE raw_meeting_id = rm.id ORDER BY created_at DESC LIMIT 1
+    ) co ON true
+    WHERE rm.classification_override IS NOT NULL
+    ORDER BY co.created_at DESC NULLS LAST
+  `;
+  console.log(`--- Overrides in force (${rows.length}) ---`);
+  for (const row of rows) {
+    console.log(`  ${row.id} | ${row.classification_override} | "${row.title}" | ${row.changed_by}: ${row.reason}`);
+  }
+}
+
+async function history(rawMeetingId?: string) {
+  const rows = rawMeetingId
+    ? await client`
+        SELECT co.*, rm.title FROM classification_overrides co
+        JOIN raw_meetings rm ON rm.id = co.raw_meeting_id
+        WHERE co.raw_meeting_id = ${rawMeetingId}
+        ORDER BY co.created_at`
+    : await client`
+        SELECT co.*, rm.title FROM classification_overrides co
+        JOIN raw_meetings rm ON rm.id = co.raw_meeting_id
+        ORDER BY co.created_at DESC LIMIT 50`;
+  console.log(`--- Override history (${rows.length}) ---`);
+  for (const row of rows) {
+    const when = new Date(row.created_at).toISOString().replace("T", " ").slice(0, 16);
+    console.log(`  ${when} | ${row.raw_meeting_id} "${row.title}" | ${row.previous_classification ?? "-"} → ${row.new_classification ?? "(cleared)"} | ${row.changed_by}: ${row.reason}`);
+  }
+}
+
+async function main() {
+  const [command, ...args] = positionalArgs(VALUE_FLAGS);
+
+  switch (command) {
+    case "set":
+      report(args[0], await setClassificationOverride(db, args[0], args[1] as Classification, change()));
+      break;
+    case "clear":
+      report(args[0], await setClassificationOverride(db, args[0], null, change()));
+      break;
+    case undefined:
+    case "list":
+      await listOverrides();
+      break;
+    case "history":
+      await history(args[0]);
+      break;
+    default:
+      throw new Error(`Unknown command "${command}"`);
+  }
+
+  await client.end();
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
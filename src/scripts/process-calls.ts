@@ -4,26 +4,30 @@ dotenv.config({ path: ".env.local" });
 import Anthropic from "@anthropic-ai/sdk";
 import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
-import { eq, isNull, sql } from "drizzle-orm";
+import { and, eq, isNull, sql } from "drizzle-orm";
+import type { Database } from "../db";
+import { rawMeetings } from "../db/schema";
 import {
-  rawMeetings,
-  calls,
-  companies,
-  teamMembers,
-  prospectContacts,
-  objections,
-  technologies,
-  callObjections,
-  callTechnologies,
-  callTeamMembers,
-  callProspectContacts,
-  callFollowUps,
-  prospectQuestions,
-  keyQuotes,
-  counterResponses,
-} from "../db/schema";
-import { classifyMeeting, type Classification } from "../lib/classifier";
-import { extractSalesCall, type ExtractionResult } from "../lib/extractor";
+  classifyMeeting,
+  keywordEvidence,
+  type Classification,
+  type ClassificationVerdict,
+} from "../lib/classifier";
+import { manualVerdict } from "../lib/classification-overrides";
+import { loadTaxonomy } from "../lib/keyword-taxonomy";
+import { detectSubtype } from "../lib/meeting-subtype";
+import { extractPartnerCall, extractSalesCallWithPolicy } from "../lib/extractor";
+import { buildTranscriptText, loadSentences } from "../lib/transcript-sentences";
+import { getTranscript, putTranscript, transcriptHash as hashTranscript } from "../lib/transcript-store";
+import { deleteExtractionForMeeting, extractedClassification, storePartnerExtraction, storeSalesExtraction } from "../lib/call-store";
+import { recordDeadLetter, resolveDeadLetters } from "../lib/dead-letters";
+import { formatDealSize } from "../lib/deal-size";
+import { markRunPromoted, recordExtractionRun } from "../lib/extraction-runs";
+import { finishSalesCall, type SalesCallFollowUp } from "../lib/finish-sales-call";
+import { loadModelPolicy } from "../lib/model-policy";
+import { loadObjectionTypes } from "../lib/objection-discovery";
+import { getEmails } from "../lib/participant-rules";
+import { resolveMeetingSpeakers } from "../lib/speakers";
 
 const client = postgres(process.env.DATABASE_URL!, {
   prepare: false,
@@ -33,8 +37,6 @@ const db = drizzle(client);
 
 const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY! });
 
-const SHERLOCK_DOMAIN = process.env.SHERLOCK_EMAIL_DOMAIN || "sherlock.xyz";
-
 // Delay between Claude API calls (ms)
 const API_DELAY = 1500;
 
@@ -42,252 +44,11 @@ function sleep(ms: number): Promise<void> {
   return new Promise((r) => setTimeout(r, ms));
 }
 
-// ─── Lookup/upsert helpers ──────────────────────────────────
-
-async function getOrCreateCompany(name: string, date?: Date | null): Promise<string> {
-  const normalized = name.trim();
-  if (!normalized || normalized === "Unknown") {
-    // Create a placeholder
-    const result = await db
-      .insert(companies)
-      .values({ name: `Unknown-${Date.now()}`, firstSeenDate: date || new Date() })
-      .returning({ id: companies.id });
-    return result[0].id;
-  }
-
-  const existing = await db
-    .select({ id: companies.id })
-    .from(companies)
-    .where(eq(companies.name, normalized))
-    .limit(1);
-
-  if (existing.length > 0) return existing[0].id;
-
-  const result = await db
-    .insert(companies)
-    .values({ name: normalized, firstSeenDate: date || new Date() })
-    .returning({ id: companies.id });
-  return result[0].id;
-}
-
-async function getOrCreateTeamMember(name: string, email: string | null | undefined): Promise<string> {
-  const normalizedEmail = (email || "").trim().toLowerCase();
-  if (!normalizedEmail || !normalizedEmail.includes("@")) {
-    // Generate a placeholder email
-    const slug = name.trim().toLowerCase().replace(/\s+/g, ".").replace(/[^a-z.]/g, "");
-    const placeholderEmail = `${slug || "unknown"}@${SHERLOCK_DOMAIN}`;
-    const existing = await db
-      .select({ id: teamMembers.id })
-      .from(teamMembers)
-      .where(eq(teamMembers.email, placeholderEmail))
-      .limit(1);
-    if (existing.length > 0) return existing[0].id;
-    const result = await db
-      .insert(teamMembers)
-      .values({ name: name.trim() || "Unknown", email: placeholderEmail })
-      .returning({ id: teamMembers.id });
-    return result[0].id;
-  }
-
-  const existing = await db
-    .select({ id: teamMembers.id })
-    .from(teamMembers)
-    .where(eq(teamMembers.email, normalizedEmail))
-    .limit(1);
-
-  if (existing.length > 0) return existing[0].id;
-
-  const result = await db
-    .insert(teamMembers)
-    .values({ name: name.trim(), email: normalizedEmail })
-    .returning({ id: teamMembers.id });
-  return result[0].id;
-}
-
-async function getOrCreateProspectContact(
-  name: string,
-  role: string,
-  companyId: string
-): Promise<string> {
-  // Check by name + company (prospects may share names across companies)
-  const existing = await db
-    .select({ id: prospectContacts.id })
-    .from(prospectContacts)
-    .where(eq(prospectContacts.name, name.trim()))
-    .limit(1);
-
-  if (existing.length > 0) return existing[0].id;
-
-  const result = await db
-    .insert(prospectContacts)
-    .values({
-      name: name.trim(),
-      role: role || null,
-      companyId,
-    })
-    .returning({ id: prospectContacts.id });
-  return result[0].id;
-}
-
-async function getObjectionId(typeKey: string): Promise<string | null> {
-  const result = await db
-    .select({ id: objections.id })
-    .from(objections)
-    .where(eq(objections.typeKey, typeKey))
-    .limit(1);
-  return result.length > 0 ? result[0].id : null;
-}
-
-async function getTechnologyId(name: string): Promise<string | null> {
-  const result = await db
-    .select({ id: technologies.id })
-    .from(technologies)
-    .where(eq(technologies.name, name))
-    .limit(1);
-  return result.length > 0 ? result[0].id : null;
-}
-
-// ─── Store extraction results ──────────────────────────────
-
-async function storeExtraction(
-  rawMeetingId: string,
-  rawData: any,
-  extraction: ExtractionResult
-): Promise<void> {
-  const meetingDate = rawData.date ? new Date(rawData.date) : null;
-  const duration = rawData.duration ? Math.round(rawData.duration) : null;
-
-  // 1. Get or create company
-  const companyId = await getOrCreateCompany(extraction.company_name, meetingDate);
-
-  // 2. Create the call record
-  const callResult = await db
-    .insert(calls)
-    .values({
-      rawMeetingId,
-      callType: extraction.call_type,
-      offeringPitched: extraction.offering_pitched,
-      companyId,
-      callOutcome: extraction.call_outcome,
-      dealSize: extraction.deal_size,
-      callQualityScore: extraction.call_quality_score,
-      qualityRationale: extraction.quality_rationale,
-      transcriptText: rawData.transcript_text || null,
-      summaryText: rawData.summary?.overview || rawData.summary?.short_summary || null,
-      firefliesUrl: rawData.transcript_url || null,
-      date: meetingDate,
-      duration,
-    })
-    .returning({ id: calls.id });
-
-  const callId = callResult[0].id;
-
-  // 3. Team members
-  for (const tm of extraction.team_members) {
-    try {
-      const tmId = await getOrCreateTeamMember(tm.name, tm.email);
-      await db.insert(callTeamMembers).values({ callId, teamMemberId: tmId });
-    } catch (err) {
-      console.warn(`    Warning: failed to link team member ${tm.name}: ${(err as Error).message.slice(0, 80)}`);
-    }
-  }
-
-  // 4. Prospect contacts
-  for (const pc of extraction.prospect_names) {
-    try {
-      const pcId = await getOrCreateProspectContact(pc.name, pc.role, companyId);
-      await db.insert(callProspectContacts).values({ callId, prospectContactId: pcId });
-    } catch (err) {
-      console.warn(`    Warning: failed to link prospect ${pc.name}: ${(err as Error).message.slice(0, 80)}`);
-    }
-  }
-
-  // 5. Technologies
-  for (const tech of extraction.tech_stack) {
-    try {
-      const techId = await getTechnologyId(tech);
-      if (techId) {
-        await db.insert(callTechnologies).values({ callId, technologyId: techId });
-      }
-      // Skip technologies not in our seeded list
-    } catch (err) {
-      // Ignore duplicates
-    }
-  }
-
-  // 6. Objections
-  for (const obj of extraction.objections) {
-    try {
-      const objId = await getObjectionId(obj.type_key);
-      if (objId) {
-        await db.insert(callObjections).values({
-          callId,
-          objectionId: objId,
-          quote: obj.quote || null,
-          context: obj.context || null,
-        });
-      }
-    } catch (err) {
-      // Ignore duplicates
-    }
-  }
-
-  // 7. Follow-up actions
-  for (const fu of extraction.follow_up_actions) {
-    try {
-      await db.insert(callFollowUps).values({
-        callId,
-        actionText: fu.action_text,
-        assignedTo: fu.assigned_to || null,
-      });
-    } catch (err) {
-      // Ignore
-    }
-  }
-
-  // 8. Prospect questions
-  for (const q of extraction.prospect_questions) {
-    try {
-      if (q && q.trim()) {
-        await db.insert(prospectQuestions).values({
-          callId,
-          questionText: q.trim(),
-        });
-      }
-    } catch (err) {
-      // Ignore
-    }
-  }
-
-  // 9. Key quotes
-  for (const kq of extraction.key_quotes) {
-    try {
-      await db.insert(keyQuotes).values({
-        callId,
-        speaker: kq.speaker || null,
-        quoteText: kq.quote_text,
-        context: kq.context || null,
-      });
-    } catch (err) {
-      // Ignore
-    }
-  }
-
-  // 10. Counter responses
-  for (const cr of extraction.counter_responses) {
-    try {
-      const objId = await getObjectionId(cr.objection_type_key);
-      if (objId) {
-        await db.insert(counterResponses).values({
-          objectionId: objId,
-          callId,
-          responseText: cr.response_text,
-          outcome: cr.outcome || null,
-        });
-      }
-    } catch (err) {
-      // Ignore
-    }
+/** Drop what a re-queued meeting had extracted, once there's a new extraction to store. */
+async function replaceExtraction(tx: Database, rawMeetingId: string) {
+  const replaced = await deleteExtractionForMeeting(tx, rawMeetingId);
+  if (replaced > 0) {
+    console.log(`  Replaced ${replaced} previous extraction(s)`);
   }
 }
 
@@ -296,11 +57,26 @@ async function storeExtraction(
 async function main() {
   console.log("=== Phase 2: Classification + LLM Extraction Pipeline ===\n");
 
-  // Fetch all unprocessed raw meetings
+  // Partner/other meetings processed before light extraction existed have no
+  // partner_meetings row; put them back in the queue
+  if (process.argv.includes("--backfill-partner")) {
+    const requeued = await client`
+      UPDATE raw_meetings rm SET processed_at = NULL
+      WHERE rm.classification IN ('partner_call', 'other')
+        AND rm.processed_at IS NOT NULL AND rm.deleted_at IS NULL
+        AND NOT EXISTS (SELECT 1 FROM partner_meetings pm WHERE pm.raw_meeting_id = rm.id)
+      RETURNING rm.id
+    `;
+    console.log(`Re-queued ${requeued.length} partner/other meetings for light extraction\n`);
+  }
+
+  // Fetch all unprocessed raw meetings (new, or re-queued because their content changed)
   const unprocessed = await db
     .select()
     .from(rawMeetings)
-    .where(isNull(rawMeetings.processedAt));
+    .where(and(isNull(rawMeetings.processedAt), isNull(rawMeetings.deletedAt)))
+    // Oldest first, so a company's earlier calls exist when subtypes look for them
+    .orderBy(rawMeetings.date);
 
   console.log(`Found ${unprocessed.length} unprocessed meetings\n`);
 
@@ -310,6 +86,10 @@ async function main() {
     process.exit(0);
   }
 
+  const taxonomy = await loadTaxonomy(db);
+  const objectionTypes = await loadObjectionTypes(db);
+  console.log(`Keyword taxonomy: ${taxonomy.keywords.length} keywords, objection types: ${objectionTypes.length}\n`);
+
   const stats = {
     total: unprocessed.length,
     sales_call: 0,
@@ -317,8 +97,17 @@ async function main() {
     internal: 0,
     other: 0,
     extracted: 0,
+    partnerExtracted: 0,
     extractionErrors: 0,
     classificationLLMCalls: 0,
+    repaired: 0,
+    mapReduce: 0,
+    escalated: 0,
+    unverifiedQuotes: 0,
+    dealSizesFlagged: 0,
+    sectorsAssigned: 0,
+    deadLettered: 0,
+    subtypes: {} as Record<string, number>,
   };
 
   for (let i = 0; i < unprocessed.length; i++) {
@@ -328,28 +117,58 @@ async function main() {
 
     console.log(`[${i + 1}/${unprocessed.length}] "${title}"`);
 
+    // Prefer the persisted speaker turns; fall back to the transcripts store,
+    // then to text inlined in raw_json by older pulls
+    const sentences = await loadSentences(db, meeting.id);
+    const transcript = sentences.length > 0
+      ? buildTranscriptText(sentences)
+      : (await getTranscript(db, meeting.transcriptHash)) || rawData?.transcript_text || "";
+
     // Step 1: Classify
-    let classification: Classification;
+    const meetingData = { ...rawData, transcript_text: transcript };
+    let verdict: ClassificationVerdict;
     try {
-      classification = await classifyMeeting(rawData || {}, anthropic);
-      console.log(`  Classification: ${classification}`);
+      verdict = meeting.classificationOverride
+        ? manualVerdict(meeting.classificationOverride as Classification, meetingData, taxonomy)
+        : await classifyMeeting(meetingData, anthropic, taxonomy);
+      console.log(`  Classification: ${verdict.classification} (${verdict.method}: ${verdict.rule}, ${verdict.confidence})`);
     } catch (err) {
       console.error(`  Classification failed: ${(err as Error).message.slice(0, 100)}`);
-      classification = "other";
+      verdict = {
+        classification: "other",
+        method: "fallback",
+        rule: "classification_error",
+        confidence: "low",
+        ...keywordEvidence(meetingData, taxonomy),
+        llmConfidence: null,
+      };
     }
+    const classification = verdict.classification;
 
     stats[classification]++;
+    if (verdict.method === "llm") stats.classificationLLMCalls++;
 
     // Update classification on raw_meeting
     await db
       .update(rawMeetings)
-      .set({ classification })
+      .set({ classification, classificationVerdict: verdict })
       .where(eq(rawMeetings.id, meeting.id));
 
-    // Step 2: Extract (only for sales_calls)
+    // A re-queued meeting keeps its old extraction until a new one succeeds,
+    // but only if it was made under the same label: one from another class
+    // (a cleared override, an edit that reclassified) is wrong even if the new
+    // extraction fails or nothing will replace it
+    const extractedAs = await extractedClassification(db, meeting.id);
+    if (extractedAs && extractedAs !== classification) {
+      const removed = await deleteExtractionForMeeting(db, meeting.id);
+      console.log(`  Removed ${removed} previous extraction(s) made as ${extractedAs}`);
+    }
+
+    // Step 2: Extract (full for sales_calls, light for partner and other calls)
+    // Set once a sales extraction is stored; it covers subtype and speakers too
+    let followUp: SalesCallFollowUp | null = null;
     if (classification === "sales_call") {
       try {
-        const transcript = rawData?.transcript_text || "";
         const overview = rawData?.summary?.overview || "";
 
         if (!transcript || transcript.length < 50) {
@@ -358,24 +177,133 @@ async function main() {
           // Delay before Claude API call
           await sleep(API_DELAY);
 
-          const extraction = await extractSalesCall(
+          const extraction = await extractSalesCallWithPolicy(
             anthropic,
             transcript,
             title,
-            overview
+            overview,
+            { objectionTypes, emails: getEmails(rawData || {}) }
           );
-
-          console.log(`  Extracted: ${extraction.company_name} | ${extraction.call_type} | ${extraction.offering_pitched} | Score: ${extraction.call_quality_score}`);
-
-          await storeExtraction(meeting.id, rawData, extraction);
-          stats.extracted++;
+          const runId = await recordExtractionRun(db, meeting.id, "sales_call", extraction, "process_calls", hashTranscript(transcript));
+          if (extraction.escalatedFor.length > 0) {
+            stats.escalated++;
+            console.log(`  Escalated to ${extraction.model} (${extraction.escalatedFor.join(", ")})`);
+          }
+
+          if (!extraction.ok) {
+            const { reason, errors } = extraction.failure;
+            console.error(`  Extraction failed (${reason}): ${errors.slice(0, 3).join("; ").slice(0, 200)}`);
+            await recordDeadLetter(db, meeting.id, "sales_call", extraction.failure);
+            stats.deadLettered++;
+          } else {
+            const result = extraction.input;
+            if (extraction.repaired) stats.repaired++;
+            const notes = [
+              extraction.strategy === "map_reduce" ? `map-reduce over ${extraction.chunks} chunks` : "",
+              extraction.repaired ? "repaired" : "",
+            ].filter(Boolean);
+            console.log(`  Extracted: ${result.company_name} | ${result.call_type} | ${result.offering_pitched} | Score: ${result.call_quality_score}${notes.length ? ` (${notes.join(", ")})` : ""}`);
+
+            const transcriptHash = await putTranscript(db, transcript);
+            const stored = await db.transaction(async (tx) => {
+              await replaceExtraction(tx, meeting.id);
+              const inserted = await storeSalesExtraction(tx, meeting.id, rawData, transcriptHash, result, { ...extraction, runId });
+              await markRunPromoted(tx, runId);
+              return inserted;
+            });
+            if (extraction.strategy === "map_reduce") stats.mapReduce++;
+            followUp = await finishSalesCall(
+              db,
+              anthropic,
+              { ...stored, transcriptHash, extraction: result },
+              { id: meeting.id, date: meeting.date, data: meetingData }
+            );
+            const { grounding, dealSize, sector } = followUp;
+            if (grounding && grounding.checked > 0) console.log(`  Quotes verified: ${grounding.verified}/${grounding.checked}`);
+            if (grounding) stats.unverifiedQuotes += grounding.checked - grounding.verified;
+            if (dealSize?.parsed) console.log(`  Deal size: ${formatDealSize(dealSize.parsed)} (${dealSize.source})`);
+            if (followUp.dealSizeFlagged) {
+              stats.dealSizesFlagged++;
+              console.log(`  Deal size "${result.deal_size}" flagged for review`);
+            }
+            if (sector?.status === "assigned") {
+              stats.sectorsAssigned++;
+              console.log(`  Sector: ${sector.assignment!.sectorKey || "none"} (${sector.assignment!.source})`);
+            }
+            await resolveDeadLetters(db, meeting.id);
+            stats.extracted++;
+          }
         }
       } catch (err) {
         console.error(`  Extraction error: ${(err as Error).message.slice(0, 150)}`);
+        await recordDeadLetter(db, meeting.id, "sales_call", { reason: "error", errors: [(err as Error).message], rawResponse: null });
+        stats.extractionErrors++;
+        stats.deadLettered++;
+      }
+    } else if (classification === "partner_call" || classification === "other") {
+      // Light extraction: partner organisation, relationship, action items, attendees
+      try {
+        if (!transcript || transcript.length < 50) {
+          console.log("  Skipping partner extraction: transcript too short");
+        } else {
+          await sleep(API_DELAY);
+          const extraction = await extractPartnerCall(anthropic, transcript, title, rawData?.summary?.overview || "");
+          const runId = await recordExtractionRun(db, meeting.id, "partner_call", extraction, "process_calls", hashTranscript(transcript));
+          if (!extraction.ok) {
+            const { reason, errors } = extraction.failure;
+            console.error(`  Partner extraction failed (${reason}): ${errors.slice(0, 3).join("; ").slice(0, 200)}`);
+            await recordDeadLetter(db, meeting.id, "partner_call", extraction.failure);
+            stats.deadLettered++;
+          } else {
+            const result = extraction.input;
+            if (extraction.repaired) stats.repaired++;
+            console.log(`  Partner: ${result.partner_name ?? "(none)"} | ${result.relationship_type} | ${result.action_items.length} action item(s)`);
+            await db.transaction(async (tx) => {
+              await replaceExtraction(tx, meeting.id);
+              await storePartnerExtraction(tx, meeting.id, rawData, classification, result);
+              await markRunPromoted(tx, runId);
+            });
+            await resolveDeadLetters(db, meeting.id);
+            stats.partnerExtracted++;
+          }
+        }
+      } catch (err) {
+        console.error(`  Partner extraction error: ${(err as Error).message.slice(0, 150)}`);
+        await recordDeadLetter(db, meeting.id, "partner_call", { reason: "error", errors: [(err as Error).message], rawResponse: null });
         stats.extractionErrors++;
+        stats.deadLettered++;
       }
     }
 
+    // Subtype: new business vs existing customer vs renewal, recruiting, investor
+    let subtypeDecision = followUp?.subtype;
+    if (!subtypeDecision) {
+      subtypeDecision = detectSubtype({ classification, data: meetingData, priorCalls: 0 });
+      await db
+        .update(rawMeetings)
+        .set({ subtype: subtypeDecision.subtype, subtypeReason: subtypeDecision.reason })
+        .where(eq(rawMeetings.id, meeting.id));
+    }
+    const { subtype, reason: subtypeReason } = subtypeDecision;
+    if (subtype) {
+      console.log(`  Subtype: ${subtype} (${subtypeReason})`);
+      stats.subtypes[subtype] = (stats.subtypes[subtype] || 0) + 1;
+    }
+
+    // Step 3: Tie transcript speaker labels to team members / prospects
+    let speakers = followUp?.speakers;
+    if (!followUp) {
+      try {
+        speakers = await resolveMeetingSpeakers(db, meeting.id);
+      } catch (err) {
+        console.warn(`  Speaker resolution failed: ${(err as Error).message.slice(0, 100)}`);
+      }
+    }
+    if (speakers && speakers.length > 0) {
+      const resolved = speakers.filter((s) => s.confidence !== "none").length;
+      console.log(`  Speakers resolved: ${resolved}/${speakers.length}`);
+    }
+
     // Mark as processed
     await db
       .update(rawMeetings)
@@ -391,7 +319,19 @@ async function main() {
   console.log(`  internal:     ${stats.internal}`);
   console.log(`  other:        ${stats.other}`);
   console.log(`  extracted:    ${stats.extracted}`);
+  console.log(`  partner extracted: ${stats.partnerExtracted}`);
   console.log(`  extract errors: ${stats.extractionErrors}`);
+  console.log(`  repaired after validation: ${stats.repaired}`);
+  console.log(`  map-reduce (long transcripts): ${stats.mapReduce}`);
+  console.log(`  escalated to ${loadModelPolicy().escalation.model}: ${stats.escalated}`);
+  console.log(`  unverified quotes: ${stats.unverifiedQuotes}`);
+  console.log(`  company sectors (re)assigned: ${stats.sectorsAssigned}`);
+  console.log(`  deal sizes to review: ${stats.dealSizesFlagged}${stats.dealSizesFlagged ? " (npx tsx src/scripts/deal-sizes.ts review)" : ""}`);
+  console.log(`  dead-lettered: ${stats.deadLettered}${stats.deadLettered ? " (npx tsx src/scripts/dead-letters.ts)" : ""}`);
+  console.log(`  LLM classifications: ${stats.classificationLLMCalls}`);
+  for (const [subtype, count] of Object.entries(stats.subtypes)) {
+    console.log(`  subtype ${subtype}: ${count}`);
+  }
 
   await client.end();
   process.exit(0);
@@ -0,0 +1,315 @@
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { eq } from "drizzle-orm";
+import { syncState } from "../db/schema";
+import { storeMeeting, tombstoneMissing, type Tombstoned } from "../lib/ingest";
+import { evaluateMeeting, loadParticipantRules } from "../lib/participant-rules";
+import { getSource, type CanonicalMeeting } from "../lib/sources";
+import { argValue } from "../lib/cli-args";
+
+const client = postgres(process.env.DATABASE_URL!, {
+  prepare: false,
+  ssl: "require",
+});
+const db = drizzle(client);
+
+const source = getSource(argValue("--source") || "fireflies");
+
+// Re-scan this far behind the watermark: sources filter on meeting date, and
+// a transcript can finish processing hours after the meeting started.
+const SYNC_OVERLAP_HOURS = Number(process.env.SYNC_OVERLAP_HOURS || 24);
+const FULL_BACKFILL = process.argv.includes("--full");
+// List and evaluate the participant rules only: nothing is stored and sync_state is left alone
+const DRY_RUN = process.argv.includes("--dry-run");
+
+// ─── Sync state ────────────────────────────────────────────
+
+type SyncStateRow = typeof syncState.$inferSelect;
+
+/** The source's sync_state row, created on first use. A dry run only reads it. */
+async function loadSyncState(): Promise<SyncStateRow> {
+  const existing = await db
+    .select()
+    .from(syncState)
+    .where(eq(syncState.source, source.name))
+    .limit(1);
+  if (existing.length > 0) return existing[0];
+
+  if (DRY_RUN) {
+    // What a fresh row would hold, without inserting one
+    return {
+      id: "",
+      source: source.name,
+      lastSyncedDate: null,
+      lastSyncedId: null,
+      lastSyncedAt: null,
+      status: "idle",
+      mode: null,
+      windowFrom: null,
+      windowTo: null,
+      cursor: null,
+      retryIds: [],
+    };
+  }
+
+  const result = await db
+    .insert(syncState)
+    .values({ source: source.name })
+    .returning();
+  return result[0];
+}
+
+function printRuleHits(hits: Map<string, { keep: boolean; reason: string; count: number }>) {
+  const sorted = Array.from(hits.entries()).sort((a, b) => b[1].count - a[1].count);
+  for (const [rule, hit] of sorted) {
+    console.log(`${hit.keep ? "Kept" : "Dropped"} by ${rule}: ${hit.count}${hit.keep ? "" : ` (${hit.reason})`}`);
+  }
+}
+
+async function main() {
+  console.log(`=== Transcript Pull: ${source.name}${DRY_RUN ? " (dry run)" : ""} ===\n`);
+  const rules = loadParticipantRules();
+  console.log(`Internal domains: ${rules.internalDomains.map((d) => `@${d}`).join(", ")}`);
+  for (const rule of rules.rules) {
+    console.log(`Rule ${rule.id} (${rule.type}): ${rule.reason}`);
+  }
+  console.log();
+
+  const state = await loadSyncState();
+
+  let mode: string;
+  let windowFrom: Date | null;
+  let windowTo: Date;
+  let cursor: string | null;
+  let resumed = false;
+
+  if (state.status !== "idle" && state.windowTo && !FULL_BACKFILL) {
+    // A previous run died mid-window: pick up where it left off
+    mode = state.mode || "incremental";
+    windowFrom = state.windowFrom;
+    windowTo = state.windowTo;
+    cursor = state.cursor;
+    resumed = true;
+    console.log(`Resuming interrupted ${mode} sync at cursor=${cursor ?? "(start)"}`);
+  } else {
+    mode = FULL_BACKFILL || !state.lastSyncedDate ? "full" : "incremental";
+    windowFrom = mode === "incremental"
+      ? new Date(state.lastSyncedDate!.getTime() - SYNC_OVERLAP_HOURS * 60 * 60 * 1000)
+      : null;
+    windowTo = new Date();
+    cursor = null;
+    console.log(`Starting ${mode} sync`);
+  }
+  console.log(`Window: ${windowFrom ? windowFrom.toISOString() : "(beginning)"} → ${windowTo.toISOString()}\n`);
+
+  if (!DRY_RUN) {
+    await db
+      .update(syncState)
+      .set({ status: "running", mode, windowFrom, windowTo, cursor })
+      .where(eq(syncState.id, state.id));
+  }
+
+  const stats = {
+    fetched: 0,
+    dropped: 0,
+    rejected: 0,
+    retried: 0,
+    passed: 0,
+    new: 0,
+    updated: 0,
+    restored: 0,
+    unchanged: 0,
+    errors: 0,
+  };
+  let newest: { id: string; date: number } | null = null;
+  const retryIds = new Set<string>();
+  // Everything the source listed in this window, kept or not, for tombstoning
+  const listedIds = new Set<string>();
+  const changes: { kind: string; label: string; detail: string }[] = [];
+  const ruleHits = new Map<string, { keep: boolean; reason: string; count: number }>();
+
+  const ingest = async (m: CanonicalMeeting) => {
+    const decision = evaluateMeeting(m);
+    const hit = ruleHits.get(decision.rule) || { keep: decision.keep, reason: decision.reason, count: 0 };
+    hit.count++;
+    ruleHits.set(decision.rule, hit);
+
+    if (DRY_RUN) {
+      console.log(`  ${decision.keep ? "KEEP" : "DROP"} [${decision.rule}] ${m.external_id} "${m.title}" — ${decision.reason}`);
+    }
+    if (!decision.keep) {
+      stats.dropped++;
+      return;
+    }
+    stats.passed++;
+    if (DRY_RUN) return;
+
+    try {
+      const outcome = await storeMeeting(db, m);
+      stats[outcome.result]++;
+      if (outcome.result !== "unchanged") {
+        changes.push({
+          kind: outcome.result,
+          label: `${m.external_id} "${m.title}"`,
+          detail: outcome.changedFields.join(", "),
+        });
+      }
+    } catch (err: any) {
+      const cause = err.cause?.message || err.cause?.code || "";
+      console.error(
+        `  Error storing ${m.external_id} (${m.title}): ${err.message.slice(0, 100)}${cause ? ` | cause: ${cause}` : ""}`
+      );
+      stats.errors++;
+      // The watermark still moves past it, so fetch it by id next run
+      retryIds.add(m.external_id);
+    }
+  };
+
+  // Meetings an earlier run got back incomplete: they may be outside this
+  // window by now, so fetch them one by one
+  if (state.retryIds.length > 0 && !DRY_RUN) {
+    console.log(`Retrying ${state.retryIds.length} previously incomplete meetings`);
+    for (const id of state.retryIds) {
+      try {
+        const m = await source.fetchMeeting(id);
+        if (m) {
+          stats.retried++;
+          await ingest(m);
+        }
+      } catch (err) {
+        console.warn(`  Still incomplete: ${id} (${(err as Error).message.slice(0, 120)})`);
+        retryIds.add(id);
+      }
+    }
+    console.log();
+  }
+
+  try {
+    while (true) {
+      console.log(`Fetching page: cursor=${cursor ?? "(start)"}...`);
+      const page = await source.listMeetings({ from: windowFrom, to: windowTo }, cursor);
+      console.log(`  Got ${page.meetings.length} meetings`);
+
+      for (const r of page.rejected || []) {
+        stats.rejected++;
+        console.warn(`  Rejected ${r.externalId ?? "(no id)"} "${r.title ?? ""}": ${r.issues.join("; ")}`);
+        if (r.externalId) {
+          retryIds.add(r.externalId);
+          listedIds.add(r.externalId);
+        }
+      }
+
+      for (const m of page.meetings) {
+        stats.fetched++;
+        listedIds.add(m.external_id);
+        if (m.date && (!newest || m.date > newest.date)) {
+          newest = { id: m.external_id, date: m.date };
+        }
+        await ingest(m);
+      }
+
+      cursor = page.nextCursor;
+      if (!DRY_RUN) {
+        await db
+          .update(syncState)
+          .set({ cursor, retryIds: Array.from(retryIds) })
+          .where(eq(syncState.id, state.id));
+      }
+
+      if (!cursor) break;
+
+      // Small delay between API calls
+      await new Promise((r) => setTimeout(r, 1000));
+    }
+  } catch (err) {
+    if (!DRY_RUN) {
+      await db
+        .update(syncState)
+        .set({ status: "failed" })
+        .where(eq(syncState.id, state.id));
+    }
+    throw err;
+  }
+
+  if (DRY_RUN) {
+    console.log("\n--- Rule Results (dry run) ---");
+    console.log(`Total fetched: ${stats.fetched}`);
+    printRuleHits(ruleHits);
+    console.log(`Kept: ${stats.passed}, dropped: ${stats.dropped}, rejected as incomplete: ${stats.rejected}`);
+    await client.end();
+    process.exit(0);
+  }
+
+  // A complete full listing is authoritative: anything we hold that it no
+  // longer returns was deleted upstream. A resumed run only saw part of it,
+  // and a rejected item may have had no id to list (a transcript nulled by a
+  // partial error), so any rejection or storage error skips tombstoning.
+  let tombstoned: Tombstoned[] = [];
+  const cleanListing = stats.rejected === 0 && stats.errors === 0;
+  const canTombstone = mode === "full" && !resumed && cleanListing && listedIds.size > 0;
+  if (canTombstone) {
+    tombstoned = await tombstoneMissing(db, source.name, listedIds, windowTo);
+  }
+
+  await db
+    .update(syncState)
+    .set({
+      status: "idle",
+      lastSyncedDate: windowTo,
+      lastSyncedId: newest?.id ?? state.lastSyncedId,
+      lastSyncedAt: new Date(),
+      windowFrom: null,
+      windowTo: null,
+      cursor: null,
+      retryIds: Array.from(retryIds),
+    })
+    .where(eq(syncState.id, state.id));
+
+  console.log("\n--- Filter Results ---");
+  console.log(`Total fetched: ${stats.fetched}`);
+  printRuleHits(ruleHits);
+  console.log(`Rejected as incomplete (queued for retry): ${stats.rejected}`);
+  console.log(`Recovered from retry queue: ${stats.retried}`);
+  console.log(`Passed filters: ${stats.passed}`);
+
+  console.log(`\n--- Storage Results ---`);
+  console.log(`New: ${stats.new}`);
+  console.log(`Updated: ${stats.updated}`);
+  console.log(`Restored: ${stats.restored}`);
+  console.log(`Unchanged: ${stats.unchanged}`);
+  console.log(`Errors: ${stats.errors}${stats.errors ? " (queued for retry)" : ""}`);
+  if (mode !== "full" || resumed) {
+    console.log("Tombstoned: (full sync only)");
+  } else if (!cleanListing) {
+    console.log(`Tombstoned: skipped (${stats.rejected} rejected, ${stats.errors} errors; listing not complete)`);
+  } else {
+    console.log(`Tombstoned: ${tombstoned.length}`);
+  }
+
+  console.log(`\n--- Change Report ---`);
+  if (changes.length === 0 && tombstoned.length === 0) {
+    console.log("No changes");
+  }
+  for (const c of changes) {
+    console.log(`  [${c.kind}] ${c.label}${c.detail ? ` (${c.detail})` : ""}`);
+  }
+  for (const t of tombstoned) {
+    console.log(`  [deleted] ${t.externalId} "${t.title}"${t.callsRemoved ? ` (${t.callsRemoved} extractions removed)` : ""}`);
+  }
+
+  // Verify
+  const countResult = await client`SELECT COUNT(*) as count FROM raw_meetings`;
+  console.log(`\nTotal raw_meetings in DB: ${countResult[0].count}`);
+  console.log(`Watermark: ${windowTo.toISOString()}`);
+
+  await client.end();
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
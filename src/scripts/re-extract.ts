@@ -0,0 +1,348 @@
+/**
+ * Try a prompt (or model) change on stored sales calls before it goes live.
+ * `run` re-extracts the selected calls, records each attempt in
+ * extraction_runs as a candidate and prints a field-by-field diff against
+ * what the calls tables hold now. Nothing changes until a run is promoted.
+ *
+ *   npx tsx src/scripts/re-extract.ts run [selection] [--prompt prompt.txt] [--version <label>] [--model <id>]
+ *       selection: --call <callId> | --company <name> | --since YYYY-MM-DD, plus --limit N (default 10) or --all
+ *   npx tsx src/scripts/re-extract.ts diff <runId>                 Re-print a candidate's diff against current data
+ *   npx tsx src/scripts/re-extract.ts promote <runId>              Replace the call's extraction with the candidate
+ *   npx tsx src/scripts/re-extract.ts promote --version <label>    Promote the latest candidate per call for a version
+ *   npx tsx src/scripts/re-extract.ts runs <rawMeetingId>          Run history for a meeting
+ *   npx tsx src/scripts/re-extract.ts versions                     Runs and tokens per prompt version and model
+ *
+ * Without --prompt the current EXTRACTION_PROMPT is used, so a prompt edited
+ * in src/lib/extractor.ts can be tried before process-calls uses it. Without
+ * --model the model policy applies, escalation included.
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+import Anthropic from "@anthropic-ai/sdk";
+import { readFileSync } from "fs";
+import path from "path";
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { and, desc, eq, gte, ilike, isNull } from "drizzle-orm";
+import { calls, companies, extractionRuns, rawMeetings } from "../db/schema";
+import { deleteExtractionForMeeting, loadSalesExtraction, storeSalesExtraction } from "../lib/call-store";
+import { diffExtractions, markRunPromoted, recordExtractionRun, type FieldDiff } from "../lib/extraction-runs";
+import {
+  extractSalesCall,
+  extractSalesCallWithPolicy,
+  type ExtractionResult,
+  type ExtractionStrategy,
+} from "../lib/extractor";
+import { finishSalesCall } from "../lib/finish-sales-call";
+import { loadObjectionTypes } from "../lib/objection-discovery";
+import { getEmails } from "../lib/participant-rules";
+import { buildTranscriptText, loadSentences } from "../lib/transcript-sentences";
+import { getTranscript, putTranscript, transcriptHash as hashTranscript } from "../lib/transcript-store";
+import { argValue, positionalArgs } from "../lib/cli-args";
+
+const client = postgres(process.env.DATABASE_URL!, {
+  prepare: false,
+  ssl: "require",
+});
+const db = drizzle(client);
+
+const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY! });
+
+const DEFAULT_LIMIT = 10;
+
+// Flags that take a value
+const VALUE_FLAGS = ["--prompt", "--version", "--model", "--call", "--company", "--since", "--limit"];
+
+function printDiff(diffs: FieldDiff[]) {
+  if (diffs.length === 0) {
+    console.log("    (no changes)");
+    return;
+  }
+  for (const diff of diffs) {
+    if (diff.kind === "value") {
+      console.log(`    ${diff.field}: ${JSON.stringify(diff.before)} → ${JSON.stringify(diff.after)}`);
+      continue;
+    }
+    console.log(`    ${diff.field}:`);
+    for (const item of diff.removed) console.log(`      - ${item.slice(0, 160)}`);
+    for (const item of diff.added) console.log(`      + ${item.slice(0, 160)}`);
+  }
+}
+
+async function loadTranscript(rawMeetingId: string, transcriptHash: string | null, rawData: any): Promise<string> {
+  const sentences = await loadSentences(db, rawMeetingId);
+  if (sentences.length > 0) return buildTranscriptText(sentences);
+  return (await getTranscript(db, transcriptHash)) || rawData?.transcript_text || "";
+}
+
+// ─── run ────────────────────────────────────────────────────
+
+async function run() {
+  const promptFile = argValue("--prompt");
+  const prompt = promptFile ? readFileSync(path.resolve(promptFile), "utf-8").trim() : undefined;
+  const promptVersion = argValue("--version");
+  const model = argValue("--model");
+  const since = argValue("--since");
+  const company = argValue("--company");
+  const limit = process.argv.includes("--all") ? undefined : Number(argValue("--limit") || DEFAULT_LIMIT);
+
+  const query = db
+    .select({
+      callId: calls.id,
+      rawMeetingId: calls.rawMeetingId,
+      // The meeting's current transcript, which promote checks the run against
+      transcriptHash: rawMeetings.transcriptHash,
+      title: rawMeetings.title,
+      rawJson: rawMeetings.rawJson,
+    })
+    .from(calls)
+    .innerJoin(rawMeetings, eq(rawMeetings.id, calls.rawMeetingId))
+    .leftJoin(companies, eq(companies.id, calls.companyId))
+    .where(
+      and(
+        isNull(rawMeetings.deletedAt),
+        argValue("--call") ? eq(calls.id, argValue("--call")!) : undefined,
+        company ? ilike(companies.name, company) : undefined,
+        since ? gte(calls.date, new Date(since)) : undefined
+      )
+    )
+    .orderBy(desc(calls.date));
+  const selected = limit ? await query.limit(limit) : await query;
+
+  const objectionTypes = await loadObjectionTypes(db);
+  console.log(`=== Re-extract: ${selected.length} call(s), prompt ${promptFile || "EXTRACTION_PROMPT"}${model ? `, model ${model}` : ""} ===\n`);
+
+  let changed = 0;
+  let failed = 0;
+  const tokens = { input: 0, output: 0 };
+  let version = "";
+
+  for (const call of selected) {
+    const rawData = (call.rawJson as any) || {};
+    const title = call.title || rawData.title || "Untitled";
+    console.log(`"${title}" (call ${call.callId})`);
+
+    const transcript = await loadTranscript(call.rawMeetingId!, call.transcriptHash, rawData);
+    if (transcript.length < 50) {
+      console.log("  Skipping: transcript too short");
+      continue;
+    }
+
+    const overview = rawData.summary?.overview || "";
+    const options = { objectionTypes, prompt, promptVersion };
+    const extraction = model
+      ? await extractSalesCall(anthropic, transcript, title, overview, { ...options, model })
+      : await extractSalesCallWithPolicy(anthropic, transcript, title, overview, { ...options, emails: getEmails(rawData) });
+    const runId = await recordExtractionRun(db, call.rawMeetingId!, "sales_call", extraction, "re_extract", hashTranscript(transcript));
+    version = extraction.promptVersion;
+    tokens.input += extraction.usage.inputTokens;
+    tokens.output += extraction.usage.outputTokens;
+
+    if (!extraction.ok) {
+      failed++;
+      console.log(`  Run ${runId}: failed (${extraction.failure.reason}): ${extraction.failure.errors.slice(0, 3).join("; ").slice(0, 200)}`);
+      continue;
+    }
+
+    const current = await loadSalesExtraction(db, call.callId);
+    const diffs = current ? diffExtractions(current, extraction.input) : [];
+    if (diffs.length > 0) changed++;
+    console.log(`  Run ${runId} (${extraction.model}, ${extraction.usage.inputTokens}+${extraction.usage.outputTokens} tokens):`);
+    printDiff(diffs);
+  }
+
+  console.log(`\n=== Done: ${changed} changed, ${selected.length - changed - failed} unchanged or skipped, ${failed} failed ===`);
+  console.log(`Tokens: ${tokens.input} in, ${tokens.output} out`);
+  if (version) console.log(`Promote with: npx tsx src/scripts/re-extract.ts promote --version ${version}`);
+}
+
+// ─── diff / promote ─────────────────────────────────────────
+
+async function loadRun(runId: string) {
+  const rows = await db.select().from(extractionRuns).where(eq(extractionRuns.id, runId)).limit(1);
+  if (rows.length === 0) throw new Error(`No extraction run ${runId}`);
+  return rows[0];
+}
+
+async function currentCall(rawMeetingId: string) {
+  const rows = await db
+    .select({ id: calls.id })
+    .from(calls)
+    .where(eq(calls.rawMeetingId, rawMeetingId))
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+async function diff(runId: string) {
+  const run = await loadRun(runId);
+  if (!run.ok) throw new Error(`Run ${runId} failed; nothing to diff`);
+  const call = await currentCall(run.rawMeetingId);
+  const current = call ? await loadSalesExtraction(db, call.id) : null;
+  console.log(`Run ${runId}: ${run.promptVersion} (${run.promptHash.slice(0, 12)}) on ${run.model}${run.promotedAt ? ", promoted" : ""}`);
+  if (!current) {
+    console.log("    (meeting has no stored call; promoting would create one)");
+    return;
+  }
+  printDiff(diffExtractions(current, run.parsedResult as ExtractionResult));
+}
+
+async function promote(runId: string) {
+  const run = await loadRun(runId);
+  if (run.extractor !== "sales_call") throw new Error(`Run ${runId} is a ${run.extractor} run; only sales_call runs can be promoted`);
+  if (!run.ok) throw new Error(`Run ${runId} failed; nothing to promote`);
+  if (run.promotedAt) throw new Error(`Run ${runId} is already promoted`);
+
+  const meeting = (await db.select().from(rawMeetings).where(eq(rawMeetings.id, run.rawMeetingId)).limit(1))[0];
+  if (!meeting || meeting.deletedAt) throw new Error(`Meeting ${run.rawMeetingId} is gone`);
+  if (meeting.classification !== "sales_call") {
+    throw new Error(`Meeting ${run.rawMeetingId} is now classified ${meeting.classification}; only sales calls get a calls row`);
+  }
+  const rawData = (meeting.rawJson as any) || {};
+  const result = run.parsedResult as ExtractionResult;
+
+  // The candidate must have read the transcript the meeting has now
+  const transcript = await loadTranscript(meeting.id, meeting.transcriptHash, rawData);
+  if (!run.transcriptHash) throw new Error(`Run ${runId} didn't record its transcript; re-run it before promoting`);
+  if (run.transcriptHash !== hashTranscript(transcript)) {
+    throw new Error(`Run ${runId} was extracted from an older transcript of this meeting; re-run it before promoting`);
+  }
+  const transcriptHash = await putTranscript(db, transcript);
+
+  // Swap the extraction in one go, so a failed store leaves the old one in place
+  const stored = await db.transaction(async (tx) => {
+    await deleteExtractionForMeeting(tx, run.rawMeetingId);
+    const inserted = await storeSalesExtraction(tx, run.rawMeetingId, rawData, transcriptHash, result, {
+      strategy: (run.strategy || "single") as ExtractionStrategy,
+      chunks: run.chunks ?? 1,
+      model: run.model,
+      escalatedFor: run.escalationReason ? run.escalationReason.split(",") : [],
+      runId: run.id,
+    });
+    await markRunPromoted(tx, run.id);
+    return inserted;
+  });
+
+  await finishSalesCall(
+    db,
+    anthropic,
+    { ...stored, transcriptHash, extraction: result },
+    { id: meeting.id, date: meeting.date, data: { ...rawData, transcript_text: transcript } }
+  );
+
+  console.log(`  Promoted run ${run.id} → call ${stored.callId} ("${meeting.title}")`);
+}
+
+async function promoteVersion(version: string) {
+  const candidates = await db
+    .select({ id: extractionRuns.id, rawMeetingId: extractionRuns.rawMeetingId })
+    .from(extractionRuns)
+    .where(
+      and(
+        eq(extractionRuns.promptVersion, version),
+        eq(extractionRuns.source, "re_extract"),
+        eq(extractionRuns.extractor, "sales_call"),
+        eq(extractionRuns.ok, true),
+        isNull(extractionRuns.promotedAt)
+      )
+    )
+    .orderBy(desc(extractionRuns.createdAt));
+
+  // Latest candidate per meeting
+  const seen = new Set<string>();
+  const latest = candidates.filter((c) => !seen.has(c.rawMeetingId) && seen.add(c.rawMeetingId));
+  console.log(`Promoting ${latest.length} candidate run(s) for ${version}`);
+  // A stale or reclassified meeting is skipped, not a reason to stop the batch
+  let skipped = 0;
+  for (const candidate of latest) {
+    try {
+      await promote(candidate.id);
+    } catch (err) {
+      skipped++;
+      console.log(`  Skipped run ${candidate.id}: ${(err as Error).message}`);
+    }
+  }
+  if (skipped > 0) console.log(`${skipped} run(s) not promoted`);
+}
+
+// ─── runs / versions ────────────────────────────────────────
+
+async function runs(rawMeetingId: string) {
+  const rows = await db
+    .select()
+    .from(extractionRuns)
+    .where(eq(extractionRuns.rawMeetingId, rawMeetingId))
+    .orderBy(desc(extractionRuns.createdAt));
+  console.log(`--- Extraction runs for ${rawMeetingId} (${rows.length}) ---`);
+  for (const row of rows) {
+    const when = row.createdAt.toISOString().replace("T", " ").slice(0, 16);
+    const status = row.promotedAt ? "promoted" : row.ok ? "candidate" : "failed";
+    console.log(
+      `  ${when} | ${row.id} | ${row.extractor} ${row.promptVersion} (${row.promptHash.slice(0, 12)}) | ${row.model} | ${row.source} | ${status} | ${row.inputTokens}+${row.outputTokens} tokens`
+    );
+  }
+}
+
+async function versions() {
+  const rows = await client`
+    SELECT extractor, prompt_version, LEFT(prompt_hash, 12) as hash, model,
+           COUNT(*) as runs, COUNT(*) FILTER (WHERE NOT ok) as failed,
+           COUNT(*) FILTER (WHERE promoted_at IS NOT NULL) as promoted,
+           SUM(input_tokens) as input_tokens, SUM(output_tokens) as output_tokens
+    FROM extraction_runs
+    GROUP BY 1, 2, 3, 4
+    ORDER BY MAX(created_at) DESC
+  `;
+  console.log("--- Prompt versions ---");
+  for (const row of rows) {
+    console.log(
+      `  ${row.extractor} ${row.prompt_version} (${row.hash}) on ${row.model}: ${row.runs} runs, ${row.promoted} promoted, ${row.failed} failed | ${row.input_tokens}+${row.output_tokens} tokens`
+    );
+  }
+  const live = await client`
+    SELECT COALESCE(er.prompt_version, 'unrecorded') as prompt_version, COUNT(*) as count
+    FROM calls c LEFT JOIN extraction_runs er ON er.id = c.extraction_run_id
+    GROUP BY 1 ORDER BY count DESC
+  `;
+  console.log("\n--- Calls by prompt version ---");
+  for (const row of live) console.log(`  ${row.prompt_version}: ${row.count}`);
+}
+
+async function main() {
+  const [command, ...args] = positionalArgs(VALUE_FLAGS);
+
+  switch (command) {
+    case "run":
+      await run();
+      break;
+    case "diff":
+      if (!args[0]) throw new Error("diff needs a runId");
+      await diff(args[0]);
+      break;
+    case "promote": {
+      const version = argValue("--version");
+      if (version) await promoteVersion(version);
+      else if (args[0]) await promote(args[0]);
+      else throw new Error("promote needs a runId or --version <label>");
+      break;
+    }
+    case "runs":
+      if (!args[0]) throw new Error("runs needs a rawMeetingId");
+      await runs(args[0]);
+      break;
+    case undefined:
+    case "versions":
+      await versions();
+      break;
+    default:
+      throw new Error(`Unknown command "${command}"`);
+  }
+
+  await client.end();
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
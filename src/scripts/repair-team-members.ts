@@ -15,6 +15,7 @@ import {
   teamMembers,
   callTeamMembers,
 } from "../db/schema";
+import { isInternalEmail, primaryInternalDomain } from "../lib/participant-rules";
 
 const client = postgres(process.env.DATABASE_URL!, {
   prepare: false,
@@ -22,14 +23,12 @@ const client = postgres(process.env.DATABASE_URL!, {
 });
 const db = drizzle(client);
 
-const SHERLOCK_DOMAIN = process.env.SHERLOCK_EMAIL_DOMAIN || "sherlock.xyz";
-
 async function getOrCreateTeamMember(name: string, email: string | null | undefined): Promise<string> {
   const normalizedEmail = (email || "").trim().toLowerCase();
   if (!normalizedEmail || !normalizedEmail.includes("@")) {
     // Generate a placeholder email from name
     const slug = name.trim().toLowerCase().replace(/\s+/g, ".").replace(/[^a-z.]/g, "");
-    const placeholderEmail = `${slug || "unknown"}@${SHERLOCK_DOMAIN}`;
+    const placeholderEmail = `${slug || "unknown"}@${primaryInternalDomain()}`;
     const existing = await db
       .select({ id: teamMembers.id })
       .from(teamMembers)
@@ -94,7 +93,7 @@ async function main() {
     // From meeting_attendees
     if (rawData?.meeting_attendees) {
       for (const a of rawData.meeting_attendees) {
-        if (a.email && a.email.toLowerCase().endsWith(`@${SHERLOCK_DOMAIN}`)) {
+        if (a.email && isInternalEmail(a.email)) {
           sherlockMembers.push({ name: a.displayName || a.name || a.email.split("@")[0], email: a.email });
         }
       }
@@ -103,7 +102,7 @@ async function main() {
     // From participants
     if (rawData?.participants) {
       for (const p of rawData.participants) {
-        if (p && p.includes("@") && p.toLowerCase().endsWith(`@${SHERLOCK_DOMAIN}`)) {
+        if (p && p.includes("@") && isInternalEmail(p)) {
           const existing = sherlockMembers.find(m => m.email.toLowerCase() === p.toLowerCase());
           if (!existing) {
             sherlockMembers.push({ name: p.split("@")[0], email: p });
@@ -113,7 +112,7 @@ async function main() {
     }
 
     // From host/organizer
-    if (rawData?.host_email && rawData.host_email.toLowerCase().endsWith(`@${SHERLOCK_DOMAIN}`)) {
+    if (rawData?.host_email && isInternalEmail(rawData.host_email)) {
       const existing = sherlockMembers.find(m => m.email.toLowerCase() === rawData.host_email.toLowerCase());
       if (!existing) {
         sherlockMembers.push({ name: rawData.host_email.split("@")[0], email: rawData.host_email });
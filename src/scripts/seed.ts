@@ -3,7 +3,17 @@ dotenv.config({ path: ".env.local" });
 
 import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
-import { objections, technologies } from "../db/schema";
+import {
+  classifierFieldWeights,
+  classifierKeywords,
+  classifierThresholds,
+  objections,
+  sectors,
+  technologies,
+  technologyAliases,
+} from "../db/schema";
+import { DEFAULT_TAXONOMY } from "../lib/keyword-taxonomy";
+import { normalizeTechName } from "../lib/technologies";
 
 const client = postgres(process.env.DATABASE_URL!, {
   prepare: false,
@@ -73,6 +83,139 @@ const TECHNOLOGY_SEEDS = [
   { name: "BSC", category: "chain" },
 ];
 
+// Protocol categories for companies.sector. Keywords feed the rule pass of
+// src/lib/company-sectors.ts; they're tuned in place, so only set on insert.
+const SECTOR_SEEDS = [
+  {
+    key: "dex",
+    displayName: "DEX",
+    description: "Decentralized exchanges, AMMs and order books",
+    keywords: ["dex", "amm", "swap", "swaps", "liquidity pool", "liquidity pools", "order book", "orderbook", "concentrated liquidity"],
+  },
+  {
+    key: "lending",
+    displayName: "Lending",
+    description: "Money markets, borrowing and CDPs",
+    keywords: ["lending", "borrowing", "money market", "collateral", "liquidation", "liquidations", "cdp"],
+  },
+  {
+    key: "derivatives",
+    displayName: "Derivatives",
+    description: "Perpetuals, options and other derivatives",
+    keywords: ["perpetuals", "perps", "perp", "options protocol", "futures", "derivatives", "funding rate"],
+  },
+  {
+    key: "stablecoin",
+    displayName: "Stablecoin",
+    description: "Stablecoin issuers and pegged assets",
+    keywords: ["stablecoin", "stablecoins", "peg", "depeg"],
+  },
+  {
+    key: "liquid_staking",
+    displayName: "Liquid Staking",
+    description: "Liquid staking tokens and staking pools",
+    keywords: ["liquid staking", "lst", "lsts", "staking pool"],
+  },
+  {
+    key: "restaking",
+    displayName: "Restaking",
+    description: "Restaking protocols, LRTs and AVSs",
+    keywords: ["restaking", "restake", "avs", "eigenlayer", "lrt", "lrts"],
+  },
+  {
+    key: "yield",
+    displayName: "Yield / Vaults",
+    description: "Vaults, yield aggregators and structured products",
+    keywords: ["vault", "vaults", "yield aggregator", "auto-compounding", "structured products"],
+  },
+  {
+    key: "bridge",
+    displayName: "Bridge",
+    description: "Cross-chain bridges and messaging",
+    keywords: ["bridge", "bridges", "cross-chain", "crosschain", "interoperability", "messaging protocol"],
+  },
+  {
+    key: "l2",
+    displayName: "L2 / Rollup",
+    description: "Rollups, L2s and app-chains built on another chain",
+    keywords: ["rollup", "rollups", "l2", "layer 2", "sequencer", "zk rollup", "app-chain", "appchain"],
+  },
+  {
+    key: "l1",
+    displayName: "L1",
+    description: "Base-layer blockchains and their clients",
+    keywords: ["l1", "layer 1", "consensus", "validator set", "node client"],
+  },
+  {
+    key: "nft",
+    displayName: "NFT",
+    description: "NFT collections, marketplaces and tooling",
+    keywords: ["nft", "nfts", "collectibles", "nft marketplace"],
+  },
+  {
+    key: "gaming",
+    displayName: "Gaming",
+    description: "Onchain games and gaming infrastructure",
+    keywords: ["gaming", "gamefi", "onchain game", "web3 game"],
+  },
+  {
+    key: "rwa",
+    displayName: "Real-World Assets",
+    description: "Tokenized real-world assets and onchain credit",
+    keywords: ["rwa", "real world assets", "real-world assets", "tokenization", "tokenized treasuries", "private credit"],
+  },
+  {
+    key: "wallet",
+    displayName: "Wallet",
+    description: "Wallets, custody and smart accounts",
+    keywords: ["wallet", "wallets", "custody", "smart account", "smart accounts"],
+  },
+  {
+    key: "infra",
+    displayName: "Infrastructure",
+    description: "Oracles, RPC, indexing, account abstraction and developer tooling",
+    keywords: ["oracle", "oracles", "rpc", "indexer", "indexing", "account abstraction", "middleware", "developer tooling"],
+  },
+  {
+    key: "dao",
+    displayName: "DAO / Governance",
+    description: "DAOs, governance and treasury tooling",
+    keywords: ["dao", "governance", "treasury management"],
+  },
+  {
+    key: "payments",
+    displayName: "Payments",
+    description: "Payments, remittance and onchain commerce",
+    keywords: ["payments", "payment rails", "remittance", "checkout"],
+  },
+  {
+    key: "other",
+    displayName: "Other",
+    description: "A protocol that fits none of the categories above",
+    keywords: [],
+  },
+];
+
+// Shorthand heard on calls; more are added by mapping technology_mentions
+const TECHNOLOGY_ALIAS_SEEDS = [
+  { alias: "Arb", technology: "Arbitrum" },
+  { alias: "Arbitrum One", technology: "Arbitrum" },
+  { alias: "ETH", technology: "Ethereum" },
+  { alias: "Ethereum mainnet", technology: "Ethereum" },
+  { alias: "OP", technology: "Optimism" },
+  { alias: "OP Mainnet", technology: "Optimism" },
+  { alias: "Matic", technology: "Polygon" },
+  { alias: "Polygon PoS", technology: "Polygon" },
+  { alias: "Avax", technology: "Avalanche" },
+  { alias: "BNB Chain", technology: "BSC" },
+  { alias: "BNB Smart Chain", technology: "BSC" },
+  { alias: "Binance Smart Chain", technology: "BSC" },
+  { alias: "Forge", technology: "Foundry" },
+  { alias: "Foundry tests", technology: "Foundry" },
+  { alias: "Sui Move", technology: "Move" },
+  { alias: "Aptos Move", technology: "Move" },
+];
+
 async function seed() {
   console.log("Seeding objections...");
   for (const obj of OBJECTION_SEEDS) {
@@ -86,6 +229,18 @@ async function seed() {
   }
   console.log(`  Seeded ${OBJECTION_SEEDS.length} objections`);
 
+  console.log("Seeding sectors...");
+  for (const sector of SECTOR_SEEDS) {
+    await db
+      .insert(sectors)
+      .values(sector)
+      .onConflictDoUpdate({
+        target: sectors.key,
+        set: { displayName: sector.displayName, description: sector.description },
+      });
+  }
+  console.log(`  Seeded ${SECTOR_SEEDS.length} sectors`);
+
   console.log("Seeding technologies...");
   for (const tech of TECHNOLOGY_SEEDS) {
     await db
@@ -98,6 +253,36 @@ async function seed() {
   }
   console.log(`  Seeded ${TECHNOLOGY_SEEDS.length} technologies`);
 
+  // Aliases are remapped in place, so only add missing ones
+  const techIds = new Map((await db.select().from(technologies)).map((t) => [t.name, t.id]));
+  for (const { alias, technology } of TECHNOLOGY_ALIAS_SEEDS) {
+    await db
+      .insert(technologyAliases)
+      .values({ alias: normalizeTechName(alias), technologyId: techIds.get(technology)! })
+      .onConflictDoNothing();
+  }
+  console.log(`  Seeded ${TECHNOLOGY_ALIAS_SEEDS.length} technology aliases`);
+
+  // The taxonomy is tuned in place after the first seed, so never overwrite it.
+  // Keywords are only seeded into an empty table so removed ones stay removed.
+  console.log("Seeding classifier taxonomy...");
+  const existingKeywords = await db.select({ id: classifierKeywords.id }).from(classifierKeywords).limit(1);
+  if (existingKeywords.length === 0) {
+    await db.insert(classifierKeywords).values(DEFAULT_TAXONOMY.keywords);
+    console.log(`  Seeded ${DEFAULT_TAXONOMY.keywords.length} keywords`);
+  } else {
+    console.log("  Keywords already present, left as they are");
+  }
+  for (const [classification, threshold] of Object.entries(DEFAULT_TAXONOMY.thresholds)) {
+    await db
+      .insert(classifierThresholds)
+      .values({ classification, ...threshold })
+      .onConflictDoNothing();
+  }
+  for (const [field, weight] of Object.entries(DEFAULT_TAXONOMY.fieldWeights)) {
+    await db.insert(classifierFieldWeights).values({ field, weight }).onConflictDoNothing();
+  }
+
   console.log("Done!");
   process.exit(0);
 }
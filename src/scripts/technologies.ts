@@ -0,0 +1,127 @@
+/**
+ * Review tech_stack names that matched no technology or alias. Mapping a name
+ * adds it as an alias; creating one adds a technology. Either way every call
+ * that mentioned it gets its call_technologies row.
+ *
+ *   npx tsx src/scripts/technologies.ts unmatched [--all] [--limit N]   Queue by number of calls
+ *   npx tsx src/scripts/technologies.ts map "<mention>" "<technology>"
+ *   npx tsx src/scripts/technologies.ts create "<mention>" [--name "zkSync"] [--category chain]
+ *   npx tsx src/scripts/technologies.ts ignore "<mention>"
+ *   npx tsx src/scripts/technologies.ts aliases
+ *   npx tsx src/scripts/technologies.ts scan    Re-resolve tech_stack from each call's promoted extraction run
+ */
+import dotenv from "dotenv";
+dotenv.config({ path: ".env.local" });
+
+import { drizzle } from "drizzle-orm/postgres-js";
+import postgres from "postgres";
+import { eq } from "drizzle-orm";
+import { calls, extractionRuns, technologies, technologyAliases } from "../db/schema";
+import type { ExtractionResult } from "../lib/extractor";
+import {
+  createTechnologyFromMention,
+  ignoreMention,
+  listUnmatchedTechnologies,
+  mapMention,
+  storeTechStack,
+  type MentionApproval,
+} from "../lib/technologies";
+import { argValue, positionalArgs } from "../lib/cli-args";
+
+const client = postgres(process.env.DATABASE_URL!, {
+  prepare: false,
+  ssl: "require",
+});
+const db = drizzle(client);
+
+// Flags that take a value
+const VALUE_FLAGS = ["--limit", "--name", "--category"];
+
+async function unmatched(includeIgnored: boolean, limit: number) {
+  const rows = await listUnmatchedTechnologies(db, includeIgnored);
+  console.log(`--- Unmatched technologies (${rows.length}${includeIgnored ? "" : " pending"}, by calls) ---`);
+  for (const row of rows.slice(0, limit)) {
+    const status = row.status === "pending" ? "" : ` [${row.status}]`;
+    console.log(`  ${String(row.calls).padStart(4)}  ${row.name}${status}`);
+  }
+  if (rows.length > limit) console.log(`  ... ${rows.length - limit} more`);
+}
+
+async function aliases() {
+  const rows = await db
+    .select({ alias: technologyAliases.alias, technology: technologies.name })
+    .from(technologyAliases)
+    .innerJoin(technologies, eq(technologies.id, technologyAliases.technologyId))
+    .orderBy(technologies.name, technologyAliases.alias);
+  console.log(`--- Technology aliases (${rows.length}) ---`);
+  for (const row of rows) console.log(`  ${row.alias} → ${row.technology}`);
+}
+
+/**
+ * Calls stored before the queue existed dropped unknown names, but their
+ * promoted extraction run still has the full tech_stack. Calls without a run
+ * need re-extract.ts to recover theirs.
+ */
+async function scan() {
+  const rows = await db
+    .select({ callId: calls.id, parsedResult: extractionRuns.parsedResult })
+    .from(calls)
+    .innerJoin(extractionRuns, eq(extractionRuns.id, calls.extractionRunId));
+  let linked = 0;
+  let queued = 0;
+  for (const row of rows) {
+    const result = row.parsedResult as ExtractionResult | null;
+    if (!result?.tech_stack) continue;
+    const summary = await storeTechStack(db, row.callId, result.tech_stack);
+    linked += summary.linked;
+    queued += summary.unmatched;
+  }
+  console.log(`Scanned ${rows.length} call(s): ${linked} technology link(s) added, ${queued} unmatched mention(s) seen`);
+}
+
+function reportApproval(mention: string, result: MentionApproval) {
+  console.log(`"${mention}" → ${result.technologyName}${result.aliasAdded ? " (alias added)" : ""}`);
+  console.log(`  Linked ${result.callsLinked} call(s)`);
+}
+
+async function main() {
+  const [command, ...args] = positionalArgs(VALUE_FLAGS);
+
+  switch (command) {
+    case undefined:
+    case "unmatched":
+      await unmatched(process.argv.includes("--all"), Number(argValue("--limit") || 50));
+      break;
+    case "map":
+      if (!args[0] || !args[1]) throw new Error('map needs a mention and a technology, e.g. map "Arb" Arbitrum');
+      reportApproval(args[0], await mapMention(db, args[0], args[1]));
+      break;
+    case "create":
+      if (!args[0]) throw new Error("create needs a mention");
+      reportApproval(
+        args[0],
+        await createTechnologyFromMention(db, args[0], { name: argValue("--name"), category: argValue("--category") })
+      );
+      break;
+    case "ignore":
+      if (!args[0]) throw new Error("ignore needs a mention");
+      console.log(`Ignored ${await ignoreMention(db, args[0])} mention(s) of "${args[0]}"`);
+      break;
+    case "aliases":
+      await aliases();
+      break;
+    case "scan":
+      await scan();
+      break;
+    default:
+      throw new Error(`Unknown command "${command}"`);
+  }
+
+  await client.end();
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
@@ -20,14 +20,14 @@ async function verify() {
 
   console.log("\n--- Latest 5 raw_meetings ---");
   const samples = await sql`
-    SELECT fireflies_id, title, date, duration
+    SELECT source, external_id, title, date, duration
     FROM raw_meetings
     ORDER BY date DESC NULLS LAST
     LIMIT 5
   `;
   for (const r of samples) {
     const d = r.date ? new Date(r.date).toISOString().slice(0, 10) : "no date";
-    console.log(`  ${d} | ${r.duration}min | ${r.title}`);
+    console.log(`  ${d} | ${r.source} | ${r.duration}min | ${r.title}`);
   }
 
   console.log("\n--- Objection types ---");